@@ -0,0 +1,492 @@
+import { describe, expect, test } from 'bun:test';
+import { execSync, spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  PlaywrightListOutput,
+  TestAssignResult,
+} from '../src/core/types.js';
+
+/**
+ * Assign Command Tests
+ *
+ * Runs the built CLI against a generated --list JSON file.
+ */
+
+describe('Assign Command', () => {
+  function runAssign(
+    list: PlaywrightListOutput,
+    args: string,
+  ): TestAssignResult {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'assign-test-'));
+    const listPath = path.join(tmpDir, 'test-list.json');
+
+    try {
+      fs.writeFileSync(listPath, JSON.stringify(list, null, 2));
+
+      execSync('bun run build', { cwd: process.cwd(), stdio: 'pipe' });
+      const output = execSync(
+        `node ./bin/run.js assign --test-list "${listPath}" ${args}`,
+        { cwd: process.cwd(), stdio: 'pipe', encoding: 'utf-8' },
+      );
+
+      return JSON.parse(output) as TestAssignResult;
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  const list: PlaywrightListOutput = {
+    config: {
+      rootDir: '/project',
+      projects: [
+        { name: 'chromium', testDir: '/project/e2e' },
+        { name: 'Mobile Chrome', testDir: '/project/mobile' },
+      ],
+    },
+    suites: [
+      {
+        title: 'a.spec.ts',
+        file: 'a.spec.ts',
+        specs: ['one', 'two', 'three'].map((title, i) => ({
+          title,
+          file: 'a.spec.ts',
+          line: i + 1,
+          column: 1,
+          tests: [
+            { projectName: 'chromium' },
+            { projectName: 'Mobile Chrome' },
+          ],
+        })),
+      },
+    ],
+  };
+
+  describe('Multi-project assignment', () => {
+    test('balances every project across the same shards', () => {
+      const result = runAssign(list, '--shards 2 --all-projects');
+
+      expect(result.totalTests).toBe(6);
+      const allKeys = Object.values(result.shards).flat();
+      expect(new Set(allKeys).size).toBe(6);
+      expect(allKeys).toContain('[Mobile Chrome] › a.spec.ts::one');
+      expect(allKeys).toContain('[chromium] › a.spec.ts::one');
+    });
+
+    test('records the project of each test and groups test-lists by project', () => {
+      const result = runAssign(
+        list,
+        '--shards 2 --project chromium --project "Mobile Chrome"',
+      );
+
+      expect(result.projects).toBeDefined();
+      let total = 0;
+      for (const [shard, projects] of Object.entries(result.projects ?? {})) {
+        const lines = (result.testListFiles[Number(shard)] ?? '')
+          .split('\n')
+          .filter(Boolean);
+        const chromium = projects.chromium ?? [];
+        const mobile = projects['Mobile Chrome'] ?? [];
+        total += chromium.length + mobile.length;
+
+        // chromium entries come first, then Mobile Chrome
+        expect(
+          lines
+            .slice(0, chromium.length)
+            .every((l) => l.startsWith('[chromium] › e2e/a.spec.ts')),
+        ).toBe(true);
+        expect(
+          lines
+            .slice(chromium.length)
+            .every((l) => l.startsWith('[Mobile Chrome] › mobile/a.spec.ts')),
+        ).toBe(true);
+      }
+      expect(total).toBe(6);
+    });
+
+    test('single project keeps plain test IDs and no project prefix', () => {
+      const result = runAssign(list, '--shards 2 --project chromium');
+
+      expect(result.projects).toBeUndefined();
+      expect(Object.values(result.shards).flat().sort()).toEqual([
+        'a.spec.ts::one',
+        'a.spec.ts::three',
+        'a.spec.ts::two',
+      ]);
+      expect(Object.values(result.testListFiles).join('')).not.toContain('[');
+    });
+  });
+
+  describe('Weighted shards', () => {
+    test('gives a twice-as-fast shard twice the tests', () => {
+      const result = runAssign(
+        list,
+        '--shards 2 --project chromium --no-file-affinity --shard-weights 1,2',
+      );
+
+      expect(result.shards[1]).toHaveLength(1);
+      expect(result.shards[2]).toHaveLength(2);
+      expect(result.expectedDurations[2]).toBe(result.expectedDurations[1]);
+    });
+  });
+
+  describe('Serial groups', () => {
+    test('keeps the tests of a serial describe on one shard in order', () => {
+      const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'assign-serial-'));
+      try {
+        fs.writeFileSync(
+          path.join(testDir, 'flow.spec.ts'),
+          `test.describe.serial('Flow', () => {
+  test('one', async () => {});
+  test('two', async () => {});
+  test('three', async () => {});
+});
+`,
+        );
+        const serialList: PlaywrightListOutput = {
+          config: {
+            rootDir: testDir,
+            projects: [{ name: 'chromium', testDir }],
+          },
+          suites: [
+            {
+              title: 'flow.spec.ts',
+              file: 'flow.spec.ts',
+              suites: [
+                {
+                  title: 'Flow',
+                  file: 'flow.spec.ts',
+                  specs: ['one', 'two', 'three'].map((title, i) => ({
+                    title,
+                    file: 'flow.spec.ts',
+                    line: i + 2,
+                    column: 3,
+                  })),
+                },
+              ],
+            },
+          ],
+        };
+
+        const result = runAssign(serialList, '--shards 3 --no-file-affinity');
+
+        expect(
+          Object.values(result.shards).filter((t) => t.length > 0),
+        ).toEqual([
+          [
+            'flow.spec.ts::Flow::one',
+            'flow.spec.ts::Flow::two',
+            'flow.spec.ts::Flow::three',
+          ],
+        ]);
+      } finally {
+        fs.rmSync(testDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Tags', () => {
+    const tagged: PlaywrightListOutput = {
+      config: list.config,
+      suites: [
+        {
+          title: 'b.spec.ts',
+          file: 'b.spec.ts',
+          specs: [
+            ['logs in', ['smoke']],
+            ['checks out', ['smoke', 'slow']],
+            ['browses', []],
+          ].map(([title, tags], i) => ({
+            title: title as string,
+            file: 'b.spec.ts',
+            line: i + 1,
+            column: 1,
+            tags: tags as string[],
+          })),
+        },
+      ],
+    };
+
+    test('filters by tag and reports the tags of assigned tests', () => {
+      const result = runAssign(
+        tagged,
+        '--shards 2 --project chromium --grep-tag smoke --exclude-tag @slow',
+      );
+
+      expect(result.totalTests).toBe(1);
+      expect(Object.values(result.shards).flat()).toEqual([
+        'b.spec.ts::logs in',
+      ]);
+      expect(result.tags).toEqual({ 'b.spec.ts::logs in': ['@smoke'] });
+    });
+
+    test('warns when the tag filters select no test', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'assign-test-'));
+      const listPath = path.join(tmpDir, 'test-list.json');
+      try {
+        fs.writeFileSync(listPath, JSON.stringify(tagged));
+
+        execSync('bun run build', { cwd: process.cwd(), stdio: 'pipe' });
+        const { stdout, stderr } = spawnSync(
+          'node',
+          [
+            './bin/run.js',
+            'assign',
+            '--test-list',
+            listPath,
+            '--shards',
+            '2',
+            '--project',
+            'chromium',
+            '--grep-tag',
+            '@nightly',
+          ],
+          { cwd: process.cwd(), encoding: 'utf-8' },
+        );
+
+        expect(JSON.parse(stdout).totalTests).toBe(0);
+        expect(stderr).toContain('Tag filters selected 0 of 3 tests');
+        expect(stderr).not.toContain('No tests found');
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    test('uses tag durations for tests without timing data', () => {
+      const result = runAssign(
+        tagged,
+        '--shards 2 --project chromium --tag-duration @slow=3m --tag-duration @smoke=1m',
+      );
+
+      expect(result.testDurations?.['b.spec.ts::checks out']).toBe(180000);
+      expect(result.testDurations?.['b.spec.ts::logs in']).toBe(60000);
+    });
+  });
+
+  describe('Source estimates', () => {
+    test('estimates tests without timing data from their source', () => {
+      const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'assign-source-'));
+      try {
+        fs.writeFileSync(
+          path.join(testDir, 'nav.spec.ts'),
+          `test('navigates', async ({ page }) => {
+  await page.goto('/');
+  await page.waitForTimeout(60000);
+});
+`,
+        );
+        const sourceList: PlaywrightListOutput = {
+          config: {
+            rootDir: testDir,
+            projects: [{ name: 'chromium', testDir }],
+          },
+          suites: [
+            {
+              title: 'nav.spec.ts',
+              file: 'nav.spec.ts',
+              specs: [
+                { title: 'navigates', file: 'nav.spec.ts', line: 1, column: 1 },
+              ],
+            },
+          ],
+        };
+
+        const estimated = runAssign(sourceList, '--shards 1');
+        const flat = runAssign(sourceList, '--shards 1 --no-source-estimate');
+
+        expect(
+          estimated.testDurations?.['nav.spec.ts::navigates'],
+        ).toBeGreaterThan(60000);
+        expect(flat.testDurations?.['nav.spec.ts::navigates']).toBe(30000);
+      } finally {
+        fs.rmSync(testDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Constraints', () => {
+    test('pins tests to a shard and keeps groups together', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'constraints-'));
+      const constraintsPath = path.join(tmpDir, 'constraints.json');
+      try {
+        fs.writeFileSync(
+          constraintsPath,
+          JSON.stringify({
+            together: [['a.spec.ts::one', 'a.spec.ts::two']],
+            pin: [{ match: ['a.spec.ts::three'], shard: 3 }],
+          }),
+        );
+
+        const result = runAssign(
+          list,
+          `--shards 3 --project chromium --no-file-affinity --constraints "${constraintsPath}"`,
+        );
+
+        expect(result.shards[3]).toEqual(['a.spec.ts::three']);
+        expect(
+          Object.values(result.shards).filter((t) => t.length > 0),
+        ).toContainEqual(['a.spec.ts::one', 'a.spec.ts::two']);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Test order', () => {
+    test('runs recently failed tests first without moving them', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'order-'));
+      const timingPath = path.join(tmpDir, 'timing.json');
+      const timing = (duration: number, history: string[]) => ({
+        file: 'a.spec.ts',
+        duration,
+        runs: history.length,
+        lastRun: '2024-01-01T00:00:00.000Z',
+        history,
+      });
+      try {
+        fs.writeFileSync(
+          timingPath,
+          JSON.stringify({
+            version: 3,
+            updatedAt: '2024-01-01T00:00:00.000Z',
+            tests: {
+              'a.spec.ts::one': timing(1000, ['passed', 'passed']),
+              'a.spec.ts::two': timing(3000, ['passed', 'flaky']),
+              'a.spec.ts::three': timing(2000, ['failed', 'passed']),
+            },
+          }),
+        );
+        const args = `--shards 1 --project chromium --timing-file "${timingPath}"`;
+
+        const assigned = runAssign(list, args);
+        const ordered = runAssign(list, `${args} --order failures-first`);
+
+        expect(ordered.shards[1]).toEqual([
+          'a.spec.ts::three',
+          'a.spec.ts::two',
+          'a.spec.ts::one',
+        ]);
+        expect(ordered.testListFiles[1]?.split('\n')[0]).toBe(
+          'e2e/a.spec.ts › three',
+        );
+        expect([...(ordered.shards[1] ?? [])].sort()).toEqual(
+          [...(assigned.shards[1] ?? [])].sort(),
+        );
+        expect(ordered.expectedDurations).toEqual(assigned.expectedDurations);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Workers', () => {
+    test('orders each shard for its workers and predicts parallel durations', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workers-'));
+      const timingPath = path.join(tmpDir, 'timing.json');
+      const timing = (duration: number) => ({
+        file: 'a.spec.ts',
+        duration,
+        runs: 1,
+        lastRun: '2024-01-01T00:00:00.000Z',
+      });
+      try {
+        fs.writeFileSync(
+          timingPath,
+          JSON.stringify({
+            version: 3,
+            updatedAt: '2024-01-01T00:00:00.000Z',
+            tests: {
+              'a.spec.ts::one': timing(1000),
+              'a.spec.ts::two': timing(1000),
+              'a.spec.ts::three': timing(4000),
+            },
+          }),
+        );
+
+        const result = runAssign(
+          list,
+          `--shards 1 --project chromium --timing-file "${timingPath}" --workers 2 --fully-parallel`,
+        );
+
+        expect(result.shards[1]?.[0]).toBe('a.spec.ts::three');
+        expect(result.expectedDurations[1]).toBe(4000);
+
+        // Without fullyParallel one worker runs the whole file
+        const byFile = runAssign(
+          list,
+          `--shards 1 --project chromium --timing-file "${timingPath}" --workers 2`,
+        );
+        expect(byFile.expectedDurations[1]).toBe(6000);
+
+        // The cost follows the parallel durations
+        const costed = runAssign(
+          list,
+          `--shards 1 --project chromium --timing-file "${timingPath}" --workers 2 --fully-parallel --shard-overhead 1m`,
+        );
+        expect(costed.estimatedCost?.makespan).toBe(4000 + 60_000);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Native strategy', () => {
+    test('splits whole files like Playwright --shard', () => {
+      const result = runAssign(
+        list,
+        '--shards 2 --all-projects --strategy native',
+      );
+
+      expect(result.strategy).toBe('native');
+      expect(result.shards[1]).toEqual([
+        '[chromium] › a.spec.ts::one',
+        '[chromium] › a.spec.ts::two',
+        '[chromium] › a.spec.ts::three',
+      ]);
+      expect(result.shards[2]).toHaveLength(3);
+      expect(result.testListFiles[2]).toContain(
+        '[Mobile Chrome] › mobile/a.spec.ts',
+      );
+    });
+
+    test('splits single tests when fully parallel', () => {
+      const result = runAssign(
+        list,
+        '--shards 2 --project chromium --strategy native --fully-parallel',
+      );
+
+      expect(result.shards[1]).toEqual(['a.spec.ts::one', 'a.spec.ts::two']);
+      expect(result.shards[2]).toEqual(['a.spec.ts::three']);
+    });
+
+    test('rejects options native sharding cannot honour', () => {
+      expect(() =>
+        runAssign(list, '--shards 2 --strategy native --workers 2'),
+      ).toThrow();
+    });
+  });
+
+  describe('Cost-aware assignment', () => {
+    test('leaves shards empty when their overhead outweighs the gain', () => {
+      const result = runAssign(
+        list,
+        '--shards 3 --project chromium --shard-overhead 2m --cost-weight 1 --cost-per-minute 0.01',
+      );
+
+      expect(result.estimatedCost?.usedShards).toBe(1);
+      expect(result.estimatedCost?.shardOverhead).toBe(120_000);
+      expect(result.estimatedCost?.cost).toBe(
+        (result.estimatedCost?.billedMinutes ?? 0) * 0.01,
+      );
+      const counts = Object.values(result.shards).map((t) => t.length);
+      expect(counts.sort()).toEqual([0, 0, 3]);
+    });
+
+    test('reports no cost without a cost model', () => {
+      const result = runAssign(list, '--shards 2 --project chromium');
+
+      expect(result.estimatedCost).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type AssignableTest,
+  getAssignableSetupCosts,
+} from '../src/core/assignable-tests.js';
+import type { TimingData } from '../src/core/types.js';
+
+function assignable(project: string, file: string): AssignableTest {
+  const testId = `${file}::test`;
+  return {
+    key: `[${project}] › ${testId}`,
+    test: {
+      file,
+      title: 'test',
+      titlePath: ['test'],
+      testId,
+      line: 1,
+      column: 1,
+    },
+    project,
+    testDirPrefix: '',
+  };
+}
+
+describe('getAssignableSetupCosts', () => {
+  const timingData: TimingData = {
+    version: 3,
+    updatedAt: '2025-01-01T00:00:00Z',
+    tests: {},
+    files: {
+      'a.spec.ts': {
+        setup: 2000,
+        runs: 2,
+        lastRun: '2025-01-01T00:00:00Z',
+        projects: {
+          chromium: { setup: 1000, runs: 1, lastRun: '2025-01-01T00:00:00Z' },
+          firefox: { setup: 3000, runs: 1, lastRun: '2025-01-01T00:00:00Z' },
+        },
+      },
+    },
+  };
+
+  test('charges each project its own measured setup', () => {
+    const tests = ['chromium', 'firefox', 'webkit'].map((project) =>
+      assignable(project, 'a.spec.ts'),
+    );
+
+    expect(getAssignableSetupCosts(tests, true, timingData)).toEqual({
+      '[chromium] › a.spec.ts': 1000,
+      '[firefox] › a.spec.ts': 3000,
+      '[webkit] › a.spec.ts': 2000,
+    });
+  });
+
+  test('keys plain files for a single project', () => {
+    expect(
+      getAssignableSetupCosts(
+        [assignable('firefox', 'a.spec.ts')],
+        false,
+        timingData,
+      ),
+    ).toEqual({ 'a.spec.ts': 3000 });
+  });
+});
@@ -2,6 +2,7 @@ import { describe, expect, test } from 'bun:test';
 import {
   assignWithCKK,
   calculateLowerBound,
+  parseShardWeights,
 } from '../src/core/ckk-algorithm.js';
 import type { TestWithDuration } from '../src/core/types.js';
 
@@ -140,6 +141,134 @@ describe('assignWithCKK', () => {
   });
 });
 
+describe('assignWithCKK with shard weights', () => {
+  const tests: TestWithDuration[] = [
+    { testId: 'a::test1', file: 'a.spec.ts', duration: 60, estimated: false },
+    { testId: 'b::test1', file: 'b.spec.ts', duration: 60, estimated: false },
+    { testId: 'c::test1', file: 'c.spec.ts', duration: 60, estimated: false },
+  ];
+
+  test('gives faster shards proportionally more work', () => {
+    // Shard 2 runs twice as fast: two tests there take 60, one on shard 1 takes 60
+    const result = assignWithCKK(tests, 2, 1000, 0, [1, 2]);
+
+    expect(result.assignments[0]?.tests).toHaveLength(1);
+    expect(result.assignments[1]?.tests).toHaveLength(2);
+    expect(result.makespan).toBe(60);
+  });
+
+  test('reports expected durations at each shard speed', () => {
+    const result = assignWithCKK(tests, 2, 1000, 0, [1, 4]);
+
+    // All three tests on the fast shard take 45, beating any split
+    expect(result.assignments[1]?.tests).toHaveLength(3);
+    expect(result.assignments[1]?.expectedDuration).toBe(45);
+    expect(result.assignments[0]?.expectedDuration).toBe(0);
+  });
+
+  test('puts the longest test on the fastest shard', () => {
+    const input: TestWithDuration[] = [
+      { testId: 'a::long', file: 'a.spec.ts', duration: 100, estimated: false },
+      { testId: 'b::short', file: 'b.spec.ts', duration: 10, estimated: false },
+    ];
+
+    const result = assignWithCKK(input, 3, 1000, 0, [1, 2, 1]);
+
+    expect(result.assignments[1]?.tests).toEqual(['a::long']);
+    expect(result.makespan).toBe(50);
+  });
+
+  test('matches the unweighted result with equal weights', () => {
+    const weighted = assignWithCKK(tests, 2, 1000, 0, [1, 1]);
+    const plain = assignWithCKK(tests, 2, 1000);
+
+    expect(weighted.makespan).toBe(plain.makespan);
+  });
+});
+
+describe('assignWithCKK with constraints', () => {
+  const tests: TestWithDuration[] = [
+    { testId: 'a::test1', file: 'a.spec.ts', duration: 60, estimated: false },
+    { testId: 'b::test1', file: 'b.spec.ts', duration: 50, estimated: false },
+    { testId: 'c::test1', file: 'c.spec.ts', duration: 40, estimated: false },
+    { testId: 'd::test1', file: 'd.spec.ts', duration: 30, estimated: false },
+  ];
+
+  test('runs pinned tests on their shard', () => {
+    const result = assignWithCKK(
+      tests,
+      2,
+      1000,
+      0,
+      undefined,
+      {},
+      {
+        pins: { 'a::test1': 2, 'b::test1': 2 },
+      },
+    );
+
+    expect(result.assignments[1]?.tests).toEqual(['a::test1', 'b::test1']);
+    expect(result.assignments[0]?.tests.sort()).toEqual([
+      'c::test1',
+      'd::test1',
+    ]);
+  });
+
+  test('keeps apart tests on different shards', () => {
+    // Unconstrained, a+d and b+c balance at 90
+    const result = assignWithCKK(
+      tests,
+      2,
+      1000,
+      0,
+      undefined,
+      {},
+      {
+        apart: [['a::test1', 'd::test1']],
+      },
+    );
+
+    const shardOf = (id: string) =>
+      result.assignments.findIndex((a) => a.tests.includes(id));
+    expect(shardOf('a::test1')).not.toBe(shardOf('d::test1'));
+    expect(result.makespan).toBe(100);
+  });
+
+  test('honours constraints with more shards than tests', () => {
+    const result = assignWithCKK(
+      tests.slice(0, 2),
+      3,
+      1000,
+      0,
+      undefined,
+      {},
+      {
+        pins: { 'a::test1': 3, 'b::test1': 3 },
+      },
+    );
+
+    expect(result.assignments[2]?.tests).toEqual(['a::test1', 'b::test1']);
+  });
+
+  test('places every test when an apart group exceeds the shards', () => {
+    const result = assignWithCKK(
+      tests,
+      2,
+      1000,
+      0,
+      undefined,
+      {},
+      {
+        pins: { 'a::test1': 1 },
+        apart: [['a::test1', 'b::test1', 'c::test1']],
+      },
+    );
+
+    expect(result.assignments.flatMap((a) => a.tests)).toHaveLength(4);
+    expect(result.assignments[0]?.tests).toContain('a::test1');
+  });
+});
+
 describe('calculateLowerBound', () => {
   test('returns 0 for empty input', () => {
     expect(calculateLowerBound([], 2)).toBe(0);
@@ -173,3 +302,50 @@ describe('calculateLowerBound', () => {
     expect(calculateLowerBound(tests, 2)).toBe(75);
   });
 });
+
+describe('calculateLowerBound with shard weights', () => {
+  test('divides total duration by the combined speed', () => {
+    const tests: TestWithDuration[] = [
+      { testId: 'a::test1', file: 'a.spec.ts', duration: 30, estimated: false },
+      { testId: 'b::test1', file: 'b.spec.ts', duration: 30, estimated: false },
+      { testId: 'c::test1', file: 'c.spec.ts', duration: 30, estimated: false },
+    ];
+
+    // Total = 90, combined speed = 3
+    expect(calculateLowerBound(tests, 2, [1, 2])).toBe(30);
+  });
+
+  test('runs the longest test on the fastest shard', () => {
+    const tests: TestWithDuration[] = [
+      {
+        testId: 'a::test1',
+        file: 'a.spec.ts',
+        duration: 100,
+        estimated: false,
+      },
+      { testId: 'b::test1', file: 'b.spec.ts', duration: 10, estimated: false },
+    ];
+
+    expect(calculateLowerBound(tests, 2, [1, 4])).toBe(25);
+  });
+});
+
+describe('parseShardWeights', () => {
+  test('parses one weight per shard', () => {
+    expect(parseShardWeights('1, 1, 2, 2.5', 4)).toEqual([1, 1, 2, 2.5]);
+  });
+
+  test('rejects non-positive or missing weights', () => {
+    expect(() => parseShardWeights('1,0', 2)).toThrow('Invalid shard weights');
+    expect(() => parseShardWeights('1,,2', 3)).toThrow('Invalid shard weights');
+    expect(() => parseShardWeights('fast,1', 2)).toThrow(
+      'Invalid shard weights',
+    );
+  });
+
+  test('rejects a weight count different from the shard count', () => {
+    expect(() => parseShardWeights('1,2', 3)).toThrow(
+      'Got 2 shard weights for 3 shards',
+    );
+  });
+});
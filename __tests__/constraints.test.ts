@@ -0,0 +1,305 @@
+import { describe, expect, test } from 'bun:test';
+import type { AssignableTest } from '../src/core/assignable-tests.js';
+import {
+  applyConstraints,
+  findConstraintProblems,
+  findConstraintViolations,
+  matchesConstraintPattern,
+  parseConstraintRules,
+  resolveConstraintRules,
+  splitTogetherGroups,
+} from '../src/core/constraints.js';
+import { groupSerialTests } from '../src/core/serial-groups.js';
+import type { TestWithDuration } from '../src/core/types.js';
+
+function assignable(file: string, titlePath: string[]): AssignableTest {
+  const testId = [file, ...titlePath].join('::');
+  return {
+    key: testId,
+    test: {
+      file,
+      title: titlePath[titlePath.length - 1] ?? '',
+      titlePath,
+      testId,
+      line: 1,
+      column: 1,
+    },
+    project: 'chromium',
+    testDirPrefix: '',
+  };
+}
+
+function inputs(tests: AssignableTest[], duration = 1000): TestWithDuration[] {
+  return tests.map((t) => ({
+    testId: t.key,
+    file: t.test.file,
+    duration,
+    estimated: false,
+  }));
+}
+
+const tests = [
+  assignable('checkout/cart.spec.ts', ['Cart', 'adds item @account']),
+  assignable('checkout/pay.spec.ts', ['Pay', 'pays @sandbox']),
+  assignable('refund.spec.ts', ['Refund', 'refunds @sandbox']),
+  assignable('admin/users.spec.ts', ['Users', 'lists users']),
+];
+
+describe('parseConstraintRules', () => {
+  test('parses together, apart and pin rules', () => {
+    const rules = parseConstraintRules(
+      JSON.stringify({
+        together: [['checkout/**']],
+        apart: [['@sandbox']],
+        pin: [{ match: ['admin/**'], shard: 2 }],
+      }),
+    );
+
+    expect(rules).toEqual({
+      together: [['checkout/**']],
+      apart: [['@sandbox']],
+      pin: [{ match: ['admin/**'], shard: 2 }],
+    });
+  });
+
+  test('rejects invalid rules', () => {
+    expect(() => parseConstraintRules('not json')).toThrow('not valid JSON');
+    expect(() => parseConstraintRules('[]')).toThrow('must hold an object');
+    expect(() => parseConstraintRules('{"together": ["a"]}')).toThrow(
+      'Invalid "together" constraints',
+    );
+    expect(() =>
+      parseConstraintRules('{"pin": [{"match": ["a"], "shard": 0}]}'),
+    ).toThrow('Invalid "pin" constraints');
+  });
+});
+
+describe('matchesConstraintPattern', () => {
+  test('matches tags in the title path', () => {
+    expect(
+      matchesConstraintPattern(tests[1] as AssignableTest, '@sandbox'),
+    ).toBe(true);
+    expect(
+      matchesConstraintPattern(tests[0] as AssignableTest, '@sandbox'),
+    ).toBe(false);
+  });
+
+  test('matches globs against the file and the test ID', () => {
+    const cart = tests[0] as AssignableTest;
+
+    expect(matchesConstraintPattern(cart, 'checkout/**')).toBe(true);
+    expect(matchesConstraintPattern(cart, '**/cart.spec.ts')).toBe(true);
+    expect(matchesConstraintPattern(cart, '*.spec.ts')).toBe(false);
+    expect(
+      matchesConstraintPattern(cart, 'checkout/cart.spec.ts::Cart::*'),
+    ).toBe(true);
+  });
+});
+
+describe('resolveConstraintRules', () => {
+  test('resolves patterns to test keys and reports unmatched ones', () => {
+    const resolved = resolveConstraintRules(
+      tests,
+      {
+        together: [['checkout/**']],
+        apart: [['@sandbox', 'missing/**']],
+        pin: [{ match: ['admin/**'], shard: 2 }],
+      },
+      2,
+    );
+
+    expect(resolved.together).toEqual([
+      [
+        'checkout/cart.spec.ts::Cart::adds item @account',
+        'checkout/pay.spec.ts::Pay::pays @sandbox',
+      ],
+    ]);
+    expect(resolved.apart).toEqual([
+      [
+        'checkout/pay.spec.ts::Pay::pays @sandbox',
+        'refund.spec.ts::Refund::refunds @sandbox',
+      ],
+    ]);
+    expect(resolved.pins).toEqual({
+      'admin/users.spec.ts::Users::lists users': 2,
+    });
+    expect(resolved.unmatched).toEqual(['missing/**']);
+  });
+
+  test('rejects pins to missing shards and conflicting pins', () => {
+    expect(() =>
+      resolveConstraintRules(
+        tests,
+        { pin: [{ match: ['admin/**'], shard: 3 }] },
+        2,
+      ),
+    ).toThrow('Cannot pin admin/** to shard 3 of 2');
+    expect(() =>
+      resolveConstraintRules(
+        tests,
+        {
+          pin: [
+            { match: ['admin/**'], shard: 1 },
+            { match: ['**/users.spec.ts'], shard: 2 },
+          ],
+        },
+        2,
+      ),
+    ).toThrow('pinned to shards 1 and 2');
+  });
+});
+
+describe('applyConstraints', () => {
+  test('groups together tests and keys pins and apart groups by item', () => {
+    const resolved = resolveConstraintRules(
+      tests,
+      {
+        together: [['checkout/**']],
+        apart: [['@sandbox']],
+        pin: [{ match: ['**/cart.spec.ts'], shard: 2 }],
+      },
+      2,
+    );
+
+    const applied = applyConstraints(inputs(tests), resolved);
+
+    expect(applied.tests.map((t) => t.serialGroup)).toEqual([
+      'together:1',
+      'together:1',
+      undefined,
+      undefined,
+    ]);
+    expect(applied.constraints).toEqual({
+      pins: { 'together:1': 2 },
+      apart: [['together:1', 'refund.spec.ts::Refund::refunds @sandbox']],
+    });
+  });
+
+  test('merges serial groups that share a test with a together group', () => {
+    const serial = inputs(tests).map((t, i) =>
+      i >= 2 ? { ...t, serialGroup: 'serial' } : t,
+    );
+    const resolved = resolveConstraintRules(
+      tests,
+      { together: [['**/pay.spec.ts', 'refund.spec.ts']] },
+      2,
+    );
+
+    const applied = applyConstraints(serial, resolved);
+
+    expect(applied.tests.map((t) => t.serialGroup)).toEqual([
+      undefined,
+      'together:1',
+      'together:1',
+      'together:1',
+    ]);
+  });
+
+  test('rejects tests that run together but are pinned apart', () => {
+    const resolved = resolveConstraintRules(
+      tests,
+      {
+        together: [['checkout/**']],
+        pin: [
+          { match: ['**/cart.spec.ts'], shard: 1 },
+          { match: ['**/pay.spec.ts'], shard: 2 },
+        ],
+      },
+      2,
+    );
+
+    expect(() => applyConstraints(inputs(tests), resolved)).toThrow(
+      'pinned to shards 1 and 2',
+    );
+  });
+});
+
+describe('splitTogetherGroups', () => {
+  test('splits together groups into their tests and serial groups', () => {
+    const serial = inputs(tests).map((t, i) =>
+      i >= 2 ? { ...t, serialGroup: 'serial' } : t,
+    );
+    const resolved = resolveConstraintRules(
+      tests,
+      { together: [['**/pay.spec.ts', 'refund.spec.ts']] },
+      2,
+    );
+    const grouped = groupSerialTests(applyConstraints(serial, resolved).tests);
+
+    const split = splitTogetherGroups(
+      [
+        { shardIndex: 1, tests: ['together:1'], expectedDuration: 3000 },
+        {
+          shardIndex: 2,
+          tests: ['checkout/cart.spec.ts::Cart::adds item @account'],
+          expectedDuration: 1000,
+        },
+      ],
+      grouped.groups,
+      serial,
+    );
+
+    // The together group shares a shard, but only the serial group is
+    // still one item
+    expect(split.assignments[0]).toEqual({
+      shardIndex: 1,
+      tests: ['checkout/pay.spec.ts::Pay::pays @sandbox', 'serial'],
+      expectedDuration: 3000,
+    });
+    expect(split.tests.map((t) => t.testId)).toEqual([
+      'checkout/cart.spec.ts::Cart::adds item @account',
+      'checkout/pay.spec.ts::Pay::pays @sandbox',
+      'serial',
+    ]);
+    expect(split.groups.get('serial')).toHaveLength(2);
+  });
+});
+
+describe('findConstraintProblems', () => {
+  test('reports apart groups that cannot be met', () => {
+    const resolved = resolveConstraintRules(
+      tests,
+      { together: [['checkout/**']], apart: [['**/*.spec.ts']] },
+      2,
+    );
+    const { tests: applied } = applyConstraints(inputs(tests), resolved);
+
+    expect(findConstraintProblems(applied, resolved, 2)).toEqual([
+      'Apart group 1 has tests that must run together, so they share a shard',
+      'Apart group 1 needs 3 shards but only 2 exist',
+    ]);
+  });
+
+  test('reports pinned tests that exceed the balanced makespan', () => {
+    const resolved = resolveConstraintRules(
+      tests,
+      { pin: [{ match: ['checkout/**', 'refund.spec.ts'], shard: 1 }] },
+      2,
+    );
+    const { tests: applied } = applyConstraints(
+      inputs(tests, 60_000),
+      resolved,
+    );
+
+    expect(findConstraintProblems(applied, resolved, 2)).toEqual([
+      'Tests pinned to shard 1 take 3m 0s, above the balanced 2m 0s',
+    ]);
+  });
+});
+
+describe('findConstraintViolations', () => {
+  test('reports broken pins and apart groups', () => {
+    const violations = findConstraintViolations(
+      [
+        { shardIndex: 1, tests: ['a', 'b', 'c'], expectedDuration: 3 },
+        { shardIndex: 2, tests: ['d'], expectedDuration: 1 },
+      ],
+      { pins: { a: 2, d: 2 }, apart: [['a', 'b', 'd']] },
+    );
+
+    expect(violations).toEqual([
+      'a is pinned to shard 2 but runs on 1',
+      'Apart group 1 shares shard 1',
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import * as net from 'node:net';
+import {
+  type Coordinator,
+  runWorker,
+  startCoordinator,
+} from '../src/core/coordinator.js';
+import { type WorkItem, WorkQueue } from '../src/core/work-queue.js';
+
+function items(durations: number[]): WorkItem[] {
+  return durations.map((duration, i) => ({
+    testId: `t${i}`,
+    file: `f${i % 3}.spec.ts`,
+    duration,
+    line: `f${i % 3}.spec.ts › t${i}`,
+  }));
+}
+
+describe('startCoordinator', () => {
+  let coordinator: Coordinator | undefined;
+
+  afterEach(async () => {
+    await coordinator?.close();
+    coordinator = undefined;
+  });
+
+  test('workers pull batches until every test ran once', async () => {
+    const queue = new WorkQueue(items([5, 40, 10, 25, 5, 15, 30, 20]), {
+      batchDuration: 30,
+    });
+    coordinator = await startCoordinator(queue, { port: 0 });
+    const url = coordinator.url;
+
+    const ran: string[] = [];
+    const run = (worker: string, delay: number) =>
+      runWorker(
+        url,
+        async (batch) => {
+          ran.push(...batch.lines);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return true;
+        },
+        { worker, pollInterval: 10 },
+      );
+
+    // The slow worker runs fewer batches; the fast one takes the rest
+    const [slow, fast] = await Promise.all([run('slow', 60), run('fast', 5)]);
+    const status = await coordinator.finished;
+
+    expect(ran.sort()).toEqual(
+      items([5, 40, 10, 25, 5, 15, 30, 20])
+        .map((i) => i.line)
+        .sort(),
+    );
+    expect(slow.tests + fast.tests).toBe(8);
+    expect(fast.batches).toBeGreaterThan(slow.batches);
+    expect(status.completed).toBe(8);
+    expect(status.workers).toEqual({ slow: slow.tests, fast: fast.tests });
+  });
+
+  test('idle workers wait for batches held by others', async () => {
+    const queue = new WorkQueue(items([10]));
+    coordinator = await startCoordinator(queue, { port: 0 });
+    const url = coordinator.url;
+
+    let busy = 0;
+    const run = (worker: string) =>
+      runWorker(
+        url,
+        async () => {
+          busy++;
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          return false;
+        },
+        { worker, pollInterval: 10 },
+      );
+
+    const [first, second] = await Promise.all([run('w1'), run('w2')]);
+
+    expect(busy).toBe(1);
+    expect(first.failedBatches + second.failedBatches).toBe(1);
+    expect((await coordinator.finished).failedBatches).toBe(1);
+  });
+
+  test('finishes immediately when there is nothing to run', async () => {
+    coordinator = await startCoordinator(new WorkQueue([]), { port: 0 });
+
+    expect((await coordinator.finished).completed).toBe(0);
+  });
+
+  test('reports status and rejects unknown batches', async () => {
+    coordinator = await startCoordinator(new WorkQueue(items([10, 20])), {
+      port: 0,
+    });
+
+    const status = await fetch(`${coordinator.url}/status`);
+    expect(((await status.json()) as { pending: number }).pending).toBe(2);
+
+    const response = await fetch(`${coordinator.url}/batches/99/complete`, {
+      method: 'POST',
+      body: '{}',
+    });
+    expect(response.status).toBe(404);
+
+    const invalid = await fetch(`${coordinator.url}/batches`, {
+      method: 'POST',
+      body: '{}',
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  test('workers retry until a late coordinator starts', async () => {
+    // Reserve a free port, then start the worker before the coordinator
+    const probe = net.createServer();
+    await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+    const { port } = probe.address() as net.AddressInfo;
+    await new Promise((resolve) => probe.close(resolve));
+
+    const ran: string[] = [];
+    const worker = runWorker(
+      `http://127.0.0.1:${port}`,
+      async (batch) => {
+        ran.push(...batch.lines);
+        return true;
+      },
+      { worker: 'early', pollInterval: 10, grace: 5000 },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    coordinator = await startCoordinator(new WorkQueue(items([10, 20])), {
+      port,
+    });
+
+    const summary = await worker;
+    expect(summary.tests).toBe(2);
+    expect(summary.connected).toBe(true);
+    expect(summary.unreachable).toBe(false);
+    expect(ran).toHaveLength(2);
+  });
+
+  test('workers that never reach the coordinator report it unreachable', async () => {
+    const closed = await startCoordinator(new WorkQueue([]), { port: 0 });
+    await closed.finished;
+    await closed.close();
+
+    const summary = await runWorker(closed.url, async () => true, {
+      worker: 'late',
+      pollInterval: 10,
+      grace: 100,
+    });
+
+    expect(summary).toEqual({
+      batches: 0,
+      tests: 0,
+      failedBatches: 0,
+      connected: false,
+      unreachable: true,
+    });
+  });
+
+  test('workers report a coordinator lost mid-run unreachable', async () => {
+    const lost = await startCoordinator(new WorkQueue(items([10, 20])), {
+      port: 0,
+    });
+
+    // The coordinator crashes while the first batch runs
+    const summary = await runWorker(
+      lost.url,
+      async () => {
+        await lost.close();
+        return true;
+      },
+      { worker: 'w1', pollInterval: 10, grace: 5000 },
+    );
+
+    expect(summary.batches).toBe(1);
+    expect(summary.connected).toBe(true);
+    expect(summary.unreachable).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  assignWithCost,
+  estimateAssignmentCost,
+  parseCostModel,
+} from '../src/core/cost.js';
+import type { TestWithDuration } from '../src/core/types.js';
+
+const MINUTE = 60_000;
+
+function tests(durations: number[]): TestWithDuration[] {
+  return durations.map((duration, i) => ({
+    testId: `t${i}.spec.ts::test`,
+    file: `t${i}.spec.ts`,
+    duration,
+    estimated: false,
+  }));
+}
+
+describe('estimateAssignmentCost', () => {
+  test('bills each used shard in whole minutes including overhead', () => {
+    const cost = estimateAssignmentCost([5 * MINUTE, 4.5 * MINUTE, 0], {
+      shardOverhead: 1.5 * MINUTE,
+      costPerMinute: 0.008,
+    });
+
+    expect(cost).toEqual({
+      usedShards: 2,
+      shardOverhead: 1.5 * MINUTE,
+      makespan: 6.5 * MINUTE,
+      billedMinutes: 13,
+      cost: 0.1,
+    });
+  });
+
+  test('omits the cost without a price', () => {
+    expect(
+      estimateAssignmentCost([MINUTE], { shardOverhead: 0 }).cost,
+    ).toBeUndefined();
+  });
+});
+
+describe('assignWithCost', () => {
+  test('uses every shard that shortens the makespan by default', () => {
+    const result = assignWithCost(tests(Array(8).fill(5 * MINUTE)), 4, {
+      shardOverhead: 2 * MINUTE,
+    });
+
+    expect(result.cost.usedShards).toBe(4);
+    expect(result.cost.makespan).toBe(12 * MINUTE);
+  });
+
+  test('leaves shards empty when they would not shorten the makespan', () => {
+    // The 10 minute test bounds the makespan at two shards already
+    const result = assignWithCost(
+      tests([10 * MINUTE, 3 * MINUTE, 3 * MINUTE]),
+      3,
+      { shardOverhead: MINUTE },
+    );
+
+    expect(result.cost.usedShards).toBe(2);
+    expect(result.assignments).toHaveLength(3);
+    expect(result.assignments[2]).toEqual({
+      shardIndex: 3,
+      tests: [],
+      expectedDuration: 0,
+    });
+  });
+
+  test('trades makespan for billed minutes by weight', () => {
+    const input = tests(Array(4).fill(3 * MINUTE));
+    const model = { shardOverhead: 2 * MINUTE };
+
+    const fastest = assignWithCost(input, 4, { ...model, costWeight: 0 });
+    const cheapest = assignWithCost(input, 4, { ...model, costWeight: 1 });
+
+    expect(fastest.cost.usedShards).toBe(4);
+    expect(cheapest.cost.usedShards).toBe(1);
+    expect(cheapest.cost.billedMinutes).toBeLessThan(
+      fastest.cost.billedMinutes,
+    );
+    expect(cheapest.cost.makespan).toBeGreaterThan(fastest.cost.makespan);
+  });
+
+  test('leaves the slowest shards empty with shard weights', () => {
+    const result = assignWithCost(
+      tests([4 * MINUTE, 4 * MINUTE]),
+      3,
+      { shardOverhead: 5 * MINUTE },
+      undefined,
+      0,
+      [1, 4, 1],
+    );
+
+    // Both tests fit on the fast shard before a second overhead pays off
+    expect(result.cost.usedShards).toBe(1);
+    expect(result.assignments[1]?.tests).toHaveLength(2);
+    expect(result.assignments[1]?.expectedDuration).toBe(2 * MINUTE);
+    expect(result.assignments.map((a) => a.shardIndex)).toEqual([1, 2, 3]);
+  });
+
+  test('keeps a pinned shard in use', () => {
+    const result = assignWithCost(
+      tests([MINUTE, MINUTE]),
+      3,
+      { shardOverhead: 5 * MINUTE },
+      undefined,
+      0,
+      undefined,
+      undefined,
+      { pins: { 't0.spec.ts::test': 3 } },
+    );
+
+    expect(result.assignments[2]?.tests).toEqual(['t0.spec.ts::test']);
+    expect(result.cost.usedShards).toBe(2);
+  });
+});
+
+describe('parseCostModel', () => {
+  test('returns undefined without cost flags', () => {
+    expect(parseCostModel({})).toBeUndefined();
+  });
+
+  test('parses overhead, price and weight', () => {
+    expect(
+      parseCostModel({
+        shardOverhead: '90s',
+        costPerMinute: '0.008',
+        costWeight: '0.5',
+      }),
+    ).toEqual({ shardOverhead: 90_000, costPerMinute: 0.008, costWeight: 0.5 });
+  });
+
+  test('rejects invalid values', () => {
+    expect(() => parseCostModel({ costWeight: '2' })).toThrow(
+      'Invalid cost weight',
+    );
+    expect(() => parseCostModel({ costPerMinute: '-1' })).toThrow(
+      'Invalid cost per minute',
+    );
+    expect(() => parseCostModel({ shardOverhead: 'soon' })).toThrow(
+      'Invalid duration',
+    );
+  });
+});
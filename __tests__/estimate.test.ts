@@ -0,0 +1,148 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  getDurationAtPercentile,
+  getTestDurations,
+  parseDurationPercentile,
+} from '../src/core/estimate.js';
+import type { DiscoveredTest, TimingData } from '../src/core/types.js';
+
+function makeTest(testId: string, project?: string): DiscoveredTest {
+  const [file = '', ...titlePath] = testId.split('::');
+  return {
+    file,
+    title: titlePath[titlePath.length - 1] ?? '',
+    titlePath,
+    testId,
+    line: 1,
+    column: 1,
+    project,
+  };
+}
+
+const timingData: TimingData = {
+  version: 3,
+  updatedAt: '2025-01-01T00:00:00Z',
+  tests: {
+    'a.spec.ts::steady': {
+      file: 'a.spec.ts',
+      duration: 10000,
+      runs: 10,
+      lastRun: '2025-01-01T00:00:00Z',
+      variance: 0,
+    },
+    'a.spec.ts::flaky': {
+      file: 'a.spec.ts',
+      duration: 30000,
+      runs: 10,
+      lastRun: '2025-01-01T00:00:00Z',
+      // stdDev = 20s
+      variance: 400000000,
+      projects: {
+        webkit: {
+          duration: 50000,
+          runs: 3,
+          lastRun: '2025-01-01T00:00:00Z',
+          variance: 0,
+        },
+      },
+    },
+  },
+};
+
+describe('getDurationAtPercentile', () => {
+  test('p50 is the mean', () => {
+    expect(
+      getDurationAtPercentile({ duration: 30000, variance: 4e8 }, 50),
+    ).toBe(30000);
+  });
+
+  test('p90 adds 1.2816 standard deviations', () => {
+    expect(
+      getDurationAtPercentile({ duration: 30000, variance: 4e8 }, 90),
+    ).toBe(55631);
+  });
+
+  test('returns the mean when there is no variance', () => {
+    expect(getDurationAtPercentile({ duration: 30000 }, 99)).toBe(30000);
+  });
+
+  test('never returns a negative duration', () => {
+    expect(getDurationAtPercentile({ duration: 1000, variance: 4e8 }, 1)).toBe(
+      0,
+    );
+  });
+});
+
+describe('parseDurationPercentile', () => {
+  test('accepts p-prefixed and bare values', () => {
+    expect(parseDurationPercentile('p90')).toBe(90);
+    expect(parseDurationPercentile('P99.5')).toBe(99.5);
+    expect(parseDurationPercentile('75')).toBe(75);
+  });
+
+  test('rejects out-of-range and malformed values', () => {
+    expect(() => parseDurationPercentile('p100')).toThrow();
+    expect(() => parseDurationPercentile('p0')).toThrow();
+    expect(() => parseDurationPercentile('high')).toThrow();
+  });
+});
+
+describe('getTestDurations', () => {
+  test('uses the mean by default', () => {
+    const result = getTestDurations(
+      [makeTest('a.spec.ts::steady'), makeTest('a.spec.ts::flaky')],
+      timingData,
+    );
+    expect(result.map((r) => r.duration)).toEqual([10000, 30000]);
+  });
+
+  test('schedules unstable tests on a high percentile', () => {
+    const result = getTestDurations(
+      [makeTest('a.spec.ts::steady'), makeTest('a.spec.ts::flaky')],
+      timingData,
+      { percentile: 90 },
+    );
+    expect(result.map((r) => r.duration)).toEqual([10000, 55631]);
+  });
+
+  test('looks up the duration for the test project', () => {
+    const result = getTestDurations(
+      [
+        makeTest('a.spec.ts::flaky', 'webkit'),
+        makeTest('a.spec.ts::flaky', 'chromium'),
+      ],
+      timingData,
+    );
+    expect(result.map((r) => r.duration)).toEqual([50000, 30000]);
+    expect(result.every((r) => !r.estimated)).toBe(true);
+  });
+
+  test('estimates tests without history', () => {
+    const [result] = getTestDurations([makeTest('b.spec.ts::new')], timingData);
+    expect(result?.estimated).toBe(true);
+    expect(result?.duration).toBe(20000);
+  });
+
+  test('uses the longest tag duration for tests without history', () => {
+    const result = getTestDurations(
+      [
+        makeTest('b.spec.ts::new @slow @smoke'),
+        makeTest('b.spec.ts::other @smoke'),
+        { ...makeTest('a.spec.ts::steady'), tags: ['@slow'] },
+      ],
+      timingData,
+      { tagDurations: { '@slow': 120000, '@smoke': 5000 } },
+    );
+    expect(result.map((r) => r.duration)).toEqual([120000, 5000, 10000]);
+  });
+
+  test('prefers source estimates over the file average', () => {
+    const result = getTestDurations(
+      [makeTest('a.spec.ts::new'), makeTest('a.spec.ts::other')],
+      timingData,
+      { sourceEstimates: { 'a.spec.ts::new': 7000 } },
+    );
+    expect(result.map((r) => r.duration)).toEqual([7000, 20000]);
+    expect(result.every((r) => r.estimated)).toBe(true);
+  });
+});
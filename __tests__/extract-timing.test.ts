@@ -328,6 +328,224 @@ describe('Extract Timing Command', () => {
       expect(testIds).toContain('a.spec.ts::A::test 2');
       expect(testIds).toContain('b.spec.ts::B::test 3');
       expect(testIds).toContain('b.spec.ts::B::test 4');
+      expect(result.outcomes?.['a.spec.ts::A::test 1']).toBe('passed');
+      expect(result.outcomes?.['b.spec.ts::B::test 4']).toBe('skipped');
+    });
+  });
+
+  describe('Multi-project reports', () => {
+    test('keeps the results of the given project only', () => {
+      const report: PlaywrightReport = {
+        config: {
+          rootDir: '/project',
+          projects: [
+            { name: 'chromium', testDir: '/project/tests' },
+            { name: 'firefox', testDir: '/project/tests' },
+          ],
+        },
+        suites: [
+          {
+            title: 'a.spec.ts',
+            file: '/project/tests/a.spec.ts',
+            specs: [
+              {
+                title: 'logs in',
+                tests: [
+                  {
+                    projectName: 'chromium',
+                    results: [{ duration: 1000, status: 'passed' }],
+                  },
+                  {
+                    projectName: 'firefox',
+                    results: [{ duration: 3000, status: 'failed' }],
+                  },
+                ],
+              },
+              {
+                title: 'firefox only',
+                tests: [
+                  {
+                    projectName: 'firefox',
+                    results: [{ duration: 500, status: 'passed' }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const chromium = runExtractTiming(report, 'chromium');
+      expect(chromium.project).toBe('chromium');
+      expect(chromium.tests).toEqual({ 'a.spec.ts::logs in': 1000 });
+      expect(chromium.outcomes?.['a.spec.ts::logs in']).toBe('passed');
+
+      const firefox = runExtractTiming(report, 'firefox');
+      expect(firefox.tests).toEqual({
+        'a.spec.ts::logs in': 3000,
+        'a.spec.ts::firefox only': 500,
+      });
+      expect(firefox.outcomes?.['a.spec.ts::logs in']).toBe('failed');
+    });
+    test('keeps the results of the project the paths fall back to', () => {
+      const report: PlaywrightReport = {
+        config: {
+          rootDir: '/project',
+          projects: [{ name: 'Desktop Chrome', testDir: '/project/tests' }],
+        },
+        suites: [
+          {
+            title: 'a.spec.ts',
+            file: '/project/tests/a.spec.ts',
+            specs: [
+              {
+                title: 'logs in',
+                tests: [
+                  {
+                    projectName: 'Desktop Chrome',
+                    results: [{ duration: 1000, status: 'passed' }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = runExtractTiming(report, 'chromium');
+      expect(result.tests).toEqual({ 'a.spec.ts::logs in': 1000 });
+    });
+
+    test('fails when no result belongs to the project', () => {
+      const report: PlaywrightReport = {
+        config: {
+          rootDir: '/project',
+          projects: [{ name: 'chromium', testDir: '/project/tests' }],
+        },
+        suites: [
+          {
+            title: 'a.spec.ts',
+            file: '/project/tests/a.spec.ts',
+            specs: [
+              {
+                title: 'logs in',
+                tests: [
+                  {
+                    projectName: 'Desktop Chrome',
+                    results: [{ duration: 1000, status: 'passed' }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(() => runExtractTiming(report, 'chromium')).toThrow(
+        'Projects in the report: Desktop Chrome',
+      );
+    });
+  });
+
+  describe('Retry timing', () => {
+    test('records first attempt, retries and total separately', () => {
+      const report: PlaywrightReport = {
+        config: {
+          rootDir: '/project',
+          projects: [{ name: 'default', testDir: '/project/tests' }],
+        },
+        suites: [
+          {
+            title: 'a.spec.ts',
+            file: '/project/tests/a.spec.ts',
+            specs: [
+              {
+                title: 'flaky',
+                tests: [
+                  {
+                    results: [
+                      { duration: 1000, status: 'failed' },
+                      { duration: 60000, status: 'failed' },
+                      { duration: 1200, status: 'passed' },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = runExtractTiming(report);
+
+      expect(result.tests['a.spec.ts::flaky']).toBe(62200);
+      expect(result.attempts?.['a.spec.ts::flaky']).toEqual({
+        firstAttempt: 1000,
+        retries: 2,
+        total: 62200,
+      });
+      expect(result.outcomes?.['a.spec.ts::flaky']).toBe('flaky');
+    });
+  });
+
+  describe('Setup timing', () => {
+    test('records beforeAll and afterAll time per file', () => {
+      const report: PlaywrightReport = {
+        config: {
+          rootDir: '/project',
+          projects: [{ name: 'default', testDir: '/project/tests' }],
+        },
+        suites: [
+          {
+            title: 'a.spec.ts',
+            file: '/project/tests/a.spec.ts',
+            specs: [
+              {
+                title: 'first',
+                tests: [
+                  {
+                    results: [
+                      {
+                        duration: 3000,
+                        status: 'passed',
+                        workerIndex: 0,
+                        steps: [
+                          {
+                            title: 'Before Hooks',
+                            duration: 2100,
+                            steps: [
+                              { title: 'beforeAll hook', duration: 2000 },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                title: 'last',
+                tests: [
+                  {
+                    results: [
+                      {
+                        duration: 1500,
+                        status: 'passed',
+                        workerIndex: 0,
+                        steps: [{ title: 'afterAll hook', duration: 500 }],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = runExtractTiming(report);
+
+      expect(result.setup).toEqual({ 'a.spec.ts': 2500 });
     });
   });
 });
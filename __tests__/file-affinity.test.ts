@@ -13,7 +13,7 @@ function makeTimingData(
   for (const [id, { file, duration }] of Object.entries(tests)) {
     entries[id] = { file, duration, runs: 1, lastRun: '2025-01-01T00:00:00Z' };
   }
-  return { version: 2, updatedAt: '2025-01-01T00:00:00Z', tests: entries };
+  return { version: 3, updatedAt: '2025-01-01T00:00:00Z', tests: entries };
 }
 
 describe('calculateFileAffinityPenalty', () => {
@@ -208,6 +208,42 @@ describe('CKK with file affinity', () => {
   });
 });
 
+describe('CKK with measured setup costs', () => {
+  const tests: TestWithDuration[] = [
+    ...[1, 2, 3].map((i) => ({
+      testId: `a::t${i}`,
+      file: 'a.spec.ts',
+      duration: 10000,
+      estimated: false,
+    })),
+    ...[1, 2, 3, 4, 5, 6].map((i) => ({
+      testId: `b::t${i}`,
+      file: 'b.spec.ts',
+      duration: 10000,
+      estimated: false,
+    })),
+  ];
+
+  test('keeps a file with costly setup on one shard', () => {
+    // Each shard running a.spec.ts pays its 60s beforeAll again
+    const result = assignWithCKK(tests, 2, 1000, 0, undefined, {
+      'a.spec.ts': 60000,
+    });
+
+    const shardsWithA = result.assignments.filter((a) =>
+      a.tests.some((id) => id.startsWith('a::')),
+    );
+    expect(shardsWithA).toHaveLength(1);
+    expect(shardsWithA[0]?.tests).toHaveLength(3);
+  });
+
+  test('splits files freely without measured setup or penalty', () => {
+    const result = assignWithCKK(tests, 2, 1000, 0);
+
+    expect(result.makespan).toBe(50000);
+  });
+});
+
 describe('CKK dedup with file affinity', () => {
   test('explores shards with same load but different file sets', () => {
     // Setup: two shards with equal load but different files
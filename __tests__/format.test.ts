@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'bun:test';
+import { formatDuration, parseDuration } from '../src/core/format.js';
+
+describe('formatDuration', () => {
+  test('formats minutes and seconds', () => {
+    expect(formatDuration(95_000)).toBe('1m 35s');
+    expect(formatDuration(4000)).toBe('4s');
+  });
+});
+
+describe('parseDuration', () => {
+  test('parses unit suffixes', () => {
+    expect(parseDuration('10m')).toBe(600_000);
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('1h 30m')).toBe(5_400_000);
+    expect(parseDuration('1.5m')).toBe(90_000);
+    expect(parseDuration('250ms')).toBe(250);
+  });
+
+  test('treats plain numbers as milliseconds', () => {
+    expect(parseDuration('60000')).toBe(60_000);
+  });
+
+  test('rejects invalid durations', () => {
+    for (const input of ['', 'ten minutes', '10x', '0m', '-5m']) {
+      expect(() => parseDuration(input)).toThrow('Invalid duration');
+    }
+  });
+});
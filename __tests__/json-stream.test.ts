@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { parseJsonFile, parseJsonText } from '../src/core/json-stream.js';
+
+/**
+ * Parse text, collecting the streamed elements
+ */
+function collect(text: string, streamKeys = ['items']) {
+  const elements: Array<{ key: string; value: unknown; seen: string[] }> = [];
+  const root = parseJsonText(text, {
+    streamKeys,
+    onElement: (key, value, partial) =>
+      elements.push({ key, value, seen: Object.keys(partial) }),
+  });
+  return { root, elements };
+}
+
+describe('parseJsonText', () => {
+  test('parses values like JSON.parse', () => {
+    const value = {
+      string: 'a "quoted" \\ line\nwith\ttabs and é ✓',
+      numbers: [0, -1, 1.5, 2e3, -0.25e-2],
+      literals: [true, false, null],
+      nested: { empty: {}, list: [[], [{}]] },
+    };
+
+    expect(collect(JSON.stringify(value), []).root).toEqual(value);
+  });
+
+  test('streams elements of the named arrays without keeping them', () => {
+    const { root, elements } = collect(
+      JSON.stringify({ config: { a: 1 }, items: [{ id: 1 }, [2], 'three'] }),
+    );
+
+    expect(root).toEqual({ config: { a: 1 } });
+    expect(elements).toEqual([
+      { key: 'items', value: { id: 1 }, seen: ['config'] },
+      { key: 'items', value: [2], seen: ['config'] },
+      { key: 'items', value: 'three', seen: ['config'] },
+    ]);
+  });
+
+  test('only streams top-level arrays', () => {
+    const { root, elements } = collect(
+      JSON.stringify({ nested: { items: [1, 2] } }),
+    );
+
+    expect(root).toEqual({ nested: { items: [1, 2] } });
+    expect(elements).toEqual([]);
+  });
+
+  test('decodes unicode escapes', () => {
+    expect(collect('{"a": "\\u00e9\\ud83d\\ude00"}', []).root).toEqual({
+      a: 'é😀',
+    });
+  });
+
+  test('skips lines before the JSON and output after it', () => {
+    const { root } = collect(
+      '﻿Warning: something\n[WebServer] ready\n{"a": 1}\nDone in 2s\n',
+      [],
+    );
+
+    expect(root).toEqual({ a: 1 });
+  });
+
+  test('reports the line and column of invalid JSON', () => {
+    expect(() => collect('{\n  "a": 1,\n  "b": tru\n}', [])).toThrow(
+      '[Orchestrator] Invalid JSON in JSON input at line 3, column 11: Invalid literal tru',
+    );
+    expect(() => collect('{"a": 1 "b": 2}', [])).toThrow(
+      'at line 1, column 9: Expected ","',
+    );
+    expect(() => collect('{"a": [1, 2}', [])).toThrow(
+      'at line 1, column 12: Unexpected "}"',
+    );
+    expect(() => collect('{"a": 01}', [])).toThrow('Invalid number 01');
+  });
+
+  test('mentions skipped output in errors', () => {
+    expect(() => collect('npm WARN config\n{"a": }', [])).toThrow(
+      'at line 2, column 7: Unexpected "}" (the JSON starts at line 2, after 1 line of other output)',
+    );
+  });
+
+  test('reports truncated input', () => {
+    expect(() => collect('{"items": [{"a": 1}', [])).toThrow(
+      'at line 1, column 20: Unexpected end of input',
+    );
+  });
+
+  test('reports output without a JSON object', () => {
+    expect(() => collect('Error: No tests found\n', [])).toThrow(
+      '[Orchestrator] No JSON object found in JSON input. Output starts with: "Error: No tests found"',
+    );
+    expect(() => collect('', [])).toThrow('No JSON object found');
+  });
+});
+
+describe('parseJsonFile', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-stream-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('streams files larger than one chunk', () => {
+    const filePath = path.join(tmpDir, 'report.json');
+    // Multi-byte characters land on chunk boundaries
+    const title = '✓ é'.repeat(50);
+    const items = Array.from({ length: 30_000 }, (_, id) => ({ id, title }));
+    fs.writeFileSync(filePath, JSON.stringify({ config: {}, items }));
+
+    let count = 0;
+    let intact = true;
+    const root = parseJsonFile(filePath, {
+      streamKeys: ['items'],
+      onElement: (_key, value) => {
+        const item = value as { id: number; title: string };
+        intact &&= item.id === count && item.title === title;
+        count++;
+      },
+    });
+
+    expect(root).toEqual({ config: {} });
+    expect(count).toBe(items.length);
+    expect(intact).toBe(true);
+  });
+
+  test('names the file in errors', () => {
+    const filePath = path.join(tmpDir, 'report.json');
+    fs.writeFileSync(filePath, '{"a": ');
+
+    expect(() =>
+      parseJsonFile(filePath, { streamKeys: [], onElement: () => {} }),
+    ).toThrow(`Invalid JSON in ${filePath} at line 1`);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { execSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { TimingData } from '../src/core/types.js';
+
+/**
+ * Merge Timing Command Tests
+ *
+ * Runs the built CLI against timing data and shard artifacts on disk.
+ */
+
+describe('Merge Timing Command', () => {
+  const admin = 'a.spec.ts::Login::should login as admin';
+  const user = 'a.spec.ts::Login::should login as user';
+
+  function runMerge(extraArgs: (dir: string) => string): {
+    summary: { renames?: Array<{ from: string; to: string }> };
+    merged: TimingData;
+  } {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-timing-'));
+    const existingPath = path.join(tmpDir, 'timing.json');
+    const artifactPath = path.join(tmpDir, 'shard-1.json');
+    const outputPath = path.join(tmpDir, 'merged.json');
+    const lastRun = new Date().toISOString();
+
+    try {
+      fs.writeFileSync(
+        existingPath,
+        JSON.stringify({
+          version: 3,
+          updatedAt: lastRun,
+          tests: {
+            [admin]: { file: 'a.spec.ts', duration: 9000, runs: 5, lastRun },
+          },
+        }),
+      );
+      // Only the new test ran, e.g. in a partial or selected run
+      fs.writeFileSync(
+        artifactPath,
+        JSON.stringify({
+          shard: 1,
+          project: 'chromium',
+          tests: { [user]: 1000 },
+        }),
+      );
+
+      execSync('bun run build', { cwd: process.cwd(), stdio: 'pipe' });
+      const output = execSync(
+        `node ./bin/run.js merge-timing --existing "${existingPath}" --new "${artifactPath}" --output "${outputPath}" ${extraArgs(tmpDir)}`,
+        { cwd: process.cwd(), stdio: 'pipe', encoding: 'utf-8' },
+      );
+
+      return {
+        summary: JSON.parse(output.trim().split('\n').pop() ?? '{}'),
+        merged: JSON.parse(fs.readFileSync(outputPath, 'utf-8')),
+      };
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  describe('Rename detection', () => {
+    test('keeps the timing of tests that did not run without --current-tests', () => {
+      const { summary, merged } = runMerge(() => '');
+
+      expect(summary.renames).toBeUndefined();
+      expect(merged.tests[admin]?.duration).toBe(9000);
+      expect(merged.tests[user]?.duration).toBe(1000);
+    });
+
+    test('carries history over to renamed tests in the current test list', () => {
+      const { summary, merged } = runMerge((dir) => {
+        const currentPath = path.join(dir, 'current.txt');
+        fs.writeFileSync(currentPath, `${user}\n`);
+        return `--current-tests "${currentPath}"`;
+      });
+
+      expect(summary.renames).toEqual([
+        expect.objectContaining({ from: admin, to: user }),
+      ]);
+      expect(merged.tests[admin]).toBeUndefined();
+      expect(merged.tests[user]?.runs).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import type { AssignableTest } from '../src/core/assignable-tests.js';
+import {
+  assignNativeShards,
+  sortInNativeOrder,
+} from '../src/core/native-shard.js';
+import type { TestWithDuration } from '../src/core/types.js';
+
+function tests(spec: Record<string, number>): TestWithDuration[] {
+  return Object.entries(spec).flatMap(([file, count]) =>
+    Array.from({ length: count }, (_, i) => ({
+      testId: `${file}::t${i + 1}`,
+      file,
+      duration: 1000,
+      estimated: false,
+    })),
+  );
+}
+
+describe('assignNativeShards', () => {
+  test('splits single tests into equal ranges when fully parallel', () => {
+    const shards = assignNativeShards(tests({ 'a.spec.ts': 7 }), 3, {
+      fullyParallel: true,
+    });
+
+    // 7 tests over 3 shards: the first shard takes the extra test
+    expect(shards.map((s) => s.tests.length)).toEqual([3, 2, 2]);
+    expect(shards[0]?.tests).toEqual([
+      'a.spec.ts::t1',
+      'a.spec.ts::t2',
+      'a.spec.ts::t3',
+    ]);
+    expect(shards.map((s) => s.expectedDuration)).toEqual([3000, 2000, 2000]);
+  });
+
+  test('places whole files by the range of their first test', () => {
+    const shards = assignNativeShards(
+      tests({ 'a.spec.ts': 3, 'b.spec.ts': 1, 'c.spec.ts': 2 }),
+      2,
+    );
+
+    // Ranges are tests 0-2 and 3-5; b starts at 3, c at 4
+    expect(shards.map((s) => s.tests.length)).toEqual([3, 3]);
+    expect(shards[1]?.tests).toEqual([
+      'b.spec.ts::t1',
+      'c.spec.ts::t1',
+      'c.spec.ts::t2',
+    ]);
+  });
+
+  test('keeps serial groups whole and leaves extra shards empty', () => {
+    const input = tests({ 'a.spec.ts': 3 }).map((t, i) =>
+      i < 2 ? { ...t, serialGroup: 'a.spec.ts::Flow' } : t,
+    );
+
+    const shards = assignNativeShards(input, 4, { fullyParallel: true });
+
+    expect(shards.map((s) => s.tests)).toEqual([
+      ['a.spec.ts::t1', 'a.spec.ts::t2'],
+      [],
+      ['a.spec.ts::t3'],
+      [],
+    ]);
+  });
+});
+
+describe('sortInNativeOrder', () => {
+  const assignable = (
+    project: string,
+    file: string,
+    line: number,
+  ): AssignableTest => ({
+    key: `${project}:${file}:${line}`,
+    test: {
+      file,
+      title: `t${line}`,
+      titlePath: [`t${line}`],
+      testId: `${file}::t${line}`,
+      line,
+      column: 1,
+      project,
+    },
+    project,
+    testDirPrefix: '',
+  });
+
+  test('orders by project, directory walk, then position in the file', () => {
+    const sorted = sortInNativeOrder([
+      assignable('chromium', 'b.spec.ts', 1),
+      assignable('chromium', 'a-b.spec.ts', 1),
+      assignable('chromium', 'a/z.spec.ts', 9),
+      assignable('chromium', 'a/z.spec.ts', 3),
+      assignable('firefox', 'a-b.spec.ts', 1),
+    ]);
+
+    expect(sorted.map((a) => a.key)).toEqual([
+      'chromium:a/z.spec.ts:3',
+      'chromium:a/z.spec.ts:9',
+      'chromium:a-b.spec.ts:1',
+      'chromium:b.spec.ts:1',
+      'firefox:a-b.spec.ts:1',
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatRecommendationText,
+  recommendShards,
+} from '../src/core/recommend.js';
+import type { TestWithDuration } from '../src/core/types.js';
+
+function tests(durations: number[]): TestWithDuration[] {
+  return durations.map((duration, i) => ({
+    testId: `t${i}.spec.ts::test`,
+    file: `t${i}.spec.ts`,
+    duration,
+    estimated: false,
+  }));
+}
+
+describe('recommendShards', () => {
+  test('recommends the smallest shard count meeting the target', () => {
+    // 12 minutes of tests, each 1 minute
+    const recommendation = recommendShards(
+      tests(Array(12).fill(60_000)),
+      4 * 60_000,
+    );
+
+    expect(recommendation.recommended).toBe(3);
+    expect(recommendation.totalDuration).toBe(12 * 60_000);
+    // Fewer shards can't meet the target even in theory, so they aren't
+    // assigned; the search stops at the first count that meets it
+    expect(recommendation.curve.map((p) => [p.shards, p.makespan])).toEqual([
+      [3, 4 * 60_000],
+    ]);
+  });
+
+  test('reports the marginal gain and efficiency of each extra shard', () => {
+    // Two shards could reach 50s in theory but no split does
+    const { curve, recommended } = recommendShards(
+      tests([30_000, 30_000, 40_000]),
+      50_000,
+    );
+
+    expect(recommended).toBe(3);
+    expect(curve.map((p) => [p.shards, p.makespan, p.marginalGain])).toEqual([
+      [2, 60_000, 0],
+      [3, 40_000, 20_000],
+    ]);
+    expect(curve[0]?.lowerBound).toBe(50_000);
+    expect(curve[1]?.efficiency).toBeCloseTo(100 / 120);
+  });
+
+  test('stops once the longest test alone misses the target', () => {
+    const recommendation = recommendShards(
+      tests([300_000, 10_000, 10_000]),
+      60_000,
+    );
+
+    // From two shards on, the bound is the 5 minute test; nothing is assigned
+    expect(recommendation.curve).toEqual([]);
+    expect(recommendation.recommended).toBeNull();
+    expect(recommendation.longestTest).toBe(300_000);
+  });
+
+  test('evaluates only the requested range', () => {
+    const recommendation = recommendShards(
+      tests(Array(40).fill(10_000)),
+      100_000,
+      { minShards: 2, maxShards: 5 },
+    );
+
+    expect(recommendation.curve.map((p) => p.shards)).toEqual([4]);
+    expect(recommendation.recommended).toBe(4);
+
+    const none = recommendShards(tests(Array(40).fill(10_000)), 60_000, {
+      minShards: 2,
+      maxShards: 5,
+    });
+    expect(none.curve).toEqual([]);
+    expect(none.recommended).toBeNull();
+    expect(formatRecommendationText(none)).toContain(
+      'No shard count up to 5 meets the target',
+    );
+  });
+});
+
+describe('formatRecommendationText', () => {
+  test('marks the recommended shard count', () => {
+    const text = formatRecommendationText(
+      recommendShards(tests(Array(4).fill(60_000)), 2 * 60_000),
+    );
+
+    expect(text).toContain('  2 shards: 2m 0s (100% efficient)  <-');
+    expect(text).toContain('Recommended: 2 shards');
+  });
+
+  test('explains when the longest test exceeds the target', () => {
+    const text = formatRecommendationText(
+      recommendShards(tests([120_000, 1000]), 60_000),
+    );
+
+    expect(text).toContain('the longest test alone takes 2m 0s');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test';
+import { applyTestRenames, detectRenamedTests } from '../src/core/renames.js';
+import type { TimingData } from '../src/core/types.js';
+
+function timing(testIds: string[]): TimingData {
+  return {
+    version: 3,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    tests: Object.fromEntries(
+      testIds.map((id, i) => [
+        id,
+        {
+          file: id.split('::')[0] ?? '',
+          duration: (i + 1) * 1000,
+          runs: 5,
+          lastRun: '2024-01-01T00:00:00.000Z',
+        },
+      ]),
+    ),
+  };
+}
+
+describe('detectRenamedTests', () => {
+  test('returns nothing without timing data or changes', () => {
+    expect(detectRenamedTests(['a.spec.ts::x'], null)).toEqual([]);
+    expect(
+      detectRenamedTests(['a.spec.ts::x'], timing(['a.spec.ts::x'])),
+    ).toEqual([]);
+  });
+
+  test('follows a moved file with the same tests', () => {
+    const data = timing([
+      'old/login.spec.ts::Login::works',
+      'old/login.spec.ts::Login::fails',
+    ]);
+
+    const renames = detectRenamedTests(
+      ['new/login.spec.ts::Login::works', 'new/login.spec.ts::Login::fails'],
+      data,
+    );
+
+    expect(renames).toEqual([
+      {
+        from: 'old/login.spec.ts::Login::works',
+        to: 'new/login.spec.ts::Login::works',
+        reason: 'moved-file',
+      },
+      {
+        from: 'old/login.spec.ts::Login::fails',
+        to: 'new/login.spec.ts::Login::fails',
+        reason: 'moved-file',
+      },
+    ]);
+  });
+
+  test('follows a test moved to another file', () => {
+    const data = timing(['a.spec.ts::Cart::adds item', 'a.spec.ts::stays']);
+
+    const renames = detectRenamedTests(
+      [
+        'b.spec.ts::Cart::adds item',
+        'b.spec.ts::Cart::new test',
+        'a.spec.ts::stays',
+      ],
+      data,
+    );
+
+    expect(renames).toEqual([
+      {
+        from: 'a.spec.ts::Cart::adds item',
+        to: 'b.spec.ts::Cart::adds item',
+        reason: 'moved-test',
+      },
+    ]);
+  });
+
+  test('follows an edited title in the same file', () => {
+    const data = timing(['a.spec.ts::Cart::adds an item to the cart']);
+
+    const renames = detectRenamedTests(
+      ['a.spec.ts::Cart::adds one item to the cart', 'b.spec.ts::other'],
+      data,
+    );
+
+    expect(renames).toEqual([
+      {
+        from: 'a.spec.ts::Cart::adds an item to the cart',
+        to: 'a.spec.ts::Cart::adds one item to the cart',
+        reason: 'edited-title',
+      },
+    ]);
+  });
+
+  test('leaves out dissimilar titles and titles in other files', () => {
+    const data = timing(['a.spec.ts::checkout works', 'a.spec.ts::unique']);
+
+    const renames = detectRenamedTests(
+      ['a.spec.ts::refund works', 'b.spec.ts::checkout works!'],
+      data,
+    );
+
+    expect(renames).toEqual([]);
+  });
+
+  test('leaves out ambiguous matches', () => {
+    // Two vanished tests share the title that moved
+    const moved = timing(['a.spec.ts::login', 'b.spec.ts::login']);
+    expect(
+      detectRenamedTests(['c.spec.ts::login', 'a.spec.ts::other'], moved),
+    ).toEqual([]);
+
+    // Two edited titles are equally close to the vanished one
+    const edited = timing(['a.spec.ts::shows item 1']);
+    expect(
+      detectRenamedTests(
+        ['a.spec.ts::shows item 2', 'a.spec.ts::shows item 3'],
+        edited,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('applyTestRenames', () => {
+  test('moves timing to the new IDs', () => {
+    const data = timing(['old/a.spec.ts::x', 'b.spec.ts::y']);
+
+    const renamed = applyTestRenames(data, [
+      {
+        from: 'old/a.spec.ts::x',
+        to: 'new/a.spec.ts::x',
+        reason: 'moved-file',
+      },
+    ]);
+
+    expect(Object.keys(renamed.tests).sort()).toEqual([
+      'b.spec.ts::y',
+      'new/a.spec.ts::x',
+    ]);
+    expect(renamed.tests['new/a.spec.ts::x']).toMatchObject({
+      file: 'new/a.spec.ts',
+      duration: 1000,
+      runs: 5,
+    });
+    expect(data.tests['old/a.spec.ts::x']).toBeDefined();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildAssignmentReport,
+  formatReportMarkdown,
+  formatReportText,
+} from '../src/core/report.js';
+import type {
+  ShardTimingArtifact,
+  TestAssignResult,
+} from '../src/core/types.js';
+
+const assignment: TestAssignResult = {
+  shards: {
+    1: ['a.spec.ts::slow', 'a.spec.ts::fast'],
+    2: ['b.spec.ts::steady', 'b.spec.ts::missing'],
+  },
+  expectedDurations: { 1: 30000, 2: 25000 },
+  totalTests: 4,
+  estimatedTests: [],
+  isOptimal: true,
+  testListFiles: { 1: '', 2: '' },
+  testDurations: {
+    'a.spec.ts::slow': 20000,
+    'a.spec.ts::fast': 10000,
+    'b.spec.ts::steady': 20000,
+    'b.spec.ts::missing': 5000,
+  },
+};
+
+const artifacts: ShardTimingArtifact[] = [
+  {
+    shard: 1,
+    project: 'default',
+    tests: { 'a.spec.ts::slow': 50000, 'a.spec.ts::fast': 9000 },
+  },
+  {
+    shard: 2,
+    project: 'default',
+    tests: { 'b.spec.ts::steady': 21000 },
+  },
+];
+
+describe('buildAssignmentReport', () => {
+  test('compares predicted and actual shard durations', () => {
+    const report = buildAssignmentReport(assignment, artifacts);
+
+    expect(report.shards).toEqual([
+      {
+        shardIndex: 1,
+        tests: 2,
+        predicted: 30000,
+        actual: 59000,
+        error: 29000,
+        errorPercent: 96.7,
+      },
+      {
+        shardIndex: 2,
+        tests: 2,
+        predicted: 25000,
+        actual: 21000,
+        error: -4000,
+        errorPercent: -16,
+      },
+    ]);
+  });
+
+  test('computes makespan error', () => {
+    const report = buildAssignmentReport(assignment, artifacts);
+
+    expect(report.predictedMakespan).toBe(30000);
+    expect(report.actualMakespan).toBe(59000);
+    expect(report.makespanError).toBe(29000);
+    expect(report.makespanErrorPercent).toBe(96.7);
+  });
+
+  test('ranks tests by absolute prediction error', () => {
+    const report = buildAssignmentReport(assignment, artifacts, 2);
+
+    expect(report.worstPredictions.map((t) => t.testId)).toEqual([
+      'a.spec.ts::slow',
+      'a.spec.ts::fast',
+    ]);
+    expect(report.worstPredictions[0]?.error).toBe(30000);
+  });
+
+  test('lists assigned tests without measurements', () => {
+    const report = buildAssignmentReport(assignment, artifacts);
+
+    expect(report.missingTests).toEqual(['b.spec.ts::missing']);
+  });
+
+  test('qualifies artifact test IDs for multi-project assignments', () => {
+    const multiProject: TestAssignResult = {
+      ...assignment,
+      shards: { 1: ['[chromium] › a.spec.ts::slow'] },
+      expectedDurations: { 1: 20000 },
+      projects: { 1: { chromium: ['a.spec.ts::slow'] } },
+      testDurations: { '[chromium] › a.spec.ts::slow': 20000 },
+    };
+
+    const report = buildAssignmentReport(multiProject, [
+      { shard: 1, project: 'chromium', tests: { 'a.spec.ts::slow': 25000 } },
+    ]);
+
+    expect(report.missingTests).toEqual([]);
+    expect(report.worstPredictions[0]?.error).toBe(5000);
+  });
+
+  test('skips per-test predictions when durations are absent', () => {
+    const { testDurations: _, ...withoutDurations } = assignment;
+
+    const report = buildAssignmentReport(withoutDurations, artifacts);
+
+    expect(report.worstPredictions).toEqual([]);
+    expect(report.shards).toHaveLength(2);
+  });
+});
+
+describe('formatReportText', () => {
+  test('includes shards, makespan and worst predictions', () => {
+    const text = formatReportText(buildAssignmentReport(assignment, artifacts));
+
+    expect(text).toContain(
+      'Shard 1 (2 tests): predicted 30s, actual 59s, error +29s (+96.7%)',
+    );
+    expect(text).toContain('Makespan: predicted 30s, actual 59s');
+    expect(text).toContain('a.spec.ts::slow (shard 1)');
+    expect(text).toContain('Tests without measurements: 1');
+  });
+});
+
+describe('formatReportMarkdown', () => {
+  test('renders a shard table and collapsible worst predictions', () => {
+    const markdown = formatReportMarkdown(
+      buildAssignmentReport(assignment, artifacts),
+    );
+
+    expect(markdown).toContain(
+      '| Shard | Tests | Predicted | Actual | Error |',
+    );
+    expect(markdown).toContain('| 2 | 2 | 25s | 21s | -4s (-16%) |');
+    expect(markdown).toContain('<summary>Worst predictions</summary>');
+    expect(markdown).toContain('`a.spec.ts::slow`');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { execSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  PlaywrightListOutput,
+  TestAssignResult,
+} from '../src/core/types.js';
+
+describe('Select Command', () => {
+  test('emits the tests affected by changed files as a test list for assign', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'select-test-'));
+    const testDir = path.join(root, 'e2e');
+    const listPath = path.join(root, 'test-list.json');
+    const changedPath = path.join(root, 'changed.txt');
+    const outputPath = path.join(root, 'affected.json');
+
+    try {
+      fs.mkdirSync(path.join(root, 'pages'), { recursive: true });
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(testDir, 'cart.spec.ts'),
+        "import { CartPage } from '../pages/cart';",
+      );
+      fs.writeFileSync(path.join(testDir, 'login.spec.ts'), '');
+      fs.writeFileSync(path.join(root, 'pages/cart.ts'), '');
+      fs.writeFileSync(changedPath, 'pages/cart.ts\n');
+
+      const spec = (file: string, title: string) => ({
+        title: file,
+        file,
+        specs: [{ title, file, line: 1, column: 1 }],
+      });
+      const list: PlaywrightListOutput = {
+        config: { rootDir: root, projects: [{ name: 'chromium', testDir }] },
+        suites: [
+          spec('cart.spec.ts', 'adds item'),
+          spec('login.spec.ts', 'logs in'),
+        ],
+      };
+      fs.writeFileSync(listPath, JSON.stringify(list, null, 2));
+
+      execSync('bun run build', { cwd: process.cwd(), stdio: 'pipe' });
+      execSync(
+        `node "${path.resolve('bin/run.js')}" select --test-list "${listPath}" --changed "${changedPath}" --output-file "${outputPath}"`,
+        { cwd: root, stdio: 'pipe' },
+      );
+
+      const selected = JSON.parse(
+        fs.readFileSync(outputPath, 'utf-8'),
+      ) as PlaywrightListOutput;
+      expect(selected.suites.map((s) => s.file)).toEqual(['cart.spec.ts']);
+
+      const output = execSync(
+        `node ./bin/run.js assign --test-list "${outputPath}" --shards 2`,
+        { cwd: process.cwd(), stdio: 'pipe', encoding: 'utf-8' },
+      );
+      const result = JSON.parse(output) as TestAssignResult;
+      expect(result.totalTests).toBe(1);
+      expect(result.shards[1]).toEqual(['cart.spec.ts::adds item']);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  expandSerialGroups,
+  groupSerialTests,
+} from '../src/core/serial-groups.js';
+import type { TestWithDuration } from '../src/core/types.js';
+
+const tests: TestWithDuration[] = [
+  {
+    testId: 'a.spec.ts::one',
+    file: 'a.spec.ts',
+    duration: 1000,
+    estimated: false,
+  },
+  {
+    testId: 'b.spec.ts::Flow::login',
+    file: 'b.spec.ts',
+    duration: 2000,
+    estimated: false,
+    serialGroup: 'b.spec.ts::Flow',
+  },
+  {
+    testId: 'a.spec.ts::two',
+    file: 'a.spec.ts',
+    duration: 500,
+    estimated: false,
+  },
+  {
+    testId: 'b.spec.ts::Flow::logout',
+    file: 'b.spec.ts',
+    duration: 3000,
+    estimated: true,
+    serialGroup: 'b.spec.ts::Flow',
+  },
+];
+
+describe('groupSerialTests', () => {
+  test('collapses each serial group into one item with the summed duration', () => {
+    const grouped = groupSerialTests(tests);
+
+    expect(grouped.tests).toEqual([
+      {
+        testId: 'a.spec.ts::one',
+        file: 'a.spec.ts',
+        duration: 1000,
+        estimated: false,
+      },
+      {
+        testId: 'b.spec.ts::Flow',
+        file: 'b.spec.ts',
+        duration: 5000,
+        estimated: true,
+      },
+      {
+        testId: 'a.spec.ts::two',
+        file: 'a.spec.ts',
+        duration: 500,
+        estimated: false,
+      },
+    ]);
+    expect(grouped.groups.get('b.spec.ts::Flow')).toEqual([
+      'b.spec.ts::Flow::login',
+      'b.spec.ts::Flow::logout',
+    ]);
+  });
+
+  test('does not modify the input tests', () => {
+    groupSerialTests(tests);
+
+    expect(tests[1]?.duration).toBe(2000);
+  });
+});
+
+describe('expandSerialGroups', () => {
+  test('replaces group items with their tests in order', () => {
+    const { groups } = groupSerialTests(tests);
+
+    const expanded = expandSerialGroups(
+      [
+        { shardIndex: 1, tests: ['b.spec.ts::Flow'], expectedDuration: 5000 },
+        {
+          shardIndex: 2,
+          tests: ['a.spec.ts::one', 'a.spec.ts::two'],
+          expectedDuration: 1500,
+        },
+      ],
+      groups,
+    );
+
+    expect(expanded[0]?.tests).toEqual([
+      'b.spec.ts::Flow::login',
+      'b.spec.ts::Flow::logout',
+    ]);
+    expect(expanded[1]?.tests).toEqual(['a.spec.ts::one', 'a.spec.ts::two']);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatSimulationMarkdown,
+  formatSimulationText,
+  SIMULATION_STRATEGIES,
+  simulateRun,
+  simulateRuns,
+} from '../src/core/simulate.js';
+import type { ShardTimingArtifact, TimingData } from '../src/core/types.js';
+
+function snapshot(durations: Record<string, number>): TimingData {
+  return {
+    version: 3,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    tests: Object.fromEntries(
+      Object.entries(durations).map(([id, duration]) => [
+        id,
+        {
+          file: id.split('::')[0] ?? '',
+          duration,
+          runs: 3,
+          lastRun: '2024-01-01T00:00:00.000Z',
+        },
+      ]),
+    ),
+  };
+}
+
+// One long file first, then short ones: native sharding splits by test
+// count and keeps files whole, so the long tests share a shard
+const durations = {
+  'a.spec.ts::long 1': 60_000,
+  'a.spec.ts::long 2': 60_000,
+  'b.spec.ts::short 1': 10_000,
+  'b.spec.ts::short 2': 10_000,
+  'c.spec.ts::short 1': 10_000,
+  'c.spec.ts::short 2': 10_000,
+};
+
+const artifact = (
+  tests: Record<string, number>,
+  project = 'chromium',
+): ShardTimingArtifact => ({ shard: 1, project, tests });
+
+describe('simulateRun', () => {
+  test('compares every strategy on actual durations', () => {
+    const result = simulateRun(
+      {
+        name: 'run-1',
+        timingData: snapshot(durations),
+        artifacts: [artifact(durations)],
+      },
+      { numShards: 2, fileAffinityPenalty: 0 },
+    );
+
+    expect(result.tests).toBe(6);
+    expect(result.strategies.map((s) => s.strategy)).toEqual(
+      SIMULATION_STRATEGIES,
+    );
+    const byStrategy = Object.fromEntries(
+      result.strategies.map((s) => [s.strategy, s]),
+    );
+    expect(byStrategy.ckk).toEqual({
+      strategy: 'ckk',
+      predictedMakespan: 80_000,
+      actualMakespan: 80_000,
+      balance: 1,
+      estimationError: 0,
+    });
+    expect(byStrategy.lpt?.actualMakespan).toBe(80_000);
+    expect(byStrategy['round-robin']?.actualMakespan).toBe(80_000);
+    // Native splits by test count: a.spec.ts and b.spec.ts start in the
+    // first half, so both land on shard 1
+    expect(byStrategy.native?.actualMakespan).toBe(140_000);
+    expect(byStrategy.native?.balance).toBe(7);
+  });
+
+  test('measures the estimation error against actual durations', () => {
+    const slower = Object.fromEntries(
+      Object.entries(durations).map(([id, d]) => [id, d * 1.5]),
+    );
+
+    const result = simulateRun(
+      {
+        name: 'run-1',
+        timingData: snapshot(durations),
+        artifacts: [artifact(slower)],
+      },
+      { numShards: 2, fileAffinityPenalty: 0 },
+    );
+
+    const ckk = result.strategies.find((s) => s.strategy === 'ckk');
+    expect(ckk?.predictedMakespan).toBe(80_000);
+    expect(ckk?.actualMakespan).toBe(120_000);
+    expect(ckk?.estimationError).toBe(50);
+  });
+
+  test('charges the setup of every file a shard runs', () => {
+    const twoFiles = {
+      'a.spec.ts::1': 10_000,
+      'a.spec.ts::2': 10_000,
+      'b.spec.ts::1': 10_000,
+      'b.spec.ts::2': 10_000,
+    };
+    const timingData = snapshot(twoFiles);
+    timingData.files = {
+      'a.spec.ts': { setup: 30_000, runs: 3, lastRun: '2024-01-01' },
+      'b.spec.ts': { setup: 30_000, runs: 3, lastRun: '2024-01-01' },
+    };
+
+    const result = simulateRun(
+      {
+        name: 'run-1',
+        timingData,
+        artifacts: [
+          {
+            ...artifact(twoFiles),
+            setup: { 'a.spec.ts': 20_000, 'b.spec.ts': 30_000 },
+          },
+          { ...artifact({}), setup: { 'a.spec.ts': 40_000 } },
+        ],
+      },
+      { numShards: 2, fileAffinityPenalty: 0 },
+    );
+
+    const byStrategy = Object.fromEntries(
+      result.strategies.map((s) => [s.strategy, s]),
+    );
+    // CKK keeps each file on one shard and pays each setup once
+    expect(byStrategy.ckk?.predictedMakespan).toBe(50_000);
+    expect(byStrategy.ckk?.actualMakespan).toBe(50_000);
+    // Round-robin splits both files, so both shards pay both setups
+    expect(byStrategy['round-robin']?.actualMakespan).toBe(80_000);
+  });
+
+  test('qualifies test IDs by project for runs over several projects', () => {
+    const result = simulateRun(
+      {
+        name: 'run-1',
+        timingData: null,
+        artifacts: [
+          artifact({ 'a.spec.ts::x': 1000 }, 'chromium'),
+          artifact({ 'a.spec.ts::x': 2000 }, 'firefox'),
+        ],
+      },
+      { numShards: 2 },
+    );
+
+    expect(result.tests).toBe(2);
+    const ckk = result.strategies.find((s) => s.strategy === 'ckk');
+    expect(ckk?.actualMakespan).toBe(2000);
+  });
+});
+
+describe('simulateRuns', () => {
+  test('averages every strategy over the runs', () => {
+    const run = (factor: number) => ({
+      name: `run-${factor}`,
+      timingData: snapshot(durations),
+      artifacts: [
+        artifact(
+          Object.fromEntries(
+            Object.entries(durations).map(([id, d]) => [id, d * factor]),
+          ),
+        ),
+      ],
+    });
+
+    const report = simulateRuns([run(1), run(2)], {
+      numShards: 2,
+      fileAffinityPenalty: 0,
+    });
+
+    expect(report.runs).toHaveLength(2);
+    const ckk = report.summary.find((s) => s.strategy === 'ckk');
+    expect(ckk?.actualMakespan).toBe(120_000);
+    expect(ckk?.estimationError).toBe(50);
+
+    const text = formatSimulationText(report);
+    expect(text).toContain('Mean over 2 runs:');
+    expect(text).toContain('native');
+    const markdown = formatSimulationMarkdown(report);
+    expect(markdown).toContain('| ckk | 2m 0s | 1m 20s | 1.00 | 50.0% |');
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DEFAULT_SOURCE_MODEL,
+  estimateTestsFromSource,
+  extractSourceFeatures,
+  extractTestSource,
+  fitSourceModel,
+  predictFromSource,
+  type SourceFeatures,
+} from '../src/core/source-estimate.js';
+import { parseTestsFromSource } from '../src/core/test-discovery.js';
+import type { TimingData } from '../src/core/types.js';
+
+const source = `import { expect, test } from '@playwright/test';
+
+test('checks out', async ({ page }) => {
+  // a comment with a ) paren
+  await page.goto('/cart');
+  await test.step('pay (card)', async () => {
+    await page.waitForTimeout(2_000);
+    expect(page).toHaveURL(/pay/);
+  });
+  await expect.soft(page.getByText(')')).toBeVisible();
+});
+
+test('browses', async ({ page }) => {
+  await page.goto('/');
+});
+`;
+
+function features(partial: Partial<SourceFeatures>): SourceFeatures {
+  return { gotos: 0, steps: 0, assertions: 0, lines: 1, waitMs: 0, ...partial };
+}
+
+describe('extractTestSource', () => {
+  test('extracts the test call up to its closing parenthesis', () => {
+    const body = extractTestSource(source, 3, 1);
+
+    expect(body?.startsWith("test('checks out'")).toBe(true);
+    expect(body?.endsWith('});')).toBe(false);
+    expect(body?.endsWith('})')).toBe(true);
+    expect(body).not.toContain('browses');
+  });
+
+  test('returns undefined past the end of the source', () => {
+    expect(extractTestSource(source, 100, 1)).toBeUndefined();
+    expect(extractTestSource('test("open", () => {', 1, 1)).toBeUndefined();
+  });
+});
+
+describe('extractSourceFeatures', () => {
+  test('counts navigations, steps, assertions and fixed waits', () => {
+    const body = extractTestSource(source, 3, 1) ?? '';
+
+    expect(extractSourceFeatures(body)).toEqual({
+      gotos: 1,
+      steps: 1,
+      assertions: 2,
+      lines: 9,
+      waitMs: 2000,
+    });
+  });
+});
+
+describe('fitSourceModel', () => {
+  test('needs enough samples', () => {
+    expect(
+      fitSourceModel([{ features: features({}), duration: 1000 }]),
+    ).toBeUndefined();
+  });
+
+  test('recovers the weights of the signals', () => {
+    // 2s base, 4s per navigation, 1s per assertion, plus fixed waits
+    const samples = Array.from({ length: 40 }, (_, i) => {
+      const f = features({
+        gotos: i % 4,
+        assertions: (i * 7) % 5,
+        steps: i % 3,
+        lines: 5 + (i % 6),
+        waitMs: (i % 2) * 500,
+      });
+      return {
+        features: f,
+        duration: 2000 + 4000 * f.gotos + 1000 * f.assertions + f.waitMs,
+      };
+    });
+
+    const model = fitSourceModel(samples);
+    const prediction = predictFromSource(
+      features({ gotos: 2, assertions: 3, lines: 8, waitMs: 1000 }),
+      model ?? DEFAULT_SOURCE_MODEL,
+    );
+
+    expect(model).toBeDefined();
+    expect(Math.abs(prediction - 14000)).toBeLessThan(1500);
+  });
+
+  test('keeps every weight non-negative', () => {
+    // Longer tests ran shorter here, which would give lines a negative weight
+    const samples = Array.from({ length: 20 }, (_, i) => ({
+      features: features({ lines: 5 + i, steps: i % 4 }),
+      duration: 30_000 - 1000 * i + 2000 * (i % 4),
+    }));
+
+    const model = fitSourceModel(samples);
+
+    expect(model?.line).toBe(0);
+    expect(Object.values(model ?? {}).every((w) => w >= 0)).toBe(true);
+    expect(
+      predictFromSource(
+        features({ lines: 200 }),
+        model ?? DEFAULT_SOURCE_MODEL,
+      ),
+    ).toBeGreaterThan(1000);
+  });
+});
+
+describe('predictFromSource', () => {
+  test('adds fixed waits at face value', () => {
+    const base = predictFromSource(
+      features({ gotos: 1 }),
+      DEFAULT_SOURCE_MODEL,
+    );
+    const waiting = predictFromSource(
+      features({ gotos: 1, waitMs: 3000 }),
+      DEFAULT_SOURCE_MODEL,
+    );
+
+    expect(waiting - base).toBe(3000);
+  });
+});
+
+describe('estimateTestsFromSource', () => {
+  test('estimates only tests without timing data', () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-estimate-'));
+    try {
+      fs.writeFileSync(path.join(testDir, 'cart.spec.ts'), source);
+      const tests = parseTestsFromSource(source, 'cart.spec.ts');
+      const timingData: TimingData = {
+        version: 3,
+        updatedAt: '2025-01-01T00:00:00Z',
+        tests: {
+          'cart.spec.ts::browses': {
+            file: 'cart.spec.ts',
+            duration: 4000,
+            runs: 3,
+            lastRun: '2025-01-01T00:00:00Z',
+          },
+        },
+      };
+
+      const estimates = estimateTestsFromSource(tests, testDir, timingData);
+
+      // Too few samples to fit, so the default weights apply
+      const body = extractTestSource(source, 3, 1) ?? '';
+      expect(estimates).toEqual({
+        'cart.spec.ts::checks out': predictFromSource(
+          extractSourceFeatures(body),
+          DEFAULT_SOURCE_MODEL,
+        ),
+      });
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test('estimates short tests below the average of their file', () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-estimate-'));
+    try {
+      fs.writeFileSync(path.join(testDir, 'cart.spec.ts'), source);
+      const tests = parseTestsFromSource(source, 'cart.spec.ts');
+      const timingData: TimingData = {
+        version: 3,
+        updatedAt: '2025-01-01T00:00:00Z',
+        tests: {
+          'cart.spec.ts::browses': {
+            file: 'cart.spec.ts',
+            duration: 120_000,
+            runs: 3,
+            lastRun: '2025-01-01T00:00:00Z',
+          },
+        },
+      };
+
+      const estimate =
+        estimateTestsFromSource(tests, testDir, timingData)[
+          'cart.spec.ts::checks out'
+        ] ?? 0;
+      expect(estimate).toBeGreaterThan(1);
+      expect(estimate).toBeLessThan(120_000);
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test('skips tests whose source cannot be read', () => {
+    const tests = parseTestsFromSource(source, 'cart.spec.ts');
+
+    expect(estimateTestsFromSource(tests, '/nonexistent', null)).toEqual({});
+  });
+});
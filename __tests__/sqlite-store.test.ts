@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createSqliteTimingStore } from '../src/core/sqlite-store.js';
+import type { TimingData } from '../src/core/types.js';
+
+const timingData: TimingData = {
+  version: 3,
+  updatedAt: '2025-01-01T00:00:00Z',
+  tests: {
+    'a.spec.ts::test': {
+      file: 'a.spec.ts',
+      duration: 1000,
+      runs: 2,
+      lastRun: '2025-01-01T00:00:00Z',
+      projects: {
+        chromium: {
+          duration: 900,
+          runs: 2,
+          lastRun: '2025-01-01T00:00:00Z',
+        },
+      },
+    },
+    'b.spec.ts::test': {
+      file: 'b.spec.ts',
+      duration: 2000,
+      runs: 1,
+      lastRun: '2025-01-01T00:00:00Z',
+    },
+  },
+};
+
+describe('createSqliteTimingStore', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-test-'));
+    dbPath = path.join(tmpDir, 'timing.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('returns empty data for a new database', async () => {
+    const store = createSqliteTimingStore(dbPath);
+
+    const data = await store.load();
+
+    expect(data.tests).toEqual({});
+  });
+
+  test('round-trips timing data', async () => {
+    const store = createSqliteTimingStore(dbPath);
+
+    await store.save(timingData);
+
+    expect(await store.load()).toEqual(timingData);
+  });
+
+  test('round-trips file setup times', async () => {
+    const store = createSqliteTimingStore(dbPath);
+    const withFiles: TimingData = {
+      ...timingData,
+      files: {
+        'a.spec.ts': { setup: 500, runs: 1, lastRun: '2025-01-01T00:00:00Z' },
+      },
+    };
+
+    await store.save(withFiles);
+
+    expect(await store.load()).toEqual(withFiles);
+  });
+
+  test('save replaces removed tests', async () => {
+    const store = createSqliteTimingStore(dbPath);
+    await store.save(timingData);
+
+    const { 'b.spec.ts::test': _, ...remaining } = timingData.tests;
+    await store.save({ ...timingData, tests: remaining });
+
+    expect(Object.keys((await store.load()).tests)).toEqual([
+      'a.spec.ts::test',
+    ]);
+  });
+
+  test('compareAndSwap saves only at the expected generation', async () => {
+    const store = createSqliteTimingStore(dbPath);
+
+    expect(
+      await store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).toBe(true);
+    expect(
+      await store.compareAndSwap({ ...timingData, generation: 2 }, 0),
+    ).toBe(false);
+
+    expect((await store.load()).generation).toBe(1);
+  });
+
+  test('refuses to load or overwrite data of an unsupported version', async () => {
+    const store = createSqliteTimingStore(dbPath);
+    await store.save({ ...timingData, version: 1 } as unknown as TimingData);
+
+    await expect(store.load()).rejects.toThrow('has version 1, expected 3');
+    await expect(
+      store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).rejects.toThrow('has version 1, expected 3');
+  });
+});
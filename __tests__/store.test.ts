@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  createFileTimingStore,
+  createTimingStore,
+  mergeIntoStore,
+  type TimingStore,
+} from '../src/core/store.js';
+import { mergeTimingData } from '../src/core/timing-store.js';
+import type { ShardTimingArtifact, TimingData } from '../src/core/types.js';
+
+const timingData: TimingData = {
+  version: 3,
+  updatedAt: '2025-01-01T00:00:00Z',
+  tests: {
+    'a.spec.ts::test': {
+      file: 'a.spec.ts',
+      duration: 1000,
+      runs: 1,
+      lastRun: '2025-01-01T00:00:00Z',
+    },
+  },
+};
+
+describe('createTimingStore', () => {
+  test('treats plain paths and file:// URIs as file stores', () => {
+    expect(createTimingStore('timing.json').location).toBe(
+      path.resolve('timing.json'),
+    );
+    expect(
+      createTimingStore(pathToFileURL('/tmp/timing.json').href).location,
+    ).toBe(path.resolve('/tmp/timing.json'));
+  });
+
+  test('creates an SQLite store for sqlite:// URIs', () => {
+    expect(createTimingStore('sqlite:///tmp/timing.db').location).toBe(
+      'sqlite:///tmp/timing.db',
+    );
+  });
+
+  test('rejects unknown schemes', () => {
+    expect(() => createTimingStore('redis://localhost/timing')).toThrow(
+      'Unsupported timing store',
+    );
+  });
+});
+
+describe('createFileTimingStore', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-store-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('returns empty data when nothing is stored', async () => {
+    const store = createFileTimingStore(path.join(tmpDir, 'timing.json'));
+
+    const data = await store.load();
+
+    expect(data.tests).toEqual({});
+  });
+
+  test('round-trips timing data', async () => {
+    const store = createFileTimingStore(
+      path.join(tmpDir, 'nested', 'timing.json'),
+    );
+
+    await store.save(timingData);
+
+    expect(await store.load()).toEqual(timingData);
+    expect(fs.readdirSync(path.join(tmpDir, 'nested'))).toEqual([
+      'timing.json',
+    ]);
+  });
+
+  test('refuses to load or overwrite unreadable data', async () => {
+    const filePath = path.join(tmpDir, 'timing.json');
+    const store = createFileTimingStore(filePath);
+    const truncated = '{"version":3,"tests":{"a.spec.ts::x":';
+    fs.writeFileSync(filePath, truncated);
+
+    await expect(store.load()).rejects.toThrow('unreadable');
+    await expect(
+      store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).rejects.toThrow('unreadable');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(truncated);
+  });
+
+  test('refuses to overwrite data of an unsupported version', async () => {
+    const filePath = path.join(tmpDir, 'timing.json');
+    const store = createFileTimingStore(filePath);
+    fs.writeFileSync(filePath, JSON.stringify({ ...timingData, version: 1 }));
+
+    await expect(
+      store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).rejects.toThrow('has version 1, expected 3');
+  });
+
+  test('compareAndSwap waits for a held lock', async () => {
+    const filePath = path.join(tmpDir, 'timing.json');
+    fs.writeFileSync(`${filePath}.lock`, '12345');
+    const store = createFileTimingStore(filePath, { timeout: 100 });
+
+    await expect(
+      store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).rejects.toThrow('Timed out after 100ms waiting for timing store lock');
+  });
+
+  test('compareAndSwap breaks stale locks', async () => {
+    const filePath = path.join(tmpDir, 'timing.json');
+    fs.writeFileSync(`${filePath}.lock`, '12345');
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(`${filePath}.lock`, past, past);
+
+    const store = createFileTimingStore(filePath, {
+      timeout: 100,
+      staleAfter: 1000,
+    });
+
+    expect(
+      await store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).toBe(true);
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  test('compareAndSwap saves only at the expected generation', async () => {
+    const store = createFileTimingStore(path.join(tmpDir, 'timing.json'));
+
+    expect(
+      await store.compareAndSwap({ ...timingData, generation: 1 }, 0),
+    ).toBe(true);
+    expect(
+      await store.compareAndSwap({ ...timingData, generation: 2 }, 0),
+    ).toBe(false);
+
+    expect((await store.load()).generation).toBe(1);
+    expect(fs.existsSync(path.join(tmpDir, 'timing.json.lock'))).toBe(false);
+  });
+});
+
+describe('mergeIntoStore', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-store-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function artifact(testId: string): ShardTimingArtifact {
+    return { shard: 1, project: 'default', tests: { [testId]: 1000 } };
+  }
+
+  /**
+   * Wrap a store so that another merge lands between the first load and
+   * the first save
+   */
+  function withConcurrentMerge(
+    store: TimingStore,
+    concurrent: ShardTimingArtifact,
+    times = 1,
+  ): TimingStore {
+    let remaining = times;
+    return {
+      ...store,
+      async compareAndSwap(data, expectedGeneration) {
+        if (remaining > 0) {
+          remaining--;
+          await store.save(mergeTimingData(await store.load(), [concurrent]));
+        }
+        return store.compareAndSwap(data, expectedGeneration);
+      },
+    };
+  }
+
+  test('re-reads and re-merges after a concurrent write', async () => {
+    const store = createFileTimingStore(path.join(tmpDir, 'timing.json'));
+    const conflicts: number[] = [];
+
+    const merged = await mergeIntoStore(
+      withConcurrentMerge(store, artifact('b.spec.ts::other')),
+      (existing) => mergeTimingData(existing, [artifact('a.spec.ts::mine')]),
+      { onConflict: (attempt) => conflicts.push(attempt) },
+    );
+
+    expect(conflicts).toEqual([1]);
+    expect(merged.generation).toBe(2);
+    expect(Object.keys((await store.load()).tests).sort()).toEqual([
+      'a.spec.ts::mine',
+      'b.spec.ts::other',
+    ]);
+  });
+
+  test('gives up after the maximum number of attempts', async () => {
+    const store = createFileTimingStore(path.join(tmpDir, 'timing.json'));
+
+    await expect(
+      mergeIntoStore(
+        withConcurrentMerge(store, artifact('b.spec.ts::other'), 3),
+        (existing) => mergeTimingData(existing, [artifact('a.spec.ts::mine')]),
+        { maxAttempts: 3 },
+      ),
+    ).rejects.toThrow('changed during each of 3 merge attempts');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  getTestTags,
+  getTitleTags,
+  matchesTagFilter,
+  normalizeTag,
+  parseTagDurations,
+} from '../src/core/tags.js';
+import type { DiscoveredTest } from '../src/core/types.js';
+
+function makeTest(titlePath: string[], tags?: string[]): DiscoveredTest {
+  return {
+    file: 'a.spec.ts',
+    title: titlePath[titlePath.length - 1] ?? '',
+    titlePath,
+    testId: ['a.spec.ts', ...titlePath].join('::'),
+    line: 1,
+    column: 1,
+    tags,
+  };
+}
+
+describe('getTitleTags', () => {
+  test('collects @tokens from every title', () => {
+    expect(getTitleTags(['Checkout @smoke', 'pays @slow @smoke'])).toEqual([
+      '@smoke',
+      '@slow',
+    ]);
+    expect(getTitleTags(['mails user@example'])).toEqual(['@example']);
+    expect(getTitleTags(['no tags'])).toEqual([]);
+  });
+});
+
+describe('getTestTags', () => {
+  test('prefers discovered tags over title tokens', () => {
+    expect(getTestTags(makeTest(['pays @slow'], ['@payments']))).toEqual([
+      '@payments',
+    ]);
+    expect(getTestTags(makeTest(['pays @slow']))).toEqual(['@slow']);
+  });
+});
+
+describe('normalizeTag', () => {
+  test('adds the @ prefix when missing', () => {
+    expect(normalizeTag('slow')).toBe('@slow');
+    expect(normalizeTag(' @slow ')).toBe('@slow');
+  });
+});
+
+describe('matchesTagFilter', () => {
+  const smoke = makeTest(['logs in'], ['@smoke']);
+  const slowSmoke = makeTest(['checks out'], ['@smoke', '@slow']);
+  const plain = makeTest(['browses']);
+
+  test('keeps every test without a filter', () => {
+    expect(
+      [smoke, slowSmoke, plain].every((t) => matchesTagFilter(t, {})),
+    ).toBe(true);
+  });
+
+  test('keeps tests with any grep tag', () => {
+    const filter = { grepTags: ['smoke', '@missing'] };
+    expect(matchesTagFilter(smoke, filter)).toBe(true);
+    expect(matchesTagFilter(plain, filter)).toBe(false);
+  });
+
+  test('drops tests with an excluded tag', () => {
+    const filter = { grepTags: ['@smoke'], excludeTags: ['slow'] };
+    expect(matchesTagFilter(smoke, filter)).toBe(true);
+    expect(matchesTagFilter(slowSmoke, filter)).toBe(false);
+  });
+});
+
+describe('parseTagDurations', () => {
+  test('parses tag=duration pairs', () => {
+    expect(parseTagDurations(['@slow=2m', 'smoke=10s'])).toEqual({
+      '@slow': 120000,
+      '@smoke': 10000,
+    });
+  });
+
+  test('rejects invalid values', () => {
+    expect(() => parseTagDurations(['@slow'])).toThrow(
+      'Invalid tag duration "@slow"',
+    );
+    expect(() => parseTagDurations(['=2m'])).toThrow('Invalid tag duration');
+    expect(() => parseTagDurations(['@slow=fast'])).toThrow('Invalid duration');
+  });
+});
@@ -0,0 +1,422 @@
+import { describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  filterTestListFiles,
+  markSerialGroups,
+  parsePlaywrightListOutput,
+  parsePlaywrightListOutputForProjects,
+  parseTestsFromSource,
+} from '../src/core/test-discovery.js';
+import type { PlaywrightListOutput } from '../src/core/types.js';
+import { buildProjectTestId, parseProjectTestId } from '../src/core/types.js';
+
+function makeListOutput(): PlaywrightListOutput {
+  return {
+    config: {
+      rootDir: '/project',
+      projects: [
+        { name: 'chromium', testDir: '/project/e2e' },
+        { name: 'firefox', testDir: '/project/e2e' },
+        { name: 'Mobile Chrome', testDir: '/project/mobile' },
+      ],
+    },
+    suites: [
+      {
+        title: 'login.spec.ts',
+        file: 'login.spec.ts',
+        suites: [
+          {
+            title: 'Login',
+            file: 'login.spec.ts',
+            specs: [
+              {
+                title: 'should login',
+                file: 'login.spec.ts',
+                line: 4,
+                column: 3,
+                tests: [
+                  { projectName: 'chromium' },
+                  { projectName: 'firefox' },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        title: 'touch.spec.ts',
+        file: 'touch.spec.ts',
+        specs: [
+          {
+            title: 'should swipe',
+            file: 'touch.spec.ts',
+            line: 3,
+            column: 1,
+            tests: [{ projectName: 'Mobile Chrome' }],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe('parsePlaywrightListOutputForProjects', () => {
+  test('attributes specs to the projects they run in', () => {
+    const result = parsePlaywrightListOutputForProjects(
+      JSON.stringify(makeListOutput()),
+    );
+
+    expect(result.rootDir).toBe('/project');
+    expect(result.projects.map((p) => p.name)).toEqual([
+      'chromium',
+      'firefox',
+      'Mobile Chrome',
+    ]);
+    expect(result.projects[0]?.tests.map((t) => t.testId)).toEqual([
+      'login.spec.ts::Login::should login',
+    ]);
+    expect(result.projects[1]?.tests.map((t) => t.project)).toEqual([
+      'firefox',
+    ]);
+    expect(result.projects[2]?.testDir).toBe('/project/mobile');
+    expect(result.projects[2]?.tests.map((t) => t.testId)).toEqual([
+      'touch.spec.ts::should swipe',
+    ]);
+  });
+
+  test('only loads the requested projects, in the requested order', () => {
+    const result = parsePlaywrightListOutputForProjects(
+      JSON.stringify(makeListOutput()),
+      ['Mobile Chrome', 'chromium'],
+    );
+
+    expect(result.projects.map((p) => p.name)).toEqual([
+      'Mobile Chrome',
+      'chromium',
+    ]);
+  });
+
+  test('attributes specs without per-project entries to every project', () => {
+    const output = makeListOutput();
+    for (const suite of output.suites) {
+      for (const spec of suite.specs ?? []) delete spec.tests;
+      for (const nested of suite.suites ?? []) {
+        for (const spec of nested.specs ?? []) delete spec.tests;
+      }
+    }
+
+    const result = parsePlaywrightListOutputForProjects(
+      JSON.stringify(output),
+      ['chromium', 'firefox'],
+    );
+
+    expect(result.projects[0]?.tests).toHaveLength(2);
+    expect(result.projects[1]?.tests).toHaveLength(2);
+  });
+
+  test('throws for an unknown project', () => {
+    expect(() =>
+      parsePlaywrightListOutputForProjects(JSON.stringify(makeListOutput()), [
+        'webkit',
+      ]),
+    ).toThrow('Project "webkit" not found');
+  });
+});
+
+describe('filterTestListFiles', () => {
+  test('keeps only the specs of kept files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-list-'));
+    const listPath = path.join(dir, 'test-list.json');
+    try {
+      fs.writeFileSync(listPath, JSON.stringify(makeListOutput()));
+
+      const filtered = filterTestListFiles(
+        listPath,
+        (file) => file === '/project/mobile/touch.spec.ts',
+      );
+
+      expect(filtered.config).toEqual(makeListOutput().config);
+      expect(filtered.suites.map((s) => s.file)).toEqual(['touch.spec.ts']);
+      expect(
+        parsePlaywrightListOutputForProjects(
+          JSON.stringify(filtered),
+        ).projects.map((p) => [p.name, p.tests.length]),
+      ).toEqual([
+        ['chromium', 0],
+        ['firefox', 0],
+        ['Mobile Chrome', 1],
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parsePlaywrightListOutput', () => {
+  test('keeps every spec when no project is named', () => {
+    const tests = parsePlaywrightListOutput(JSON.stringify(makeListOutput()));
+    expect(tests).toHaveLength(2);
+    expect(tests[0]?.project).toBe('chromium');
+  });
+
+  test('skips specs that do not run in the named project', () => {
+    const tests = parsePlaywrightListOutput(
+      JSON.stringify(makeListOutput()),
+      'firefox',
+    );
+    expect(tests.map((t) => t.testId)).toEqual([
+      'login.spec.ts::Login::should login',
+    ]);
+  });
+  test('skips output printed before the JSON', () => {
+    const output = [
+      'Warning: browserType.launch is deprecated',
+      '{ not json either',
+      JSON.stringify(makeListOutput(), null, 2),
+    ].join('\n');
+
+    // The second line starts with "{", so it is taken as the JSON start
+    expect(() => parsePlaywrightListOutput(output)).toThrow(
+      'Invalid JSON in Playwright --list output at line 2, column 3',
+    );
+    expect(
+      parsePlaywrightListOutput(
+        `Warning: deprecated\n${JSON.stringify(makeListOutput(), null, 2)}\nDone`,
+      ),
+    ).toHaveLength(2);
+  });
+
+  test('handles suites listed before the config', () => {
+    const { config, suites } = makeListOutput();
+    const tests = parsePlaywrightListOutput(
+      JSON.stringify({ suites, config }),
+      'Mobile Chrome',
+    );
+    expect(tests.map((t) => t.testId)).toEqual(['touch.spec.ts::should swipe']);
+  });
+
+  test('reports where truncated output ends', () => {
+    const output = JSON.stringify(makeListOutput(), null, 2);
+    expect(() => parsePlaywrightListOutput(output.slice(0, 200))).toThrow(
+      /Invalid JSON in Playwright --list output at line \d+, column \d+: Unexpected end of input/,
+    );
+  });
+});
+
+describe('tags and annotations', () => {
+  function makeTaggedList(): PlaywrightListOutput {
+    return {
+      config: {
+        rootDir: '/project',
+        projects: [
+          { name: 'chromium', testDir: '/project/e2e' },
+          { name: 'firefox', testDir: '/project/e2e' },
+        ],
+      },
+      suites: [
+        {
+          title: 'pay.spec.ts',
+          file: 'pay.spec.ts',
+          specs: [
+            {
+              title: 'pays @smoke',
+              file: 'pay.spec.ts',
+              line: 3,
+              column: 1,
+              tags: ['smoke', 'payments'],
+              tests: [
+                { projectName: 'chromium', annotations: [] },
+                {
+                  projectName: 'firefox',
+                  annotations: [{ type: 'slow' }],
+                },
+              ],
+            },
+            {
+              title: 'refunds @slow',
+              file: 'pay.spec.ts',
+              line: 9,
+              column: 1,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  test('reads tags and the annotations of the project', () => {
+    const chromium = parsePlaywrightListOutput(
+      JSON.stringify(makeTaggedList()),
+      'chromium',
+    );
+    const firefox = parsePlaywrightListOutput(
+      JSON.stringify(makeTaggedList()),
+      'firefox',
+    );
+
+    expect(chromium[0]?.tags).toEqual(['@smoke', '@payments']);
+    expect(chromium[0]?.annotations).toBeUndefined();
+    expect(firefox[0]?.annotations).toEqual([{ type: 'slow' }]);
+  });
+
+  test('falls back to title tags for outputs without tags', () => {
+    const tests = parsePlaywrightListOutput(JSON.stringify(makeTaggedList()));
+
+    expect(tests[1]?.tags).toEqual(['@slow']);
+  });
+
+  test('parseTestsFromSource reads tags from titles', () => {
+    const [tagged, plain] = parseTestsFromSource(
+      `test.describe('Checkout @smoke', () => {
+  test('pays @slow', async () => {});
+});
+test('browses', async () => {});`,
+      'checkout.spec.ts',
+    );
+
+    expect(tagged?.tags).toEqual(['@smoke', '@slow']);
+    expect(plain?.tags).toBeUndefined();
+  });
+});
+
+describe('serial groups', () => {
+  const source = `
+import { test } from '@playwright/test';
+
+test.describe('Checkout', () => {
+  test.describe.serial('Payment', () => {
+    test('adds card', async () => {});
+    test.describe('Review', () => {
+      test('confirms', async () => {});
+    });
+  });
+
+  test.describe('Cart', () => {
+    test.describe.configure({ mode: 'serial' });
+    test('adds item', async () => {});
+    test('removes item', async () => {});
+  });
+
+  test('browses', async () => {});
+});
+`;
+
+  test('parseTestsFromSource groups tests of serial describe blocks', () => {
+    const groups = Object.fromEntries(
+      parseTestsFromSource(source, 'checkout.spec.ts').map((t) => [
+        t.title,
+        t.serialGroup,
+      ]),
+    );
+
+    expect(groups).toEqual({
+      'adds card': 'checkout.spec.ts::Checkout::Payment',
+      confirms: 'checkout.spec.ts::Checkout::Payment',
+      'adds item': 'checkout.spec.ts::Checkout::Cart',
+      'removes item': 'checkout.spec.ts::Checkout::Cart',
+      browses: undefined,
+    });
+  });
+
+  test('parseTestsFromSource treats a top-level configure as a serial file', () => {
+    const tests = parseTestsFromSource(
+      `test.describe.configure({ mode: 'serial' });
+test('first', async () => {});
+test.describe('Nested', () => {
+  test('second', async () => {});
+});`,
+      'flow.spec.ts',
+    );
+
+    expect(tests.map((t) => t.serialGroup)).toEqual([
+      'flow.spec.ts',
+      'flow.spec.ts',
+    ]);
+  });
+
+  test('markSerialGroups reads the source of listed tests', () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'serial-groups-'));
+    try {
+      fs.writeFileSync(path.join(testDir, 'checkout.spec.ts'), source);
+      const list: PlaywrightListOutput = {
+        config: {
+          rootDir: testDir,
+          projects: [{ name: 'chromium', testDir }],
+        },
+        suites: [
+          {
+            title: 'checkout.spec.ts',
+            file: 'checkout.spec.ts',
+            suites: [
+              {
+                title: 'Checkout',
+                file: 'checkout.spec.ts',
+                specs: [
+                  {
+                    title: 'browses',
+                    file: 'checkout.spec.ts',
+                    line: 19,
+                    column: 3,
+                  },
+                ],
+                suites: [
+                  {
+                    title: 'Cart',
+                    file: 'checkout.spec.ts',
+                    specs: [
+                      {
+                        title: 'adds item',
+                        file: 'checkout.spec.ts',
+                        line: 15,
+                        column: 5,
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const tests = parsePlaywrightListOutput(JSON.stringify(list));
+
+      expect(tests.map((t) => [t.title, t.serialGroup])).toEqual([
+        ['browses', undefined],
+        ['adds item', 'checkout.spec.ts::Checkout::Cart'],
+      ]);
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test('markSerialGroups leaves tests of unreadable files ungrouped', () => {
+    const tests = parseTestsFromSource(source, 'missing.spec.ts').map((t) => ({
+      ...t,
+      serialGroup: undefined,
+    }));
+
+    markSerialGroups(tests, '/nonexistent');
+
+    expect(tests.every((t) => t.serialGroup === undefined)).toBe(true);
+  });
+});
+
+describe('project-qualified test IDs', () => {
+  test('roundtrip through buildProjectTestId and parseProjectTestId', () => {
+    const id = buildProjectTestId('Mobile Chrome', 'a.spec.ts::Suite::test');
+    expect(id).toBe('[Mobile Chrome] › a.spec.ts::Suite::test');
+    expect(parseProjectTestId(id)).toEqual({
+      project: 'Mobile Chrome',
+      testId: 'a.spec.ts::Suite::test',
+    });
+  });
+
+  test('plain test IDs have no project', () => {
+    expect(parseProjectTestId('a.spec.ts::test')).toEqual({
+      testId: 'a.spec.ts::test',
+    });
+  });
+});
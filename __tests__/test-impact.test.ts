@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  buildImportGraph,
+  findAffectedFiles,
+  type ImpactOptions,
+  parseImpactConfig,
+  parseImports,
+  resolveImport,
+} from '../src/core/test-impact.js';
+
+let root: string;
+const file = (relative: string) => path.join(root, relative);
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-impact-'));
+  const files: Record<string, string> = {
+    'e2e/checkout.spec.ts': [
+      "import { test } from '@playwright/test';",
+      "import { CartPage } from '../pages/cart';",
+      "import { login } from '@fixtures/auth';",
+    ].join('\n'),
+    'e2e/login.spec.ts': "import { login } from '../fixtures/auth.js';",
+    'e2e/admin.spec.ts': "import { test } from '@playwright/test';",
+    'pages/cart.ts': "export * from './base';",
+    'pages/base/index.ts': 'export class BasePage {}',
+    'fixtures/auth.ts': "const users = require('../data/users.json');",
+    'data/users.json': '[]',
+  };
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(file(name)), { recursive: true });
+    fs.writeFileSync(file(name), content);
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+function options(config: ImpactOptions['config'] = {}): ImpactOptions {
+  return {
+    baseDir: root,
+    config: { paths: { '@fixtures/*': ['fixtures/*'] }, ...config },
+  };
+}
+
+const specs = () => [
+  file('e2e/checkout.spec.ts'),
+  file('e2e/login.spec.ts'),
+  file('e2e/admin.spec.ts'),
+];
+
+describe('parseImports', () => {
+  test('finds static, side-effect, dynamic and require imports', () => {
+    const source = [
+      "import { a } from './a';",
+      "import type { B } from './b';",
+      "export * from './c';",
+      "import './d';",
+      "const e = await import('./e');",
+      "const f = require('./f');",
+      "import { a as again } from './a';",
+    ].join('\n');
+
+    expect(parseImports(source)).toEqual([
+      './a',
+      './b',
+      './c',
+      './d',
+      './e',
+      './f',
+    ]);
+  });
+});
+
+describe('resolveImport', () => {
+  test('resolves extensions, .js sources, index files and aliases', () => {
+    const from = file('e2e/checkout.spec.ts');
+
+    expect(resolveImport('../pages/cart', from, options())).toBe(
+      file('pages/cart.ts'),
+    );
+    expect(resolveImport('../fixtures/auth.js', from, options())).toBe(
+      file('fixtures/auth.ts'),
+    );
+    expect(resolveImport('../pages/base', from, options())).toBe(
+      file('pages/base/index.ts'),
+    );
+    expect(resolveImport('@fixtures/auth', from, options())).toBe(
+      file('fixtures/auth.ts'),
+    );
+    expect(resolveImport('@playwright/test', from, options())).toBeUndefined();
+    expect(resolveImport('./missing', from, options())).toBeUndefined();
+  });
+});
+
+describe('buildImportGraph', () => {
+  test('follows local imports from the entries', () => {
+    const graph = buildImportGraph([file('e2e/checkout.spec.ts')], options());
+
+    expect(graph.get(file('e2e/checkout.spec.ts'))).toEqual([
+      file('pages/cart.ts'),
+      file('fixtures/auth.ts'),
+    ]);
+    expect(graph.get(file('pages/cart.ts'))).toEqual([
+      file('pages/base/index.ts'),
+    ]);
+    expect(graph.get(file('fixtures/auth.ts'))).toEqual([
+      file('data/users.json'),
+    ]);
+    expect(graph.get(file('data/users.json'))).toEqual([]);
+  });
+});
+
+describe('findAffectedFiles', () => {
+  test('selects specs that import a changed file transitively', () => {
+    expect(
+      findAffectedFiles(specs(), [file('pages/base/index.ts')], options()),
+    ).toEqual({ files: [file('e2e/checkout.spec.ts')] });
+    expect(
+      findAffectedFiles(specs(), [file('data/users.json')], options()).files,
+    ).toEqual([file('e2e/checkout.spec.ts'), file('e2e/login.spec.ts')]);
+  });
+
+  test('selects changed specs and nothing for unrelated changes', () => {
+    expect(
+      findAffectedFiles(
+        specs(),
+        [file('e2e/admin.spec.ts'), file('README.md')],
+        options(),
+      ).files,
+    ).toEqual([file('e2e/admin.spec.ts')]);
+    expect(
+      findAffectedFiles(specs(), [file('README.md')], options()).files,
+    ).toEqual([]);
+  });
+
+  test('adds configured dependencies', () => {
+    const result = findAffectedFiles(
+      specs(),
+      [file('docs/admin-users.csv')],
+      options({ dependencies: { 'docs/*.csv': ['e2e/admin.spec.ts'] } }),
+    );
+
+    expect(result.files).toEqual([file('e2e/admin.spec.ts')]);
+  });
+
+  test('selects every spec when a runAll file changed', () => {
+    const result = findAffectedFiles(
+      specs(),
+      [file('pages/cart.ts'), file('playwright.config.ts')],
+      options({ runAll: ['playwright.config.ts', 'package.json'] }),
+    );
+
+    expect(result).toEqual({
+      files: specs(),
+      runAll: file('playwright.config.ts'),
+    });
+  });
+});
+
+describe('parseImpactConfig', () => {
+  test('parses paths, dependencies and runAll', () => {
+    const config = {
+      paths: { '@pages/*': ['pages/*'] },
+      dependencies: { 'data/**': ['e2e/**'] },
+      runAll: ['package.json'],
+    };
+
+    expect(parseImpactConfig(JSON.stringify(config))).toEqual(config);
+  });
+
+  test('rejects invalid configs', () => {
+    expect(() => parseImpactConfig('not json')).toThrow('not valid JSON');
+    expect(() => parseImpactConfig('[]')).toThrow('must hold an object');
+    expect(() => parseImpactConfig('{"paths": {"@a/*": "a/*"}}')).toThrow(
+      'Invalid "paths"',
+    );
+    expect(() => parseImpactConfig('{"runAll": "package.json"}')).toThrow(
+      'Invalid "runAll"',
+    );
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, expect, test } from 'bun:test';
-import { toTestListFile, toTestListFormat } from '../src/core/test-id.js';
+import {
+  normalizeTestFilePath,
+  toTestListFile,
+  toTestListFormat,
+} from '../src/core/test-id.js';
 
 describe('toTestListFormat', () => {
   test('converts simple test entry (no describe block)', () => {
@@ -104,6 +108,31 @@ describe('toTestListFormat', () => {
   });
 });
 
+describe('toTestListFormat with project', () => {
+  test('prefixes the line with the project name', () => {
+    expect(
+      toTestListFormat({
+        file: 'login.spec.ts',
+        titlePath: ['Login', 'should login'],
+        project: 'Mobile Chrome',
+      }),
+    ).toBe('[Mobile Chrome] › login.spec.ts › Login › should login');
+  });
+
+  test('keeps testDirPrefix after the project prefix', () => {
+    expect(
+      toTestListFormat(
+        {
+          file: 'login.spec.ts',
+          titlePath: ['should login'],
+          project: 'firefox',
+        },
+        'src/test/e2e',
+      ),
+    ).toBe('[firefox] › src/test/e2e/login.spec.ts › should login');
+  });
+});
+
 describe('toTestListFile', () => {
   test('produces test-list content from array of test entries', () => {
     const result = toTestListFile([
@@ -159,3 +188,31 @@ describe('toTestListFile', () => {
     );
   });
 });
+
+describe('normalizeTestFilePath', () => {
+  test('makes rootDir-relative paths relative to an absolute testDir', () => {
+    expect(
+      normalizeTestFilePath(
+        'src/test/e2e/features/a.spec.ts',
+        '/project',
+        '/project/src/test/e2e',
+      ),
+    ).toBe('features/a.spec.ts');
+  });
+
+  test('resolves a testDir relative to rootDir', () => {
+    expect(
+      normalizeTestFilePath(
+        '/project/src/test/e2e/a.spec.ts',
+        '/project',
+        'src/test/e2e',
+      ),
+    ).toBe('a.spec.ts');
+  });
+
+  test('falls back to the basename for files outside testDir', () => {
+    expect(
+      normalizeTestFilePath('/elsewhere/a.spec.ts', '/project', '/project/e2e'),
+    ).toBe('a.spec.ts');
+  });
+});
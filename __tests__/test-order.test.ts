@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  getFailurePriorities,
+  getFailurePriority,
+  orderFailuresFirst,
+} from '../src/core/test-order.js';
+import type {
+  TestOutcome,
+  TestWithDuration,
+  TimingData,
+} from '../src/core/types.js';
+
+function timingData(histories: Record<string, TestOutcome[]>): TimingData {
+  return {
+    version: 3,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    tests: Object.fromEntries(
+      Object.entries(histories).map(([id, history]) => [
+        id,
+        {
+          file: id.split('::')[0] ?? '',
+          duration: 1000,
+          runs: history.length,
+          lastRun: '2024-01-01T00:00:00.000Z',
+          history,
+        },
+      ]),
+    ),
+  };
+}
+
+function input(
+  testId: string,
+  duration: number,
+  serialGroup?: string,
+): TestWithDuration {
+  return { testId, file: 'a.spec.ts', duration, estimated: false, serialGroup };
+}
+
+describe('getFailurePriority', () => {
+  test('ranks recent failures above flaky runs', () => {
+    expect(getFailurePriority({ history: ['passed', 'failed'] })).toBe(2);
+    expect(getFailurePriority({ history: ['timedOut', 'flaky'] })).toBe(2);
+    expect(getFailurePriority({ history: ['flaky', 'passed'] })).toBe(1);
+    expect(getFailurePriority({ history: ['passed'] })).toBe(0);
+    expect(getFailurePriority(undefined)).toBe(0);
+  });
+
+  test('only looks at the most recent runs', () => {
+    const history: TestOutcome[] = ['failed', 'passed', 'passed', 'passed'];
+
+    expect(getFailurePriority({ history }, 3)).toBe(0);
+    expect(getFailurePriority({ history }, 4)).toBe(2);
+  });
+});
+
+describe('getFailurePriorities', () => {
+  test('gives groups the highest priority of their tests', () => {
+    const data = timingData({
+      'a.spec.ts::one': ['passed'],
+      'a.spec.ts::two': ['flaky'],
+      'a.spec.ts::three': ['failed'],
+    });
+
+    const priorities = getFailurePriorities(
+      [
+        input('a.spec.ts::one', 1000),
+        input('a.spec.ts::two', 1000, 'group'),
+        input('[firefox] › a.spec.ts::three', 1000),
+      ],
+      data,
+    );
+
+    expect(priorities).toEqual({
+      group: 1,
+      '[firefox] › a.spec.ts::three': 2,
+    });
+  });
+});
+
+describe('orderFailuresFirst', () => {
+  test('orders each shard by priority, then longest first', () => {
+    const items = [
+      input('a', 1000),
+      input('b', 5000),
+      input('c', 2000),
+      input('d', 3000),
+      input('e', 4000),
+    ];
+    const assignments = [
+      { shardIndex: 1, tests: ['a', 'b', 'c'], expectedDuration: 8000 },
+      { shardIndex: 2, tests: ['d', 'e'], expectedDuration: 7000 },
+    ];
+
+    const ordered = orderFailuresFirst(assignments, items, { a: 2, c: 1 });
+
+    expect(ordered).toEqual([
+      { shardIndex: 1, tests: ['a', 'c', 'b'], expectedDuration: 8000 },
+      { shardIndex: 2, tests: ['e', 'd'], expectedDuration: 7000 },
+    ]);
+    expect(assignments[0]?.tests).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  determineOutcome,
+  measureSetupTime,
+  summarizeAttempts,
+  summarizeFileSetup,
+} from '../src/core/test-results.js';
+
+describe('summarizeAttempts', () => {
+  test('single passing attempt', () => {
+    expect(summarizeAttempts([[{ duration: 1500 }]])).toEqual({
+      firstAttempt: 1500,
+      retries: 0,
+      total: 1500,
+    });
+  });
+
+  test('separates retries from the first attempt', () => {
+    expect(
+      summarizeAttempts([
+        [{ duration: 1000 }, { duration: 90000 }, { duration: 1100 }],
+      ]),
+    ).toEqual({ firstAttempt: 1000, retries: 2, total: 92100 });
+  });
+
+  test('adds up the first attempt of each run', () => {
+    expect(
+      summarizeAttempts([
+        [{ duration: 1000 }],
+        [{ duration: 2000 }, { duration: 500 }],
+      ]),
+    ).toEqual({ firstAttempt: 3000, retries: 1, total: 3500 });
+  });
+
+  test('no results', () => {
+    expect(summarizeAttempts([])).toEqual({
+      firstAttempt: 0,
+      retries: 0,
+      total: 0,
+    });
+  });
+});
+
+describe('determineOutcome', () => {
+  test('passed on first attempt', () => {
+    expect(
+      determineOutcome([{ results: [{ duration: 1, status: 'passed' }] }]),
+    ).toBe('passed');
+  });
+
+  test('passed after a failed attempt is flaky', () => {
+    expect(
+      determineOutcome([
+        {
+          results: [
+            { duration: 1, status: 'failed' },
+            { duration: 1, status: 'passed' },
+          ],
+        },
+      ]),
+    ).toBe('flaky');
+  });
+
+  test('last attempt timed out', () => {
+    expect(
+      determineOutcome([
+        {
+          results: [
+            { duration: 1, status: 'failed' },
+            { duration: 1, status: 'timedOut' },
+          ],
+        },
+      ]),
+    ).toBe('timedOut');
+  });
+
+  test('all attempts skipped', () => {
+    expect(
+      determineOutcome([{ results: [{ duration: 0, status: 'skipped' }] }]),
+    ).toBe('skipped');
+    expect(determineOutcome([{ results: [] }])).toBe('skipped');
+  });
+
+  test('prefers the overall Playwright status (expected failures pass)', () => {
+    expect(
+      determineOutcome([
+        { status: 'expected', results: [{ duration: 1, status: 'failed' }] },
+      ]),
+    ).toBe('passed');
+    expect(
+      determineOutcome([
+        { status: 'unexpected', results: [{ duration: 1, status: 'passed' }] },
+      ]),
+    ).toBe('failed');
+  });
+
+  test('most severe outcome wins across runs', () => {
+    expect(
+      determineOutcome([
+        { results: [{ duration: 1, status: 'passed' }] },
+        { results: [{ duration: 1, status: 'failed' }] },
+      ]),
+    ).toBe('failed');
+  });
+});
+
+describe('measureSetupTime', () => {
+  test('adds up beforeAll and afterAll hooks nested in hook groups', () => {
+    const setup = measureSetupTime([
+      {
+        title: 'Before Hooks',
+        duration: 900,
+        steps: [
+          { title: 'beforeAll hook', duration: 700 },
+          { title: 'fixture: page', duration: 150 },
+        ],
+      },
+      { title: 'click login', duration: 300 },
+      {
+        title: 'After Hooks',
+        duration: 250,
+        steps: [{ title: 'afterAll hook', duration: 200 }],
+      },
+    ]);
+
+    expect(setup).toBe(900);
+  });
+
+  test('counts fixtures set up by a hook only once', () => {
+    const setup = measureSetupTime([
+      {
+        title: 'beforeAll hook',
+        duration: 500,
+        steps: [{ title: 'fixture: browser', duration: 400 }],
+      },
+    ]);
+
+    expect(setup).toBe(500);
+  });
+
+  test('is zero without steps', () => {
+    expect(measureSetupTime(undefined)).toBe(0);
+  });
+});
+
+describe('summarizeFileSetup', () => {
+  test('averages the hook time over the workers that ran a file', () => {
+    const setup = summarizeFileSetup([
+      { file: 'a.spec.ts', workerIndex: 0, setup: 1000 },
+      { file: 'a.spec.ts', workerIndex: 0, setup: 200 },
+      { file: 'a.spec.ts', workerIndex: 1, setup: 1400 },
+      { file: 'b.spec.ts', workerIndex: 1, setup: 0 },
+    ]);
+
+    expect(setup).toEqual({ 'a.spec.ts': 1300 });
+  });
+});
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  type ReporterProject,
+  type ReporterSuite,
+  type ReporterTestCase,
+  type ReporterTestResult,
+  TimingReporter,
+} from '../src/core/timing-reporter.js';
+import type { ShardTimingArtifact } from '../src/core/types.js';
+
+/**
+ * Build the suite chain Playwright creates for a test:
+ * root › project › file › describe...
+ */
+function makeTest(
+  project: ReporterProject,
+  file: string,
+  titles: string[],
+  outcome: ReturnType<ReporterTestCase['outcome']> = 'expected',
+  repeatEachIndex = 0,
+): ReporterTestCase {
+  const root: ReporterSuite = {
+    title: '',
+    type: 'root',
+    project: () => undefined,
+  };
+  const projectSuite: ReporterSuite = {
+    title: project.name,
+    type: 'project',
+    parent: root,
+    project: () => project,
+  };
+  let parent: ReporterSuite = {
+    title: path.basename(file),
+    type: 'file',
+    parent: projectSuite,
+    project: () => project,
+  };
+  for (const title of titles.slice(0, -1)) {
+    parent = { title, type: 'describe', parent, project: () => project };
+  }
+
+  return {
+    title: titles[titles.length - 1] ?? '',
+    parent,
+    location: { file },
+    repeatEachIndex,
+    outcome: () => outcome,
+  };
+}
+
+describe('TimingReporter', () => {
+  let tmpDir: string;
+  const chromium = { name: 'chromium', testDir: '/project/src/test/e2e' };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'timing-reporter-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function readArtifact(name: string): ShardTimingArtifact {
+    return JSON.parse(
+      fs.readFileSync(path.join(tmpDir, name), 'utf-8'),
+    ) as ShardTimingArtifact;
+  }
+
+  test('writes the same test IDs as extract-timing', async () => {
+    const reporter = new TimingReporter({ outputDir: tmpDir, shard: 2 });
+    reporter.onBegin({ rootDir: '/project', shard: null });
+    reporter.onTestEnd(
+      makeTest(chromium, '/project/src/test/e2e/features/account.spec.ts', [
+        'Account Page',
+        'Tabs',
+        'should render initial tab',
+      ]),
+      { retry: 0, duration: 1500, status: 'passed' },
+    );
+    await reporter.onEnd();
+
+    const artifact = readArtifact('timing-shard-2-chromium.json');
+    expect(artifact.shard).toBe(2);
+    expect(artifact.project).toBe('chromium');
+    expect(artifact.tests).toEqual({
+      'features/account.spec.ts::Account Page::Tabs::should render initial tab': 1500,
+    });
+  });
+
+  test('records attempts and outcomes of retried tests', async () => {
+    const reporter = new TimingReporter({ outputDir: tmpDir });
+    reporter.onBegin({ rootDir: '/project', shard: null });
+
+    let outcome: ReturnType<ReporterTestCase['outcome']> = 'unexpected';
+    const flaky = makeTest(chromium, '/project/src/test/e2e/a.spec.ts', [
+      'flaky',
+    ]);
+    flaky.outcome = () => outcome;
+    // onTestEnd fires once per attempt with the same test case
+    reporter.onTestEnd(flaky, { retry: 0, duration: 1000, status: 'failed' });
+    outcome = 'flaky';
+    reporter.onTestEnd(flaky, { retry: 1, duration: 1200, status: 'passed' });
+    await reporter.onEnd();
+
+    const artifact = readArtifact('timing-shard-1-chromium.json');
+    expect(artifact.tests['a.spec.ts::flaky']).toBe(2200);
+    expect(artifact.attempts?.['a.spec.ts::flaky']).toEqual({
+      firstAttempt: 1000,
+      retries: 1,
+      total: 2200,
+    });
+    expect(artifact.outcomes?.['a.spec.ts::flaky']).toBe('flaky');
+  });
+
+  test('merges repetitions from --repeat-each', async () => {
+    const reporter = new TimingReporter({ outputDir: tmpDir });
+    reporter.onBegin({ rootDir: '/project', shard: null });
+    const file = '/project/src/test/e2e/a.spec.ts';
+    const results: Array<[ReporterTestCase, ReporterTestResult]> = [
+      [
+        makeTest(chromium, file, ['repeated'], 'expected', 0),
+        { retry: 0, duration: 1000, status: 'passed' },
+      ],
+      [
+        makeTest(chromium, file, ['repeated'], 'unexpected', 1),
+        { retry: 0, duration: 3000, status: 'failed' },
+      ],
+      [
+        makeTest(chromium, file, ['repeated'], 'expected', 2),
+        { retry: 0, duration: 2000, status: 'passed' },
+      ],
+    ];
+    for (const [test, result] of results) {
+      reporter.onTestEnd(test, result);
+    }
+    await reporter.onEnd();
+
+    const artifact = readArtifact('timing-shard-1-chromium.json');
+    expect(artifact.tests['a.spec.ts::repeated']).toBe(6000);
+    expect(artifact.attempts?.['a.spec.ts::repeated']).toEqual({
+      firstAttempt: 6000,
+      retries: 0,
+      total: 6000,
+    });
+    expect(artifact.outcomes?.['a.spec.ts::repeated']).toBe('failed');
+  });
+
+  test('records beforeAll and afterAll time per file', async () => {
+    const reporter = new TimingReporter({ outputDir: tmpDir });
+    reporter.onBegin({ rootDir: '/project', shard: null });
+    const file = '/project/src/test/e2e/a.spec.ts';
+    reporter.onTestEnd(makeTest(chromium, file, ['first']), {
+      retry: 0,
+      duration: 1500,
+      status: 'passed',
+      workerIndex: 0,
+      steps: [
+        {
+          title: 'Before Hooks',
+          duration: 1000,
+          steps: [{ title: 'beforeAll hook', duration: 800, steps: [] }],
+        },
+      ],
+    });
+    reporter.onTestEnd(makeTest(chromium, file, ['last']), {
+      retry: 0,
+      duration: 600,
+      status: 'passed',
+      workerIndex: 0,
+      steps: [{ title: 'afterAll hook', duration: 200, steps: [] }],
+    });
+    await reporter.onEnd();
+
+    expect(readArtifact('timing-shard-1-chromium.json').setup).toEqual({
+      'a.spec.ts': 1000,
+    });
+  });
+
+  test('writes one artifact per project', async () => {
+    const reporter = new TimingReporter({ outputDir: tmpDir });
+    reporter.onBegin({ rootDir: '/project', shard: { current: 3, total: 4 } });
+    const mobile = { name: 'Mobile Chrome', testDir: 'src/test/e2e' };
+    for (const project of [chromium, mobile]) {
+      reporter.onTestEnd(
+        makeTest(project, '/project/src/test/e2e/a.spec.ts', ['A', 'works']),
+        { retry: 0, duration: 500, status: 'passed' },
+      );
+    }
+    await reporter.onEnd();
+
+    expect(fs.readdirSync(tmpDir).sort()).toEqual([
+      'timing-shard-3-chromium.json',
+      'timing-shard-3-mobile-chrome.json',
+    ]);
+    expect(readArtifact('timing-shard-3-mobile-chrome.json').tests).toEqual({
+      'a.spec.ts::A::works': 500,
+    });
+  });
+
+  test('records skipped tests as skipped', async () => {
+    const reporter = new TimingReporter({ outputDir: tmpDir });
+    reporter.onBegin({ rootDir: '/project', shard: null });
+    reporter.onTestEnd(
+      makeTest(
+        chromium,
+        '/project/src/test/e2e/a.spec.ts',
+        ['skipped'],
+        'skipped',
+      ),
+      { retry: 0, duration: 0, status: 'skipped' },
+    );
+    await reporter.onEnd();
+
+    expect(
+      readArtifact('timing-shard-1-chromium.json').outcomes?.[
+        'a.spec.ts::skipped'
+      ],
+    ).toBe('skipped');
+  });
+});
@@ -4,12 +4,15 @@ import * as os from 'node:os';
 import * as path from 'node:path';
 import {
   calculateEMA,
+  calculateEMVariance,
   getFileDuration,
+  getFileSetupTimes,
   getTestDuration,
   loadTimingData,
   mergeTimingData,
   pruneTimingData,
   saveTimingData,
+  summarizeOutcomeHistory,
 } from '../src/core/timing-store.js';
 import type { ShardTimingArtifact, TimingData } from '../src/core/types.js';
 
@@ -42,6 +45,21 @@ describe('calculateEMA', () => {
   });
 });
 
+describe('calculateEMVariance', () => {
+  test('is zero for a steady duration', () => {
+    expect(calculateEMVariance(1000, 0, 1000)).toBe(0);
+  });
+
+  test('grows with the deviation from the mean', () => {
+    // diff = 100, variance = 0.7 * (0 + 0.3 * 100²) = 2100
+    expect(calculateEMVariance(1000, 0, 1100)).toBe(2100);
+  });
+
+  test('decays previous variance when measurements stabilise', () => {
+    expect(calculateEMVariance(1000, 10000, 1000)).toBe(7000);
+  });
+});
+
 describe('file operations', () => {
   let tempDir: string;
 
@@ -55,7 +73,7 @@ describe('file operations', () => {
 
   test('loadTimingData returns empty data for non-existent file', () => {
     const result = loadTimingData(path.join(tempDir, 'nonexistent.json'));
-    expect(result.version).toBe(2);
+    expect(result.version).toBe(3);
     expect(Object.keys(result.tests).length).toBe(0);
   });
 
@@ -76,13 +94,13 @@ describe('file operations', () => {
     fs.writeFileSync(filePath, JSON.stringify(oldData));
 
     const result = loadTimingData(filePath);
-    // Should return empty v2 data since v1 is no longer supported
-    expect(result.version).toBe(2);
+    // Should return empty v3 data since v1 is no longer supported
+    expect(result.version).toBe(3);
     expect(Object.keys(result.tests).length).toBe(0);
   });
 
-  test('loadTimingData loads v2 data', () => {
-    const data: TimingData = {
+  test('loadTimingData migrates v2 data to v3', () => {
+    const data = {
       version: 2,
       updatedAt: '2024-01-01T00:00:00Z',
       tests: {
@@ -99,13 +117,50 @@ describe('file operations', () => {
     fs.writeFileSync(filePath, JSON.stringify(data));
 
     const result = loadTimingData(filePath);
-    expect(result.version).toBe(2);
+    expect(result.version).toBe(3);
     expect(result.tests['a.spec.ts::test1']?.duration).toBe(1000);
+    expect(result.tests['a.spec.ts::test1']?.projects).toBeUndefined();
+  });
+
+  test('loadTimingData loads v3 data with per-project timing', () => {
+    const data: TimingData = {
+      version: 3,
+      updatedAt: '2024-01-01T00:00:00Z',
+      tests: {
+        'a.spec.ts::test1': {
+          file: 'a.spec.ts',
+          duration: 1500,
+          runs: 2,
+          lastRun: '2024-01-01T00:00:00Z',
+          projects: {
+            chromium: {
+              duration: 1000,
+              runs: 1,
+              lastRun: '2024-01-01T00:00:00Z',
+            },
+            webkit: {
+              duration: 2000,
+              runs: 1,
+              lastRun: '2024-01-01T00:00:00Z',
+            },
+          },
+        },
+      },
+    };
+
+    const filePath = path.join(tempDir, 'timing.json');
+    fs.writeFileSync(filePath, JSON.stringify(data));
+
+    const result = loadTimingData(filePath);
+    expect(result.version).toBe(3);
+    expect(result.tests['a.spec.ts::test1']?.projects?.webkit?.duration).toBe(
+      2000,
+    );
   });
 
   test('saveTimingData writes valid JSON', () => {
     const data: TimingData = {
-      version: 2,
+      version: 3,
       updatedAt: '2024-01-01T00:00:00Z',
       tests: {
         'a.spec.ts::test1': {
@@ -122,7 +177,7 @@ describe('file operations', () => {
 
     const content = fs.readFileSync(filePath, 'utf-8');
     const loaded = JSON.parse(content);
-    expect(loaded.version).toBe(2);
+    expect(loaded.version).toBe(3);
   });
 });
 
@@ -143,9 +198,78 @@ describe('mergeTimingData', () => {
     expect(result.tests['a.spec.ts::test1']?.file).toBe('a.spec.ts');
   });
 
+  test('applies EMA to measured file setup times', () => {
+    const first = mergeTimingData(null, [
+      {
+        shard: 1,
+        project: 'default',
+        tests: { 'a.spec.ts::test1': 1000 },
+        setup: { 'a.spec.ts': 1000 },
+      },
+    ]);
+    const second = mergeTimingData(first, [
+      {
+        shard: 1,
+        project: 'default',
+        tests: { 'a.spec.ts::test1': 1000 },
+        setup: { 'a.spec.ts': 2000 },
+      },
+    ]);
+
+    expect(second.files?.['a.spec.ts']?.setup).toBe(1300);
+    expect(second.files?.['a.spec.ts']?.runs).toBe(2);
+    expect(getFileSetupTimes(second)).toEqual({ 'a.spec.ts': 1300 });
+  });
+
+  test('keeps file setup times per project', () => {
+    const merged = mergeTimingData(null, [
+      {
+        shard: 1,
+        project: 'chromium',
+        tests: { 'a.spec.ts::test1': 1000 },
+        setup: { 'a.spec.ts': 1000 },
+      },
+      {
+        shard: 1,
+        project: 'firefox',
+        tests: { 'a.spec.ts::test1': 1000 },
+        setup: { 'a.spec.ts': 3000 },
+      },
+    ]);
+
+    expect(getFileSetupTimes(merged, 'chromium')).toEqual({
+      'a.spec.ts': 1000,
+    });
+    expect(getFileSetupTimes(merged, 'firefox')).toEqual({ 'a.spec.ts': 3000 });
+    // Projects without their own measurement use the cross-project setup
+    expect(getFileSetupTimes(merged, 'webkit')).toEqual({ 'a.spec.ts': 1600 });
+  });
+
+  test('leaves files out without setup measurements', () => {
+    const result = mergeTimingData(null, [
+      { shard: 1, project: 'default', tests: { 'a.spec.ts::test1': 1000 } },
+    ]);
+
+    expect(result.files).toBeUndefined();
+  });
+
+  test('advances the generation', () => {
+    const artifact: ShardTimingArtifact = {
+      shard: 1,
+      project: 'default',
+      tests: { 'a.spec.ts::test1': 1000 },
+    };
+
+    const first = mergeTimingData(null, [artifact]);
+    const second = mergeTimingData(first, [artifact]);
+
+    expect(first.generation).toBe(1);
+    expect(second.generation).toBe(2);
+  });
+
   test('applies EMA to existing tests', () => {
     const existing: TimingData = {
-      version: 2,
+      version: 3,
       updatedAt: '2024-01-01T00:00:00Z',
       tests: {
         'a.spec.ts::test1': {
@@ -172,6 +296,125 @@ describe('mergeTimingData', () => {
     expect(result.tests['a.spec.ts::test1']?.runs).toBe(6);
   });
 
+  test('feeds the EMA with the first attempt by default', () => {
+    const artifact: ShardTimingArtifact = {
+      shard: 1,
+      project: 'default',
+      tests: { 'a.spec.ts::flaky': 62000 },
+      attempts: {
+        'a.spec.ts::flaky': { firstAttempt: 1000, retries: 2, total: 62000 },
+      },
+    };
+
+    const result = mergeTimingData(null, [artifact]);
+    const timing = result.tests['a.spec.ts::flaky'];
+
+    expect(timing?.duration).toBe(1000);
+    expect(timing?.retries).toBe(2);
+    expect(timing?.retryDuration).toBe(61000);
+  });
+
+  test('feeds the EMA with the total when requested', () => {
+    const artifact: ShardTimingArtifact = {
+      shard: 1,
+      project: 'default',
+      tests: { 'a.spec.ts::flaky': 62000 },
+      attempts: {
+        'a.spec.ts::flaky': { firstAttempt: 1000, retries: 2, total: 62000 },
+      },
+    };
+
+    const result = mergeTimingData(null, [artifact], 0.3, 'total');
+
+    expect(result.tests['a.spec.ts::flaky']?.duration).toBe(62000);
+  });
+
+  test('accumulates retries across merges', () => {
+    const artifact: ShardTimingArtifact = {
+      shard: 1,
+      project: 'default',
+      tests: { 'a.spec.ts::flaky': 3000 },
+      attempts: {
+        'a.spec.ts::flaky': { firstAttempt: 1000, retries: 1, total: 3000 },
+      },
+    };
+
+    const result = mergeTimingData(mergeTimingData(null, [artifact]), [
+      artifact,
+    ]);
+
+    expect(result.tests['a.spec.ts::flaky']?.retries).toBe(2);
+    expect(result.tests['a.spec.ts::flaky']?.retryDuration).toBe(4000);
+  });
+
+  test('does not let skipped tests pull the EMA down', () => {
+    const existing = mergeTimingData(null, [
+      { shard: 1, project: 'default', tests: { 'a.spec.ts::test1': 10000 } },
+    ]);
+
+    const result = mergeTimingData(existing, [
+      {
+        shard: 1,
+        project: 'default',
+        tests: { 'a.spec.ts::test1': 0, 'a.spec.ts::new-skipped': 0 },
+        outcomes: {
+          'a.spec.ts::test1': 'skipped',
+          'a.spec.ts::new-skipped': 'skipped',
+        },
+      },
+    ]);
+
+    expect(result.tests['a.spec.ts::test1']?.duration).toBe(10000);
+    expect(result.tests['a.spec.ts::test1']?.runs).toBe(1);
+    expect(result.tests['a.spec.ts::new-skipped']).toBeUndefined();
+  });
+
+  test('builds a rolling outcome history', () => {
+    let data: TimingData | null = null;
+    const outcomes = [
+      'passed',
+      'flaky',
+      'failed',
+      ...Array.from({ length: 9 }, () => 'passed' as const),
+    ] as const;
+
+    for (const outcome of outcomes) {
+      data = mergeTimingData(data, [
+        {
+          shard: 1,
+          project: 'default',
+          tests: { 'a.spec.ts::test1': 1000 },
+          outcomes: { 'a.spec.ts::test1': outcome },
+        },
+      ]);
+    }
+
+    const history = data?.tests['a.spec.ts::test1']?.history;
+    expect(history).toHaveLength(10);
+    expect(history?.[0]).toBe('failed');
+  });
+
+  test('tracks variance of unstable tests', () => {
+    let data = mergeTimingData(null, [
+      { shard: 1, project: 'default', tests: { 'a.spec.ts::flaky': 5000 } },
+    ]);
+    expect(data.tests['a.spec.ts::flaky']?.variance).toBe(0);
+
+    for (const duration of [90000, 5000, 90000]) {
+      data = mergeTimingData(data, [
+        {
+          shard: 1,
+          project: 'default',
+          tests: { 'a.spec.ts::flaky': duration },
+        },
+      ]);
+    }
+
+    const timing = data.tests['a.spec.ts::flaky'];
+    expect(timing?.variance).toBeGreaterThan(0);
+    expect(timing?.projects?.default?.variance).toBe(timing?.variance);
+  });
+
   test('merges multiple artifacts', () => {
     const artifacts: ShardTimingArtifact[] = [
       {
@@ -191,6 +434,47 @@ describe('mergeTimingData', () => {
     expect(result.tests['a.spec.ts::test1']?.duration).toBe(1000);
     expect(result.tests['b.spec.ts::test1']?.duration).toBe(2000);
   });
+
+  test('keeps durations per project', () => {
+    const artifacts: ShardTimingArtifact[] = [
+      {
+        shard: 1,
+        project: 'chromium',
+        tests: { 'a.spec.ts::test1': 1000 },
+      },
+      {
+        shard: 1,
+        project: 'webkit',
+        tests: { 'a.spec.ts::test1': 3000 },
+      },
+    ];
+
+    const result = mergeTimingData(null, artifacts);
+    const timing = result.tests['a.spec.ts::test1'];
+
+    expect(result.version).toBe(3);
+    expect(timing?.projects?.chromium?.duration).toBe(1000);
+    expect(timing?.projects?.webkit?.duration).toBe(3000);
+    expect(timing?.runs).toBe(2);
+  });
+
+  test('applies EMA per project without mixing projects', () => {
+    const first = mergeTimingData(null, [
+      { shard: 1, project: 'chromium', tests: { 'a.spec.ts::test1': 1000 } },
+      { shard: 1, project: 'webkit', tests: { 'a.spec.ts::test1': 3000 } },
+    ]);
+
+    const result = mergeTimingData(first, [
+      { shard: 1, project: 'chromium', tests: { 'a.spec.ts::test1': 2000 } },
+    ]);
+    const projects = result.tests['a.spec.ts::test1']?.projects;
+
+    // EMA: 0.3 * 2000 + 0.7 * 1000 = 1300
+    expect(projects?.chromium?.duration).toBe(1300);
+    expect(projects?.chromium?.runs).toBe(2);
+    expect(projects?.webkit?.duration).toBe(3000);
+    expect(projects?.webkit?.runs).toBe(1);
+  });
 });
 
 describe('pruneTimingData', () => {
@@ -199,7 +483,7 @@ describe('pruneTimingData', () => {
     oldDate.setDate(oldDate.getDate() - 60); // 60 days ago
 
     const data: TimingData = {
-      version: 2,
+      version: 3,
       updatedAt: new Date().toISOString(),
       tests: {
         'old.spec.ts::test1': {
@@ -225,7 +509,7 @@ describe('pruneTimingData', () => {
 
   test('removes tests not in current test list', () => {
     const data: TimingData = {
-      version: 2,
+      version: 3,
       updatedAt: new Date().toISOString(),
       tests: {
         'deleted.spec.ts::test1': {
@@ -248,12 +532,36 @@ describe('pruneTimingData', () => {
     expect(result.tests['deleted.spec.ts::test1']).toBeUndefined();
     expect(result.tests['exists.spec.ts::test1']).toBeDefined();
   });
+
+  test('removes setup times of files without remaining tests', () => {
+    const now = new Date().toISOString();
+    const data: TimingData = {
+      version: 3,
+      updatedAt: now,
+      tests: {
+        'exists.spec.ts::test1': {
+          file: 'exists.spec.ts',
+          duration: 2000,
+          runs: 1,
+          lastRun: now,
+        },
+      },
+      files: {
+        'exists.spec.ts': { setup: 500, runs: 1, lastRun: now },
+        'deleted.spec.ts': { setup: 800, runs: 1, lastRun: now },
+      },
+    };
+
+    const result = pruneTimingData(data, 30);
+
+    expect(Object.keys(result.files ?? {})).toEqual(['exists.spec.ts']);
+  });
 });
 
 describe('getFileDuration', () => {
   test('aggregates test durations by file', () => {
     const data: TimingData = {
-      version: 2,
+      version: 3,
       updatedAt: '2024-01-01T00:00:00Z',
       tests: {
         'a.spec.ts::test1': {
@@ -277,9 +585,41 @@ describe('getFileDuration', () => {
 });
 
 describe('getTestDuration', () => {
+  const multiProjectData: TimingData = {
+    version: 3,
+    updatedAt: new Date().toISOString(),
+    tests: {
+      'a.spec.ts::test1': {
+        file: 'a.spec.ts',
+        duration: 2000,
+        runs: 2,
+        lastRun: new Date().toISOString(),
+        projects: {
+          webkit: {
+            duration: 3000,
+            runs: 1,
+            lastRun: new Date().toISOString(),
+          },
+        },
+      },
+    },
+  };
+
+  test('prefers the duration measured in the requested project', () => {
+    expect(
+      getTestDuration(multiProjectData, 'a.spec.ts::test1', 'webkit'),
+    ).toBe(3000);
+  });
+
+  test('falls back to the cross-project duration for unmeasured projects', () => {
+    expect(
+      getTestDuration(multiProjectData, 'a.spec.ts::test1', 'firefox'),
+    ).toBe(2000);
+  });
+
   test('returns duration for test', () => {
     const data: TimingData = {
-      version: 2,
+      version: 3,
       updatedAt: '2024-01-01T00:00:00Z',
       tests: {
         'a.spec.ts::test1': {
@@ -295,3 +635,26 @@ describe('getTestDuration', () => {
     expect(getTestDuration(data, 'nonexistent')).toBeUndefined();
   });
 });
+
+describe('summarizeOutcomeHistory', () => {
+  test('counts outcomes and rates', () => {
+    const summary = summarizeOutcomeHistory({
+      history: ['passed', 'flaky', 'failed', 'timedOut', 'passed'],
+    });
+
+    expect(summary).toEqual({
+      runs: 5,
+      passed: 2,
+      flaky: 1,
+      failed: 2,
+      flakyRate: 0.2,
+      failureRate: 0.4,
+    });
+  });
+
+  test('returns zero rates without history', () => {
+    const summary = summarizeOutcomeHistory({});
+    expect(summary.runs).toBe(0);
+    expect(summary.flakyRate).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { type WorkItem, WorkQueue } from '../src/core/work-queue.js';
+
+function item(testId: string, duration: number, file = 'a.spec.ts'): WorkItem {
+  return { testId, file, duration, line: `${file} › ${testId}` };
+}
+
+describe('WorkQueue', () => {
+  test('hands out the longest tests first', () => {
+    const queue = new WorkQueue(
+      [item('short', 1000), item('long', 50_000), item('medium', 10_000)],
+      { batchDuration: 1 },
+    );
+
+    expect(queue.next('w1')?.tests).toEqual(['long']);
+    expect(queue.next('w2')?.tests).toEqual(['medium']);
+    expect(queue.next('w1')?.tests).toEqual(['short']);
+    expect(queue.next('w1')).toBeNull();
+  });
+
+  test('fills batches up to the batch duration', () => {
+    const queue = new WorkQueue(
+      [
+        item('a', 40_000),
+        item('b', 30_000),
+        item('c', 20_000),
+        item('d', 10_000),
+        item('e', 5000),
+      ],
+      { batchDuration: 60_000 },
+    );
+
+    const first = queue.next('w1');
+    expect(first?.tests).toEqual(['a']);
+    expect(first?.lines).toEqual(['a.spec.ts › a']);
+    expect(queue.next('w1')?.tests).toEqual(['b', 'c', 'd']);
+    expect(queue.next('w1')?.duration).toBe(5000);
+  });
+
+  test('keeps tests longer than the batch duration in their own batch', () => {
+    const queue = new WorkQueue([item('huge', 120_000), item('tiny', 100)], {
+      batchDuration: 60_000,
+    });
+
+    expect(queue.next('w1')?.tests).toEqual(['huge']);
+    expect(queue.next('w1')?.tests).toEqual(['tiny']);
+  });
+
+  test('is done once every batch is completed', () => {
+    const queue = new WorkQueue([item('a', 1000), item('b', 1000)], {
+      batchDuration: 1,
+    });
+    const first = queue.next('w1');
+    const second = queue.next('w2');
+
+    expect(queue.done).toBe(false);
+    expect(queue.complete(first?.id ?? 0)?.tests).toEqual(['a']);
+    expect(queue.complete(second?.id ?? 0, true)?.worker).toBe('w2');
+    expect(queue.complete(second?.id ?? 0)).toBeNull();
+
+    expect(queue.done).toBe(true);
+    expect(queue.status()).toEqual({
+      pending: 0,
+      leased: 0,
+      completed: 2,
+      failedBatches: 1,
+      expiredBatches: 0,
+      workers: { w1: 1, w2: 1 },
+    });
+  });
+
+  test('hands out a serial group whole and counts its tests', () => {
+    const group: WorkItem = {
+      ...item('Flow', 60_000),
+      line: 'a.spec.ts › Flow › login\na.spec.ts › Flow › logout',
+      tests: ['Flow::login', 'Flow::logout'],
+    };
+    const queue = new WorkQueue([group, item('other', 1000)], {
+      batchDuration: 60_000,
+    });
+
+    expect(queue.status().pending).toBe(3);
+    const batch = queue.next('w1');
+    expect(batch?.tests).toEqual(['Flow::login', 'Flow::logout']);
+    expect(batch?.lines).toHaveLength(1);
+    queue.complete(batch?.id ?? 0);
+    expect(queue.status().completed).toBe(2);
+  });
+
+  test('re-queues batches whose lease expired', () => {
+    let now = 0;
+    const queue = new WorkQueue([item('a', 1000), item('b', 500)], {
+      batchDuration: 1,
+      leaseTimeout: 10_000,
+      now: () => now,
+    });
+
+    const stuck = queue.next('w1');
+    const other = queue.next('w2');
+    expect(other?.tests).toEqual(['b']);
+    queue.complete(other?.id ?? 0);
+
+    now = 10_000;
+    expect(queue.status().pending).toBe(1);
+    expect(queue.next('w2')?.tests).toEqual(['a']);
+    expect(queue.complete(stuck?.id ?? 0)).toBeNull();
+    expect(queue.status().expiredBatches).toBe(1);
+  });
+});
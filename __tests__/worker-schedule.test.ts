@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import type { TestWithDuration } from '../src/core/types.js';
+import {
+  scheduleShardWorkers,
+  simulateWorkers,
+} from '../src/core/worker-schedule.js';
+
+function item(testId: string, duration: number, file = 'a.spec.ts') {
+  return { testId, file, duration, estimated: false } as TestWithDuration;
+}
+
+describe('simulateWorkers', () => {
+  test('dispatches each item to the first free worker', () => {
+    const items = [item('a', 1000), item('b', 1000), item('c', 4000)];
+
+    // a and b run in parallel, then c starts after 1s
+    expect(simulateWorkers(items, 2)).toBe(5000);
+    expect(simulateWorkers(items, 1)).toBe(6000);
+    expect(simulateWorkers(items, 3)).toBe(4000);
+    expect(simulateWorkers([], 2)).toBe(0);
+  });
+
+  test('charges file setup once per worker running the file', () => {
+    const items = [
+      item('a', 1000, 'a.spec.ts'),
+      item('b', 1000, 'a.spec.ts'),
+      item('c', 1000, 'b.spec.ts'),
+    ];
+
+    // Worker 1 runs a then c, worker 2 runs b, both pay a.spec.ts setup
+    expect(simulateWorkers(items, 2, { 'a.spec.ts': 500 })).toBe(2500);
+  });
+});
+
+describe('scheduleShardWorkers', () => {
+  const items = [
+    item('short-1', 1000),
+    item('short-2', 1000),
+    item('short-3', 1000),
+    item('short-4', 1000),
+    item('long', 4000),
+  ];
+  const assignments = [
+    {
+      shardIndex: 1,
+      tests: ['short-1', 'short-2', 'short-3', 'short-4', 'long'],
+      expectedDuration: 8000,
+    },
+  ];
+
+  test('runs the tests of a file on one worker', () => {
+    const [scheduled] = scheduleShardWorkers(assignments, items, 2);
+
+    expect(scheduled?.tests).toEqual(assignments[0]?.tests);
+    expect(scheduled?.expectedDuration).toBe(8000);
+  });
+
+  test('dispatches whole files, keeping their tests together', () => {
+    const [scheduled] = scheduleShardWorkers(
+      [{ shardIndex: 1, tests: ['a1', 'b1', 'a2'], expectedDuration: 0 }],
+      [
+        item('a1', 1000, 'a.spec.ts'),
+        item('b1', 1000, 'b.spec.ts'),
+        item('a2', 3000, 'a.spec.ts'),
+      ],
+      2,
+    );
+
+    // One worker runs a.spec.ts while the other runs b.spec.ts
+    expect(scheduled?.tests).toEqual(['a1', 'a2', 'b1']);
+    expect(scheduled?.expectedDuration).toBe(4000);
+  });
+
+  test('runs long items first so workers finish together', () => {
+    const [scheduled] = scheduleShardWorkers(assignments, items, 2, {
+      fullyParallel: true,
+    });
+
+    expect(scheduled?.tests[0]).toBe('long');
+    expect(scheduled?.expectedDuration).toBe(4000);
+    expect([...(scheduled?.tests ?? [])].sort()).toEqual(
+      [...(assignments[0]?.tests ?? [])].sort(),
+    );
+  });
+
+  test('keeps the order when asked and applies shard speeds', () => {
+    const [scheduled] = scheduleShardWorkers(assignments, items, 2, {
+      keepOrder: true,
+      shardWeights: [2],
+      fullyParallel: true,
+    });
+
+    expect(scheduled?.tests).toEqual(assignments[0]?.tests);
+    // Assigned order takes 6s on two workers, halved by the speed
+    expect(scheduled?.expectedDuration).toBe(3000);
+  });
+
+  test('keeps the tests of a file together when setup is expensive', () => {
+    const files = [
+      item('a1', 1000, 'a.spec.ts'),
+      item('b1', 1000, 'b.spec.ts'),
+      item('a2', 1000, 'a.spec.ts'),
+      item('b2', 1000, 'b.spec.ts'),
+    ];
+    const [scheduled] = scheduleShardWorkers(
+      [{ shardIndex: 1, tests: ['a1', 'a2', 'b1', 'b2'], expectedDuration: 0 }],
+      files,
+      2,
+      {
+        fileSetupCosts: { 'a.spec.ts': 5000, 'b.spec.ts': 5000 },
+        fullyParallel: true,
+      },
+    );
+
+    expect(scheduled?.expectedDuration).toBe(7000);
+  });
+});
@@ -1,17 +1,51 @@
 import * as path from 'node:path';
 import { Command, Flags } from '@oclif/core';
 import {
+  ASSIGN_STRATEGIES,
+  type AssignableTest,
+  type AssignmentConstraints,
+  type AssignmentCost,
+  applyConstraints,
+  applyTestRenames,
+  assignNativeShards,
   assignWithCKK,
+  assignWithCost,
+  type CKKResult,
+  type ConstraintRules,
+  type CostModel,
   calculateFileAffinityPenalty,
+  createTimingStore,
   DEFAULT_CKK_TIMEOUT,
-  type DiscoveredTest,
-  getTestDurations,
-  loadTestListWithConfig,
+  detectRenamedTests,
+  estimateAssignmentCost,
+  expandSerialGroups,
+  findConstraintProblems,
+  findConstraintViolations,
+  formatDuration,
+  getAssignableSetupCosts,
+  getAssignableSourceEstimates,
+  getAssignableTestDurations,
+  getFailurePriorities,
+  getTestDirPrefix,
+  getTestTags,
+  groupSerialTests,
+  loadAssignableTests,
+  loadConstraintRules,
   loadTimingData,
+  matchesTagFilter,
+  orderFailuresFirst,
+  parseCostModel,
+  parseDurationPercentile,
+  parseShardWeights,
+  parseTagDurations,
+  resolveConstraintRules,
+  scheduleShardWorkers,
+  sortInNativeOrder,
+  splitTogetherGroups,
+  TEST_ORDERS,
   type TestAssignResult,
-  type TestWithDuration,
   type TimingData,
-  toTestListFile,
+  toAssignableTestListLine,
 } from '../core/index.js';
 
 export default class Assign extends Command {
@@ -21,6 +55,14 @@ export default class Assign extends Command {
   static override examples = [
     '<%= config.bin %> assign --test-list ./test-list.json --shards 4',
     '<%= config.bin %> assign --test-list ./test-list.json --timing-file ./timing.json --shards 4 --output-format json',
+    '<%= config.bin %> assign --test-list ./test-list.json --shards 6 --project chromium --project firefox',
+    '<%= config.bin %> assign --test-list ./test-list.json --shards 6 --all-projects',
+    '<%= config.bin %> assign --test-list ./test-list.json --shards 4 --shard-weights 1,1,2,2',
+    '<%= config.bin %> assign --test-list ./test-list.json --shards 4 --constraints ./constraints.json',
+    '<%= config.bin %> assign --test-list ./test-list.json --shards 2 --grep-tag @smoke --tag-duration @slow=2m',
+    '<%= config.bin %> assign --test-list ./test-list.json --timing-file ./timing.json --shards 4 --order failures-first',
+    '<%= config.bin %> assign --test-list ./test-list.json --timing-file ./timing.json --shards 4 --workers 2',
+    '<%= config.bin %> assign --test-list ./test-list.json --timing-file ./timing.json --shards 4 --strategy native',
   ];
 
   static override flags = {
@@ -32,6 +74,12 @@ export default class Assign extends Command {
     'timing-file': Flags.string({
       char: 't',
       description: 'Path to timing data JSON file (optional)',
+      exclusive: ['store'],
+    }),
+    store: Flags.string({
+      description:
+        'Timing store URI: file path, s3://bucket/key or sqlite://path (optional)',
+      exclusive: ['timing-file'],
     }),
     shards: Flags.integer({
       char: 's',
@@ -40,7 +88,29 @@ export default class Assign extends Command {
     }),
     project: Flags.string({
       char: 'p',
-      description: 'Playwright project name (for multi-project configs)',
+      description:
+        'Playwright project name (repeat to balance several projects across the same shards)',
+      multiple: true,
+      exclusive: ['all-projects'],
+    }),
+    'all-projects': Flags.boolean({
+      description:
+        'Balance every project from the test list across the same shards',
+      default: false,
+    }),
+    'grep-tag': Flags.string({
+      description:
+        'Only assign tests with this tag (repeat to allow several tags)',
+      multiple: true,
+    }),
+    'exclude-tag': Flags.string({
+      description: 'Skip tests with this tag (repeat to skip several tags)',
+      multiple: true,
+    }),
+    'tag-duration': Flags.string({
+      description:
+        'Default duration for tests with this tag and no timing data, e.g. @slow=2m (repeatable)',
+      multiple: true,
     }),
     'output-format': Flags.string({
       char: 'f',
@@ -48,6 +118,28 @@ export default class Assign extends Command {
       default: 'json',
       options: ['json', 'text'],
     }),
+    strategy: Flags.string({
+      description:
+        "How to split tests: balanced on timing data (ckk), or like Playwright's own --shard (native)",
+      default: 'ckk',
+      options: ASSIGN_STRATEGIES,
+    }),
+    'fully-parallel': Flags.boolean({
+      description:
+        'The Playwright config sets fullyParallel: true, so single tests rather than files are split (--strategy native) and dispatched to workers (--workers)',
+      default: false,
+    }),
+    order: Flags.string({
+      description:
+        'Order of tests within each shard: as assigned, or recently failed and flaky tests first',
+      default: 'assigned',
+      options: TEST_ORDERS,
+    }),
+    workers: Flags.integer({
+      description:
+        'Playwright workers per shard; orders each shard for them and predicts its parallel duration',
+      min: 1,
+    }),
     verbose: Flags.boolean({
       char: 'v',
       description: 'Show verbose output',
@@ -67,36 +159,111 @@ export default class Assign extends Command {
       description:
         'File affinity penalty in milliseconds (overrides auto-calculation)',
     }),
+    'source-estimate': Flags.boolean({
+      description:
+        'Estimate tests without timing data from their source (steps, navigations, assertions)',
+      default: true,
+      allowNo: true,
+    }),
+    'detect-renames': Flags.boolean({
+      description: 'Use the timing of renamed or moved tests for their new IDs',
+      default: true,
+      allowNo: true,
+    }),
+    'duration-percentile': Flags.string({
+      description:
+        'Schedule on a percentile of each test duration instead of the mean (e.g. p90)',
+    }),
+    'shard-weights': Flags.string({
+      description:
+        'Comma-separated speed factor per shard, e.g. 1,1,2,2 when shards 3 and 4 run twice as fast',
+    }),
+    constraints: Flags.string({
+      description:
+        'Path to a JSON file with together, apart and pin rules for tests',
+    }),
+    'shard-overhead': Flags.string({
+      description:
+        'Fixed setup time per shard (checkout, install), e.g. 90s; enables leaving shards empty',
+    }),
+    'cost-per-minute': Flags.string({
+      description:
+        'Price per billed runner minute, to report the estimated cost',
+    }),
+    'cost-weight': Flags.string({
+      description:
+        'Weight of billed runner minutes against makespan, from 0 (fastest, default) to 1 (cheapest)',
+    }),
   };
 
   async run(): Promise<void> {
     const { flags } = await this.parse(Assign);
 
-    const testListPath = path.resolve(flags['test-list']);
-    const { tests, rootDir, testDir } = loadTestListWithConfig(
-      testListPath,
-      flags.project,
-    );
-
-    if (!testDir) {
-      throw new Error(
-        '[Orchestrator] project.testDir is missing in test-list.json. ' +
-          'Regenerate with `npx playwright test --list --reporter=json`.',
+    // Native sharding ignores durations and keeps Playwright's order, so
+    // it can't honour these
+    const native = flags.strategy === 'native';
+    const nativeConflicts: string[] = (
+      [
+        'constraints',
+        'shard-weights',
+        'shard-overhead',
+        'cost-per-minute',
+        'cost-weight',
+        'workers',
+      ] as const
+    ).filter((name) => flags[name] !== undefined);
+    if (flags.order !== 'assigned') {
+      nativeConflicts.push('order');
+    }
+    if (native && nativeConflicts.length > 0) {
+      this.error(
+        `--strategy native splits tests like Playwright's --shard and can't be combined with ${nativeConflicts.map((name) => `--${name}`).join(', ')}`,
       );
     }
-    const testDirPrefix = rootDir
-      ? path.relative(rootDir, testDir).replace(/\\/g, '/')
-      : '';
+
+    const testListPath = path.resolve(flags['test-list']);
+    const {
+      rootDir,
+      projects,
+      tests: loaded,
+      multiProject,
+    } = loadAssignableTests(testListPath, {
+      projects: flags.project,
+      allProjects: flags['all-projects'],
+    });
 
     if (flags.verbose) {
-      this.log(`Loaded ${tests.length} tests from ${testListPath}`);
-      if (testDirPrefix) {
-        this.log(`testDir prefix for --test-list paths: ${testDirPrefix}`);
+      for (const project of projects) {
+        this.log(
+          `Loaded ${project.tests.length} tests for project "${project.name}" from ${testListPath}`,
+        );
+        const testDirPrefix = getTestDirPrefix(rootDir, project.testDir);
+        if (testDirPrefix) {
+          this.log(`testDir prefix for --test-list paths: ${testDirPrefix}`);
+        }
       }
     }
 
-    if (tests.length === 0) {
-      this.warn(`No tests found in ${testListPath}`);
+    // Tag filters select e.g. a smoke-only run from the full test list
+    const selected = loaded.filter((a) =>
+      matchesTagFilter(a.test, {
+        grepTags: flags['grep-tag'],
+        excludeTags: flags['exclude-tag'],
+      }),
+    );
+    if (flags.verbose && selected.length < loaded.length) {
+      this.log(`Selected ${selected.length} of ${loaded.length} tests by tag`);
+    }
+
+    // Native sharding splits tests in the order Playwright runs them
+    const assignable = native ? sortInNativeOrder(selected) : selected;
+
+    if (assignable.length === 0) {
+      this.warn(
+        loaded.length > 0
+          ? `Tag filters selected 0 of ${loaded.length} tests in ${testListPath}`
+          : `No tests found in ${testListPath}`,
+      );
       this.outputResult(
         {
           shards: Object.fromEntries(
@@ -120,10 +287,73 @@ export default class Assign extends Command {
     let timingData: TimingData | null = null;
     if (flags['timing-file']) {
       timingData = loadTimingData(flags['timing-file']);
+    } else if (flags.store) {
+      try {
+        timingData = await createTimingStore(flags.store).load();
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (timingData && flags['detect-renames']) {
+      const renames = detectRenamedTests(
+        [...new Set(loaded.map((a) => a.test.testId))],
+        timingData,
+      );
+      timingData = applyTestRenames(timingData, renames);
+      if (flags.verbose) {
+        for (const { from, to, reason } of renames) {
+          this.log(`Using timing of ${from} for ${to} (${reason})`);
+        }
+      }
+    }
+
+    let costModel: CostModel | undefined;
+    let shardWeights: number[] | undefined;
+    let rules: ConstraintRules | undefined;
+    let tagDurations: Record<string, number> | undefined;
+    try {
+      costModel = parseCostModel({
+        shardOverhead: flags['shard-overhead'],
+        costPerMinute: flags['cost-per-minute'],
+        costWeight: flags['cost-weight'],
+      });
+      if (flags['shard-weights']) {
+        shardWeights = parseShardWeights(flags['shard-weights'], flags.shards);
+      }
+      if (flags.constraints) {
+        rules = loadConstraintRules(path.resolve(flags.constraints));
+      }
+      if (flags['tag-duration']) {
+        tagDurations = parseTagDurations(flags['tag-duration']);
+      }
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    let percentile: number | undefined;
+    if (flags['duration-percentile']) {
+      try {
+        percentile = parseDurationPercentile(flags['duration-percentile']);
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+
+      if (flags.verbose) {
+        this.log(`Scheduling on p${percentile} of test durations`);
+      }
     }
 
-    const testsWithDurations = getTestDurations(tests, timingData);
-    const estimatedTests = testsWithDurations
+    const sourceEstimates = flags['source-estimate']
+      ? getAssignableSourceEstimates(projects, timingData)
+      : undefined;
+    const testInputs = getAssignableTestDurations(
+      assignable,
+      multiProject,
+      timingData,
+      { percentile, tagDurations, sourceEstimates },
+    );
+    const estimatedTests = testInputs
       .filter((t) => t.estimated)
       .map((t) => t.testId);
 
@@ -133,74 +363,246 @@ export default class Assign extends Command {
       );
     }
 
-    const testInputs: TestWithDuration[] = testsWithDurations.map((t) => ({
-      testId: t.testId,
-      file: t.file,
-      duration: t.duration,
-      estimated: t.estimated,
-    }));
-
     let fileAffinityPenalty = 0;
+    let fileSetupCosts: Record<string, number> = {};
     if (flags['file-affinity']) {
       fileAffinityPenalty =
         flags['file-affinity-penalty'] ??
         calculateFileAffinityPenalty(timingData);
+      fileSetupCosts = getAssignableSetupCosts(
+        assignable,
+        multiProject,
+        timingData,
+      );
 
       if (flags.verbose) {
         this.log(
-          `File affinity penalty: ${this.formatDuration(fileAffinityPenalty)}`,
+          `File affinity penalty: ${formatDuration(fileAffinityPenalty)}`,
         );
+        const measured = Object.keys(fileSetupCosts).length;
+        if (measured > 0) {
+          this.log(`Measured setup cost for ${measured} files`);
+        }
       }
     }
 
-    const ckkResult = assignWithCKK(
-      testInputs,
-      flags.shards,
-      flags.timeout,
-      fileAffinityPenalty,
-    );
+    // Together rules join tests into groups; pins and apart rules follow
+    // each test's group
+    let inputs = testInputs;
+    let constraints: AssignmentConstraints = {};
+    if (rules) {
+      try {
+        const resolved = resolveConstraintRules(
+          assignable,
+          rules,
+          flags.shards,
+        );
+        ({ tests: inputs, constraints } = applyConstraints(
+          testInputs,
+          resolved,
+        ));
+        for (const pattern of resolved.unmatched) {
+          this.warn(`Constraint pattern "${pattern}" matches no tests`);
+        }
+        for (const problem of findConstraintProblems(
+          inputs,
+          resolved,
+          flags.shards,
+          shardWeights,
+        )) {
+          this.warn(`Constraints prevent a balanced assignment: ${problem}`);
+        }
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    // Serial and together groups are scheduled as one item each
+    const grouped = groupSerialTests(inputs);
+    if (flags.verbose && grouped.groups.size > 0) {
+      this.log(`Keeping ${grouped.groups.size} groups of tests together`);
+    }
+
+    // With a cost model, fewer shards may win; the rest stay empty
+    let ckkResult: CKKResult & { cost?: AssignmentCost };
+    if (native) {
+      const assignments = assignNativeShards(inputs, flags.shards, {
+        fullyParallel: flags['fully-parallel'],
+      });
+      ckkResult = {
+        assignments,
+        makespan: Math.max(...assignments.map((a) => a.expectedDuration)),
+        isOptimal: false,
+      };
+    } else if (costModel) {
+      ckkResult = assignWithCost(
+        grouped.tests,
+        flags.shards,
+        costModel,
+        flags.timeout,
+        fileAffinityPenalty,
+        shardWeights,
+        fileSetupCosts,
+        constraints,
+      );
+    } else {
+      ckkResult = assignWithCKK(
+        grouped.tests,
+        flags.shards,
+        flags.timeout,
+        fileAffinityPenalty,
+        shardWeights,
+        fileSetupCosts,
+        constraints,
+      );
+    }
+
+    for (const violation of findConstraintViolations(
+      ckkResult.assignments,
+      constraints,
+    )) {
+      this.warn(`Constraint not met: ${violation}`);
+    }
 
     if (flags.verbose) {
       this.log(
-        `Assignment ${ckkResult.isOptimal ? 'optimal' : 'near-optimal (LPT fallback)'}`,
+        native
+          ? 'Assignment split like Playwright --shard'
+          : `Assignment ${ckkResult.isOptimal ? 'optimal' : 'near-optimal (LPT fallback)'}`,
       );
-      this.log(`Makespan: ${this.formatDuration(ckkResult.makespan)}`);
+      this.log(`Makespan: ${formatDuration(ckkResult.makespan)}`);
+      if (ckkResult.cost) {
+        this.log(
+          `Using ${ckkResult.cost.usedShards} of ${flags.shards} shards (${ckkResult.cost.billedMinutes} billed minutes)`,
+        );
+      }
     }
 
-    const shardTests: Record<number, string[]> = {};
-    for (const assignment of ckkResult.assignments) {
-      shardTests[assignment.shardIndex] = assignment.tests;
+    // Together groups only share a shard; ordering and workers see their
+    // tests again. Reordering within shards never moves a test to another
+    // shard.
+    const scheduled = rules
+      ? splitTogetherGroups(ckkResult.assignments, grouped.groups, testInputs)
+      : { ...grouped, assignments: ckkResult.assignments };
+    let assignments = scheduled.assignments;
+    if (flags.order === 'failures-first') {
+      const priorities = getFailurePriorities(testInputs, timingData);
+      assignments = orderFailuresFirst(
+        assignments,
+        scheduled.tests,
+        priorities,
+      );
+      if (flags.verbose) {
+        this.log(
+          `Running ${Object.keys(priorities).length} recently failed or flaky items first`,
+        );
+      }
     }
+    if (flags.workers) {
+      assignments = scheduleShardWorkers(
+        assignments,
+        scheduled.tests,
+        flags.workers,
+        {
+          shardWeights,
+          fileSetupCosts,
+          keepOrder: flags.order === 'failures-first',
+          fullyParallel: flags['fully-parallel'],
+        },
+      );
+      if (flags.verbose) {
+        const makespan = Math.max(
+          ...assignments.map((a) => a.expectedDuration),
+        );
+        this.log(
+          `Makespan with ${flags.workers} workers per shard: ${formatDuration(makespan)}`,
+        );
+      }
+    }
+    const reordered = assignments !== scheduled.assignments;
 
-    const testMap = new Map<string, DiscoveredTest>(
-      tests.map((t) => [t.testId, t]),
+    const assignableMap = new Map<string, AssignableTest>(
+      assignable.map((a) => [a.key, a]),
+    );
+    const projectOrder = new Map<string, number>(
+      projects.map((p, i) => [p.name, i]),
     );
 
+    const shardTests: Record<number, string[]> = {};
+    const shardProjects: Record<number, Record<string, string[]>> = {};
     const testListFiles: Record<number, string> = {};
-    for (const [shardIndex, testIds] of Object.entries(shardTests)) {
-      const entries = testIds.map((id) => {
-        const test = testMap.get(id);
-        if (!test) {
-          throw new Error(`[Orchestrator] Test not found in discovery: ${id}`);
+
+    for (const assignment of expandSerialGroups(
+      assignments,
+      scheduled.groups,
+    )) {
+      const shardAssignable = assignment.tests.map((key) => {
+        const entry = assignableMap.get(key);
+        if (!entry) {
+          throw new Error(`[Orchestrator] Test not found in discovery: ${key}`);
         }
-        return { file: test.file, titlePath: test.titlePath };
+        return entry;
       });
-      testListFiles[Number(shardIndex)] = toTestListFile(
-        entries,
-        testDirPrefix,
+
+      // Group by project (stable, so CKK order is kept within a project),
+      // unless the tests were ordered on purpose
+      if (multiProject) {
+        if (!reordered) {
+          shardAssignable.sort(
+            (a, b) =>
+              (projectOrder.get(a.project) ?? 0) -
+              (projectOrder.get(b.project) ?? 0),
+          );
+        }
+
+        const grouped: Record<string, string[]> = {};
+        for (const entry of shardAssignable) {
+          grouped[entry.project] ??= [];
+          grouped[entry.project]?.push(entry.test.testId);
+        }
+        shardProjects[assignment.shardIndex] = grouped;
+      }
+
+      shardTests[assignment.shardIndex] = shardAssignable.map((a) => a.key);
+      const lines = shardAssignable.map((a) =>
+        toAssignableTestListLine(a, multiProject),
       );
+      testListFiles[assignment.shardIndex] =
+        lines.length > 0 ? `${lines.join('\n')}\n` : '';
     }
 
     const result: TestAssignResult = {
       shards: shardTests,
       expectedDurations: Object.fromEntries(
-        ckkResult.assignments.map((a) => [a.shardIndex, a.expectedDuration]),
+        assignments.map((a) => [a.shardIndex, a.expectedDuration]),
       ),
-      totalTests: tests.length,
+      totalTests: assignable.length,
       estimatedTests,
       isOptimal: ckkResult.isOptimal,
       testListFiles,
+      testDurations: Object.fromEntries(
+        testInputs.map((t) => [t.testId, t.duration]),
+      ),
     };
+    if (multiProject) {
+      result.projects = shardProjects;
+    }
+    const tags = assignable
+      .map((a) => [a.key, getTestTags(a.test)] as const)
+      .filter(([, testTags]) => testTags.length > 0);
+    if (tags.length > 0) {
+      result.tags = Object.fromEntries(tags);
+    }
+    if (ckkResult.cost && costModel) {
+      // Workers turn each shard's load into its parallel duration
+      result.estimatedCost = estimateAssignmentCost(
+        assignments.map((a) => a.expectedDuration),
+        costModel,
+      );
+    }
+    if (native) {
+      result.strategy = 'native';
+    }
 
     this.outputResult(result, flags['output-format'], flags.verbose);
   }
@@ -216,35 +618,47 @@ export default class Assign extends Command {
       this.log('\n=== Shard Assignments ===\n');
       for (const [shard, tests] of Object.entries(result.shards)) {
         const duration = result.expectedDurations[Number(shard)];
-        const durationStr = this.formatDuration(duration ?? 0);
+        const durationStr = formatDuration(duration ?? 0);
         this.log(`Shard ${shard} (${durationStr}, ${tests.length} tests):`);
 
+        const projects = result.projects?.[Number(shard)];
+        if (projects) {
+          for (const [project, projectTests] of Object.entries(projects)) {
+            this.log(`  [${project}] ${projectTests.length} tests`);
+          }
+        }
+
         if (verbose) {
           for (const testId of tests) {
             const isEstimated = result.estimatedTests.includes(testId);
-            this.log(`  - ${testId}${isEstimated ? ' (estimated)' : ''}`);
+            const tags = result.tags?.[testId];
+            this.log(
+              `  - ${testId}${isEstimated ? ' (estimated)' : ''}${tags ? ` ${tags.join(' ')}` : ''}`,
+            );
           }
         }
         this.log('');
       }
       this.log(`Total tests: ${result.totalTests}`);
-      this.log(
-        `Optimal solution: ${result.isOptimal ? 'Yes' : 'No (LPT fallback)'}`,
-      );
+      if (result.strategy === 'native') {
+        this.log('Strategy: native (Playwright --shard split)');
+      } else {
+        this.log(
+          `Optimal solution: ${result.isOptimal ? 'Yes' : 'No (LPT fallback)'}`,
+        );
+      }
       if (result.estimatedTests.length > 0) {
         this.log(
           `Tests with estimated duration: ${result.estimatedTests.length}`,
         );
       }
+      const cost = result.estimatedCost;
+      if (cost) {
+        const price = cost.cost !== undefined ? `, cost ${cost.cost}` : '';
+        this.log(
+          `Estimated cost: ${cost.usedShards} shards, ${formatDuration(cost.makespan)} wall-clock, ${cost.billedMinutes} billed minutes${price}`,
+        );
+      }
     }
   }
-
-  private formatDuration(ms: number): string {
-    const seconds = Math.round(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return minutes > 0
-      ? `${minutes}m ${remainingSeconds}s`
-      : `${remainingSeconds}s`;
-  }
 }
@@ -1,8 +1,36 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { Command, Flags } from '@oclif/core';
-import type { PlaywrightReport, ShardTimingArtifact } from '../core/index.js';
-import { buildTestId } from '../core/index.js';
+import { Command, Errors, Flags } from '@oclif/core';
+import type {
+  PlaywrightReport,
+  PlaywrightSuite,
+  SetupMeasurement,
+  ShardTimingArtifact,
+  TestAttemptTiming,
+  TestOutcome,
+} from '../core/index.js';
+import {
+  buildTestId,
+  createTimingStore,
+  determineOutcome,
+  measureSetupTime,
+  mergeIntoStore,
+  mergeTimingData,
+  normalizeTestFilePath,
+  parseJsonFile,
+  summarizeAttempts,
+  summarizeFileSetup,
+} from '../core/index.js';
+
+/**
+ * Per-test results collected from a Playwright report
+ */
+interface ExtractedResults {
+  attempts: Record<string, TestAttemptTiming>;
+  outcomes: Record<string, TestOutcome>;
+  /** beforeAll/afterAll hook time of first attempts */
+  setup: SetupMeasurement[];
+}
 
 export default class ExtractTiming extends Command {
   static override description =
@@ -11,6 +39,7 @@ export default class ExtractTiming extends Command {
   static override examples = [
     '<%= config.bin %> extract-timing --report-file ./playwright-report/results.json --output-file ./timing.json --project "chromium"',
     '<%= config.bin %> extract-timing --report-file ./results.json --shard 1 --project "Mobile Chrome"',
+    '<%= config.bin %> extract-timing --report-file ./results.json --project chromium --store sqlite://./timing.db',
   ];
 
   static override flags = {
@@ -33,6 +62,10 @@ export default class ExtractTiming extends Command {
       description: 'Playwright project name',
       required: true,
     }),
+    store: Flags.string({
+      description:
+        'Timing store URI to merge the results into (file path, s3://bucket/key or sqlite://path)',
+    }),
     verbose: Flags.boolean({
       char: 'v',
       description: 'Show verbose output',
@@ -44,38 +77,94 @@ export default class ExtractTiming extends Command {
   private testDir: string = '';
   // Root directory from Playwright config (where config file is)
   private rootDir: string = '';
+  // Project whose results go into the artifact
+  private project: string = '';
+  // Projects that the report's results belong to
+  private reportProjects = new Set<string>();
 
   async run(): Promise<void> {
     const { flags } = await this.parse(ExtractTiming);
+    this.project = flags.project;
 
-    // Read Playwright report
+    // Stream the Playwright report; reports of large suites can exceed
+    // what fits in a single string
     const reportPath = path.resolve(flags['report-file']);
-    let report: PlaywrightReport;
+    const results: ExtractedResults = { attempts: {}, outcomes: {}, setup: [] };
+    const pending: PlaywrightSuite[] = [];
 
     try {
-      const content = fs.readFileSync(reportPath, 'utf-8');
-      report = JSON.parse(content) as PlaywrightReport;
-    } catch {
-      this.error(`Failed to read Playwright report: ${reportPath}`);
+      const root = parseJsonFile(reportPath, {
+        streamKeys: ['suites'],
+        onElement: (_key, value, partial) => {
+          const suite = value as PlaywrightSuite;
+          if (!partial.config) {
+            pending.push(suite);
+            return;
+          }
+          if (!this.testDir) {
+            this.resolvePaths(
+              partial.config as PlaywrightReport['config'],
+              flags.project,
+            );
+          }
+          this.extractTestsFromSuite(suite, [], results, true);
+        },
+      });
+
+      // Suites listed before the config section
+      if (!this.testDir) {
+        this.resolvePaths(
+          root.config as PlaywrightReport['config'],
+          flags.project,
+        );
+      }
+      for (const suite of pending) {
+        this.extractTestsFromSuite(suite, [], results, true);
+      }
+    } catch (error) {
+      if (error instanceof Errors.CLIError) {
+        throw error;
+      }
+      const reason =
+        error instanceof Error && error.message.startsWith('[Orchestrator]')
+          ? error.message
+          : `Failed to read Playwright report: ${reportPath}`;
+      this.error(reason);
     }
 
-    // Extract rootDir and testDir from report config
-    const { rootDir, testDir } = this.getPathsFromReport(report, flags.project);
-    this.rootDir = rootDir;
-    this.testDir = testDir;
+    if (
+      this.reportProjects.size > 0 &&
+      !this.reportProjects.has(this.project)
+    ) {
+      this.error(
+        `[Orchestrator] Report has no results for project "${this.project}". ` +
+          `Projects in the report: ${[...this.reportProjects].join(', ')}`,
+      );
+    }
 
     if (flags.verbose) {
       this.log(`Using rootDir: ${this.rootDir}`);
       this.log(`Using testDir: ${this.testDir}`);
     }
 
-    // Extract test-level durations from the natively clean report
-    const testDurations = this.extractTestDurations(report);
+    // Test-level durations from the natively clean report
+    const { attempts, outcomes } = results;
+    const testDurations = Object.fromEntries(
+      Object.entries(attempts).map(([testId, a]) => [testId, a.total]),
+    );
 
     if (flags.verbose) {
+      const retried = Object.values(attempts).filter((a) => a.retries > 0);
       this.log(
         `Extracted timing for ${Object.keys(testDurations).length} tests`,
       );
+      if (retried.length > 0) {
+        this.log(`${retried.length} tests were retried`);
+      }
+      const flaky = Object.values(outcomes).filter((o) => o === 'flaky');
+      if (flaky.length > 0) {
+        this.log(`${flaky.length} tests were flaky`);
+      }
     }
 
     // Create artifact
@@ -83,7 +172,35 @@ export default class ExtractTiming extends Command {
       shard: flags.shard,
       project: flags.project,
       tests: testDurations,
+      attempts,
+      outcomes,
     };
+    const setup = summarizeFileSetup(results.setup);
+    if (Object.keys(setup).length > 0) {
+      artifact.setup = setup;
+      if (flags.verbose) {
+        this.log(
+          `Measured beforeAll/afterAll setup for ${Object.keys(setup).length} files`,
+        );
+      }
+    }
+
+    // Merge straight into shared storage, no merge-timing step needed
+    if (flags.store) {
+      try {
+        const store = createTimingStore(flags.store);
+        const merged = await mergeIntoStore(store, (existing) =>
+          mergeTimingData(existing, [artifact]),
+        );
+        if (flags.verbose) {
+          this.log(
+            `Merged into ${store.location} (${Object.keys(merged.tests).length} tests)`,
+          );
+        }
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    }
 
     const output = JSON.stringify(artifact, null, 2);
 
@@ -93,46 +210,30 @@ export default class ExtractTiming extends Command {
       if (flags.verbose) {
         this.log(`Wrote timing data to ${flags['output-file']}`);
       }
-    } else {
+    } else if (!flags.store) {
       this.log(output);
     }
   }
 
   /**
-   * Extract test-level durations from Playwright report
+   * Recursively extract test attempt timing and outcomes from a suite
    *
-   * Each test is identified by: file::describe::testTitle
-   */
-  private extractTestDurations(
-    report: PlaywrightReport,
-  ): Record<string, number> {
-    const testDurations: Record<string, number> = {};
-
-    for (const suite of report.suites) {
-      // Root suites represent files - their title is the filename
-      // We skip this title from titlePath since it's redundant with file
-      // This matches test-discovery.ts behavior
-      this.extractTestsFromSuite(suite, [], testDurations, true);
-    }
-
-    return testDurations;
-  }
-
-  /**
-   * Recursively extract test durations from a suite
+   * Root suites represent files - their title is the filename, which is
+   * skipped from titlePath since it's redundant with file. This matches
+   * test-discovery.ts behavior.
    *
    * @param suite - Playwright suite from JSON report
    * @param parentTitles - Title path from parent suites (describe blocks)
-   * @param testDurations - Map to collect test durations
+   * @param results - Maps to collect test attempt timing, outcomes and hook time
    * @param isRootSuite - Whether this is a root file suite (title is filename, should be skipped)
    */
   private extractTestsFromSuite(
-    suite: PlaywrightReport['suites'][0],
+    suite: PlaywrightSuite,
     parentTitles: string[],
-    testDurations: Record<string, number>,
+    results: ExtractedResults,
     isRootSuite = false,
   ): void {
-    const file = this.normalizeFilePath(suite.file);
+    const file = normalizeTestFilePath(suite.file, this.rootDir, this.testDir);
     // Root suites have the filename as title - skip it from titlePath
     // Nested suites (describe blocks) have meaningful titles to include
     // This matches test-discovery.ts behavior exactly
@@ -144,18 +245,37 @@ export default class ExtractTiming extends Command {
     // Process specs (actual tests)
     if (suite.specs) {
       for (const spec of suite.specs) {
+        // A report of several projects runs each spec once per project;
+        // the artifact holds the results of its own project only
+        const tests = spec.tests.filter((test) => {
+          if (!test.projectName) return true;
+          this.reportProjects.add(test.projectName);
+          return test.projectName === this.project;
+        });
+        if (tests.length === 0) continue;
+
         const titlePath = [...currentTitles, spec.title];
         const testId = buildTestId(file, titlePath);
 
-        // Sum all result durations (including retries)
-        let totalDuration = 0;
-        for (const test of spec.tests) {
-          for (const result of test.results) {
-            totalDuration += result.duration;
+        // Keep the first attempt apart from retries
+        results.attempts[testId] = summarizeAttempts(
+          tests.map((test) => test.results),
+        );
+        results.outcomes[testId] = determineOutcome(tests);
+
+        // Retries run the hooks again; only first attempts show the
+        // cost of running the file on a shard
+        for (const test of tests) {
+          const first = test.results[0];
+          const setup = measureSetupTime(first?.steps);
+          if (setup > 0) {
+            results.setup.push({
+              file,
+              workerIndex: first?.workerIndex,
+              setup,
+            });
           }
         }
-
-        testDurations[testId] = totalDuration;
       }
     }
 
@@ -170,7 +290,7 @@ export default class ExtractTiming extends Command {
         this.extractTestsFromSuite(
           nestedWithFile,
           currentTitles,
-          testDurations,
+          results,
           false, // Nested suites are never root suites
         );
       }
@@ -178,61 +298,16 @@ export default class ExtractTiming extends Command {
   }
 
   /**
-   * Normalize file path to be relative to testDir.
-   *
-   * DETERMINISTIC APPROACH:
-   * 1. suite.file in Playwright report is always relative to rootDir
-   * 2. testDir is either absolute or relative to rootDir
-   * 3. We resolve both to get absolute paths, then compute relative path
-   *
-   * This ensures consistent test IDs regardless of container path differences.
-   */
-  private normalizeFilePath(filePath: string): string {
-    const normalizedFile = filePath.replace(/\\/g, '/');
-    const normalizedTestDir = this.testDir.replace(/\\/g, '/');
-    const normalizedRootDir = this.rootDir.replace(/\\/g, '/');
-
-    // suite.file in Playwright JSON report is relative to rootDir
-    // Resolve it to get the "logical" absolute path
-    const absoluteFile = path.isAbsolute(normalizedFile)
-      ? normalizedFile
-      : path.join(normalizedRootDir, normalizedFile).replace(/\\/g, '/');
-
-    // testDir might be relative to rootDir, resolve it
-    const absoluteTestDir = path.isAbsolute(normalizedTestDir)
-      ? normalizedTestDir
-      : path.join(normalizedRootDir, normalizedTestDir).replace(/\\/g, '/');
-
-    // Now compute relative path from testDir to file
-    // Both are now in the same "logical" path space
-    const relativePath = path
-      .relative(absoluteTestDir, absoluteFile)
-      .replace(/\\/g, '/');
-
-    // Sanity check: result should not start with ../
-    // If it does, the file is outside testDir which shouldn't happen
-    if (relativePath.startsWith('../')) {
-      // Log warning but continue - use basename as fallback
-      // This handles edge cases where paths are truly mismatched
-      return path.basename(filePath);
-    }
-
-    return relativePath;
-  }
-
-  /**
-   * Extract rootDir and testDir from Playwright report config.
+   * Set rootDir and testDir from Playwright report config.
    *
    * CRITICAL: We need both paths to correctly resolve file locations:
    * - rootDir: where playwright.config.ts is located (absolute)
    * - testDir: where tests are located (can be relative to rootDir)
    */
-  private getPathsFromReport(
-    report: PlaywrightReport,
+  private resolvePaths(
+    config: PlaywrightReport['config'],
     projectName: string,
-  ): { rootDir: string; testDir: string } {
-    const config = report.config;
-
+  ): void {
     if (!config) {
       this.error(
         '[Orchestrator] Report has no config section. ' +
@@ -274,9 +349,9 @@ export default class ExtractTiming extends Command {
       );
     }
 
-    return {
-      rootDir: config.rootDir,
-      testDir: project.testDir,
-    };
+    this.rootDir = config.rootDir;
+    this.testDir = project.testDir;
+    // Results carry the name of the project the paths resolved from
+    this.project = project.name;
   }
 }
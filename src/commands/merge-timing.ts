@@ -2,13 +2,21 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Command, Flags } from '@oclif/core';
 import {
+  applyTestRenames,
+  createTimingStore,
+  DEFAULT_DURATION_SOURCE,
   DEFAULT_EMA_ALPHA,
+  DEFAULT_MERGE_ATTEMPTS,
   DEFAULT_PRUNE_DAYS,
+  type DurationSource,
+  detectRenamedTests,
   loadTimingData,
+  mergeIntoStore,
   mergeTimingData,
   pruneTimingData,
   type ShardTimingArtifact,
   saveTimingData,
+  type TestRename,
   type TimingData,
 } from '../core/index.js';
 
@@ -19,12 +27,14 @@ export default class MergeTiming extends Command {
   static override examples = [
     '<%= config.bin %> merge-timing --existing ./timing.json --new ./shard-1.json ./shard-2.json --output ./timing.json',
     '<%= config.bin %> merge-timing --new ./shard-*.json --output ./timing.json --alpha 0.3 --prune-days 30',
+    '<%= config.bin %> merge-timing --new ./shard-*.json --store s3://ci-timing/app/timing.json',
   ];
 
   static override flags = {
     existing: Flags.string({
       char: 'e',
       description: 'Path to existing timing data JSON (optional)',
+      exclusive: ['store'],
     }),
     new: Flags.string({
       char: 'n',
@@ -34,14 +44,30 @@ export default class MergeTiming extends Command {
     }),
     output: Flags.string({
       char: 'o',
-      description: 'Path to write merged timing data',
-      required: true,
+      description:
+        'Path to write merged timing data (required unless --store is set)',
+    }),
+    store: Flags.string({
+      description:
+        'Timing store URI to merge into (file path, s3://bucket/key or sqlite://path); concurrent merges are retried',
+      exclusive: ['existing'],
+    }),
+    'merge-attempts': Flags.integer({
+      description:
+        'Attempts to merge into --store when other merges write concurrently',
+      default: DEFAULT_MERGE_ATTEMPTS,
     }),
     alpha: Flags.string({
       char: 'a',
       description: 'EMA smoothing factor (0-1)',
       default: String(DEFAULT_EMA_ALPHA),
     }),
+    'duration-source': Flags.string({
+      description:
+        'Measurement that feeds the EMA: first attempt only, or all attempts including retries',
+      default: DEFAULT_DURATION_SOURCE,
+      options: ['first-attempt', 'total'],
+    }),
     'prune-days': Flags.integer({
       description: 'Remove entries older than N days',
       default: DEFAULT_PRUNE_DAYS,
@@ -50,6 +76,12 @@ export default class MergeTiming extends Command {
       description:
         'Path to file listing current test IDs (for pruning deleted tests)',
     }),
+    'detect-renames': Flags.boolean({
+      description:
+        'Carry the history of renamed or moved tests over to their new IDs (needs --current-tests)',
+      default: true,
+      allowNo: true,
+    }),
     verbose: Flags.boolean({
       char: 'v',
       description: 'Show verbose output',
@@ -65,17 +97,8 @@ export default class MergeTiming extends Command {
       this.error('Alpha must be a number between 0 and 1');
     }
 
-    // Load existing timing data
-    let existingData: TimingData | null = null;
-    if (flags.existing) {
-      existingData = loadTimingData(flags.existing);
-    }
-
-    if (flags.verbose) {
-      const testCount = existingData
-        ? Object.keys(existingData.tests).length
-        : 0;
-      this.log(`Loaded existing timing data with ${testCount} tests`);
+    if (!flags.output && !flags.store) {
+      this.error('Either --output or --store is required');
     }
 
     // Load new timing artifacts
@@ -92,6 +115,14 @@ export default class MergeTiming extends Command {
             this.log(
               `Loaded timing artifact from shard ${artifact.shard} with ${Object.keys(artifact.tests).length} tests`,
             );
+            const outcomes = Object.values(artifact.outcomes ?? {});
+            const skipped = outcomes.filter((o) => o === 'skipped').length;
+            const flaky = outcomes.filter((o) => o === 'flaky').length;
+            if (skipped > 0 || flaky > 0) {
+              this.log(
+                `  ${flaky} flaky, ${skipped} skipped (skipped tests keep their timing)`,
+              );
+            }
           }
         } else if (flags.verbose) {
           this.warn(`Artifact ${artifactPath} has no tests, skipping`);
@@ -106,15 +137,6 @@ export default class MergeTiming extends Command {
       return;
     }
 
-    // Merge timing data using EMA
-    let mergedData = mergeTimingData(existingData, newArtifacts, alpha);
-
-    if (flags.verbose) {
-      this.log(
-        `Merged timing data now has ${Object.keys(mergedData.tests).length} tests`,
-      );
-    }
-
     // Load current test IDs for pruning if provided
     let currentTestIds: string[] | undefined;
     if (flags['current-tests']) {
@@ -128,24 +150,101 @@ export default class MergeTiming extends Command {
       }
     }
 
-    // Prune old entries
-    const beforePrune = Object.keys(mergedData.tests).length;
-    mergedData = pruneTimingData(
-      mergedData,
-      flags['prune-days'],
-      currentTestIds,
-    );
-    const afterPrune = Object.keys(mergedData.tests).length;
+    // Only a full list of current tests tells renamed tests from tests that
+    // didn't run (missing shards, tag filters, selected runs)
+    const renameTargets = flags['detect-renames'] ? currentTestIds : undefined;
+    if (flags['detect-renames'] && !renameTargets && flags.verbose) {
+      this.log('Skipping rename detection without --current-tests');
+    }
+    let renames: TestRename[] = [];
+
+    const merge = (existingData: TimingData | null): TimingData => {
+      if (flags.verbose) {
+        const testCount = existingData
+          ? Object.keys(existingData.tests).length
+          : 0;
+        this.log(`Loaded existing timing data with ${testCount} tests`);
+      }
 
-    if (flags.verbose && beforePrune !== afterPrune) {
-      this.log(`Pruned ${beforePrune - afterPrune} old entries`);
+      // Renamed and moved tests keep their history
+      let existing = existingData;
+      renames = renameTargets
+        ? detectRenamedTests(renameTargets, existingData)
+        : [];
+      if (existing && renames.length > 0) {
+        existing = applyTestRenames(existing, renames);
+        if (flags.verbose) {
+          for (const { from, to, reason } of renames) {
+            this.log(`Renamed ${from} -> ${to} (${reason})`);
+          }
+        }
+      }
+
+      // Merge timing data using EMA
+      let mergedData = mergeTimingData(
+        existing,
+        newArtifacts,
+        alpha,
+        flags['duration-source'] as DurationSource,
+      );
+
+      if (flags.verbose) {
+        this.log(
+          `Merged timing data now has ${Object.keys(mergedData.tests).length} tests`,
+        );
+      }
+
+      // Prune old entries
+      const beforePrune = Object.keys(mergedData.tests).length;
+      mergedData = pruneTimingData(
+        mergedData,
+        flags['prune-days'],
+        currentTestIds,
+      );
+      const afterPrune = Object.keys(mergedData.tests).length;
+
+      if (flags.verbose && beforePrune !== afterPrune) {
+        this.log(`Pruned ${beforePrune - afterPrune} old entries`);
+      }
+
+      return mergedData;
+    };
+
+    let mergedData: TimingData;
+    if (flags.store) {
+      // Compare-and-swap: if another merge saved since we read, re-read
+      // and merge again so neither run's measurements are dropped
+      try {
+        const store = createTimingStore(flags.store);
+        mergedData = await mergeIntoStore(store, merge, {
+          maxAttempts: flags['merge-attempts'],
+          onConflict: (attempt) => {
+            if (flags.verbose) {
+              this.log(
+                `Timing data changed during merge attempt ${attempt}, retrying`,
+              );
+            }
+          },
+        });
+        if (flags.verbose) {
+          this.log(`Saved merged timing data to ${store.location}`);
+        }
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    } else {
+      mergedData = merge(
+        flags.existing ? loadTimingData(flags.existing) : null,
+      );
     }
 
     // Save merged data
-    saveTimingData(flags.output, mergedData);
+    if (flags.output) {
+      saveTimingData(flags.output, mergedData);
 
-    if (flags.verbose) {
-      this.log(`Saved merged timing data to ${flags.output}`);
+      if (flags.verbose) {
+        this.log(`Saved merged timing data to ${flags.output}`);
+      }
     }
 
     // Output summary
@@ -154,6 +253,8 @@ export default class MergeTiming extends Command {
         tests: Object.keys(mergedData.tests).length,
         updatedAt: mergedData.updatedAt,
         version: mergedData.version,
+        generation: mergedData.generation,
+        ...(renames.length > 0 ? { renames } : {}),
       }),
     );
   }
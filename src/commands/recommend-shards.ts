@@ -0,0 +1,185 @@
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import {
+  calculateFileAffinityPenalty,
+  createTimingStore,
+  DEFAULT_CKK_TIMEOUT,
+  DEFAULT_MAX_SHARDS,
+  formatRecommendationText,
+  getAssignableSetupCosts,
+  getAssignableSourceEstimates,
+  getAssignableTestDurations,
+  groupSerialTests,
+  loadAssignableTests,
+  loadTimingData,
+  parseDuration,
+  parseDurationPercentile,
+  recommendShards,
+  type TimingData,
+} from '../core/index.js';
+
+export default class RecommendShards extends Command {
+  static override description =
+    'Recommend the smallest shard count that meets a target wall-clock time';
+
+  static override examples = [
+    '<%= config.bin %> recommend-shards --test-list ./test-list.json --timing-file ./timing.json --target 10m',
+    '<%= config.bin %> recommend-shards --test-list ./test-list.json --store s3://ci-cache/timing.json --target 15m --max-shards 40 --output-format json',
+  ];
+
+  static override flags = {
+    'test-list': Flags.string({
+      description:
+        'Path to JSON file with test list (from npx playwright test --list --reporter=json)',
+      required: true,
+    }),
+    'timing-file': Flags.string({
+      char: 't',
+      description: 'Path to timing data JSON file (optional)',
+      exclusive: ['store'],
+    }),
+    store: Flags.string({
+      description:
+        'Timing store URI: file path, s3://bucket/key or sqlite://path (optional)',
+      exclusive: ['timing-file'],
+    }),
+    target: Flags.string({
+      description: 'Target wall-clock time per shard (e.g. 10m, 90s, 1h 30m)',
+      required: true,
+    }),
+    'min-shards': Flags.integer({
+      description: 'Smallest shard count to evaluate',
+      default: 1,
+      min: 1,
+    }),
+    'max-shards': Flags.integer({
+      description: 'Largest shard count to evaluate',
+      default: DEFAULT_MAX_SHARDS,
+      min: 1,
+    }),
+    project: Flags.string({
+      char: 'p',
+      description:
+        'Playwright project name (repeat to balance several projects across the same shards)',
+      multiple: true,
+      exclusive: ['all-projects'],
+    }),
+    'all-projects': Flags.boolean({
+      description:
+        'Balance every project from the test list across the same shards',
+      default: false,
+    }),
+    'output-format': Flags.string({
+      char: 'f',
+      description: 'Output format',
+      default: 'text',
+      options: ['text', 'json'],
+    }),
+    timeout: Flags.integer({
+      description: 'CKK algorithm timeout per shard count in milliseconds',
+      default: DEFAULT_CKK_TIMEOUT,
+    }),
+    'file-affinity': Flags.boolean({
+      description:
+        'Enable file affinity to keep same-file tests on the same shard',
+      default: true,
+      allowNo: true,
+    }),
+    'file-affinity-penalty': Flags.integer({
+      description:
+        'File affinity penalty in milliseconds (overrides auto-calculation)',
+    }),
+    'source-estimate': Flags.boolean({
+      description:
+        'Estimate tests without timing data from their source (steps, navigations, assertions)',
+      default: true,
+      allowNo: true,
+    }),
+    'duration-percentile': Flags.string({
+      description:
+        'Plan on a percentile of each test duration instead of the mean (e.g. p90)',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      description: 'Show verbose output',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(RecommendShards);
+
+    let target: number;
+    let percentile: number | undefined;
+    let timingData: TimingData | null = null;
+    try {
+      target = parseDuration(flags.target);
+      if (flags['duration-percentile']) {
+        percentile = parseDurationPercentile(flags['duration-percentile']);
+      }
+      if (flags['timing-file']) {
+        timingData = loadTimingData(flags['timing-file']);
+      } else if (flags.store) {
+        timingData = await createTimingStore(flags.store).load();
+      }
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    const testListPath = path.resolve(flags['test-list']);
+    const {
+      projects,
+      tests: assignable,
+      multiProject,
+    } = loadAssignableTests(testListPath, {
+      projects: flags.project,
+      allProjects: flags['all-projects'],
+    });
+    const sourceEstimates = flags['source-estimate']
+      ? getAssignableSourceEstimates(projects, timingData)
+      : undefined;
+    const tests = getAssignableTestDurations(
+      assignable,
+      multiProject,
+      timingData,
+      { percentile, sourceEstimates },
+    );
+
+    if (flags.verbose) {
+      const estimated = tests.filter((t) => t.estimated).length;
+      this.log(`Loaded ${tests.length} tests from ${testListPath}`);
+      if (estimated > 0) {
+        this.log(
+          `Estimated duration for ${estimated} tests (no historical data)`,
+        );
+      }
+    }
+
+    const fileAffinityPenalty = flags['file-affinity']
+      ? (flags['file-affinity-penalty'] ??
+        calculateFileAffinityPenalty(timingData))
+      : 0;
+    const fileSetupCosts = flags['file-affinity']
+      ? getAssignableSetupCosts(assignable, multiProject, timingData)
+      : {};
+
+    // Serial groups can't be split, whatever the shard count
+    const recommendation = recommendShards(
+      groupSerialTests(tests).tests,
+      target,
+      {
+        minShards: flags['min-shards'],
+        maxShards: flags['max-shards'],
+        timeout: flags.timeout,
+        fileAffinityPenalty,
+        fileSetupCosts,
+      },
+    );
+
+    this.log(
+      flags['output-format'] === 'json'
+        ? JSON.stringify(recommendation, null, 2)
+        : formatRecommendationText(recommendation),
+    );
+  }
+}
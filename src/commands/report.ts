@@ -0,0 +1,114 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import {
+  buildAssignmentReport,
+  DEFAULT_REPORT_WORST_TESTS,
+  formatReportMarkdown,
+  formatReportText,
+  type ShardTimingArtifact,
+  type TestAssignResult,
+} from '../core/index.js';
+
+export default class Report extends Command {
+  static override description =
+    'Compare predicted shard durations from assign with actual shard timing';
+
+  static override examples = [
+    '<%= config.bin %> report --assignment ./assignment.json --artifacts ./shard-1.json ./shard-2.json',
+    '<%= config.bin %> report --assignment ./assignment.json --artifacts ./shard-*.json --output-format markdown --output-file ./report.md',
+  ];
+
+  static override flags = {
+    assignment: Flags.string({
+      char: 'a',
+      description: 'Path to the JSON output of the assign command',
+      required: true,
+    }),
+    artifacts: Flags.string({
+      char: 'n',
+      description: 'Paths to shard timing artifacts from extract-timing',
+      multiple: true,
+      required: true,
+    }),
+    'output-format': Flags.string({
+      char: 'f',
+      description: 'Output format',
+      default: 'text',
+      options: ['text', 'json', 'markdown'],
+    }),
+    'output-file': Flags.string({
+      char: 'o',
+      description: 'Path to write the report (defaults to stdout)',
+    }),
+    worst: Flags.integer({
+      description: 'Number of worst-predicted tests to list',
+      default: DEFAULT_REPORT_WORST_TESTS,
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      description: 'Show verbose output',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(Report);
+
+    const assignmentPath = path.resolve(flags.assignment);
+    let assignment: TestAssignResult;
+    try {
+      assignment = JSON.parse(
+        fs.readFileSync(assignmentPath, 'utf-8'),
+      ) as TestAssignResult;
+    } catch {
+      this.error(`Failed to read assignment: ${assignmentPath}`);
+    }
+
+    if (!assignment.testDurations && flags.verbose) {
+      this.warn(
+        'Assignment has no per-test durations; worst predictions are unavailable',
+      );
+    }
+
+    const artifacts: ShardTimingArtifact[] = [];
+    for (const artifactPath of flags.artifacts) {
+      try {
+        const content = fs.readFileSync(path.resolve(artifactPath), 'utf-8');
+        const artifact = JSON.parse(content) as ShardTimingArtifact;
+        if (artifact.tests) {
+          artifacts.push(artifact);
+        }
+      } catch {
+        this.warn(`Failed to load timing artifact: ${artifactPath}`);
+      }
+    }
+
+    if (flags.verbose) {
+      this.log(`Loaded ${artifacts.length} timing artifacts`);
+    }
+
+    const report = buildAssignmentReport(assignment, artifacts, flags.worst);
+
+    let output: string;
+    switch (flags['output-format']) {
+      case 'json':
+        output = JSON.stringify(report, null, 2);
+        break;
+      case 'markdown':
+        output = formatReportMarkdown(report);
+        break;
+      default:
+        output = formatReportText(report);
+    }
+
+    if (flags['output-file']) {
+      fs.writeFileSync(flags['output-file'], `${output}\n`, 'utf-8');
+      if (flags.verbose) {
+        this.log(`Wrote report to ${flags['output-file']}`);
+      }
+    } else {
+      this.log(output);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import {
+  filterTestListFiles,
+  findAffectedFiles,
+  getChangedFiles,
+  type ImpactConfig,
+  loadAssignableTests,
+  loadImpactConfig,
+} from '../core/index.js';
+
+export default class Select extends Command {
+  static override description =
+    'Select the tests affected by changed files, as a test list for assign';
+
+  static override examples = [
+    '<%= config.bin %> select --test-list ./test-list.json --base origin/main --output-file ./affected.json',
+    '<%= config.bin %> select --test-list ./test-list.json --changed ./changed-files.txt --config ./impact.json',
+  ];
+
+  static override flags = {
+    'test-list': Flags.string({
+      description:
+        'Path to JSON file with test list (from npx playwright test --list --reporter=json)',
+      required: true,
+    }),
+    changed: Flags.string({
+      description:
+        'Path to a file listing changed files, one per line (relative to the current directory)',
+      exactlyOne: ['changed', 'base'],
+    }),
+    base: Flags.string({
+      description: 'Git ref to diff against, e.g. origin/main',
+      exactlyOne: ['changed', 'base'],
+    }),
+    config: Flags.string({
+      description:
+        'Path to a JSON file with import aliases, extra dependencies and runAll globs',
+    }),
+    'output-file': Flags.string({
+      char: 'o',
+      description: 'Path to write the reduced test list (defaults to stdout)',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      description: 'Show verbose output',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(Select);
+
+    const testListPath = path.resolve(flags['test-list']);
+    let config: ImpactConfig | undefined;
+    let changedFiles: string[] = [];
+    try {
+      if (flags.config) {
+        config = loadImpactConfig(path.resolve(flags.config));
+      }
+      changedFiles = flags.base
+        ? getChangedFiles(flags.base, process.cwd())
+        : readChangedFiles(path.resolve(flags.changed ?? ''));
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    const { rootDir, tests } = loadAssignableTests(testListPath, {
+      allProjects: true,
+    });
+    const specFiles = [
+      ...new Set(
+        tests.map((a) => path.resolve(rootDir, a.testDirPrefix, a.test.file)),
+      ),
+    ];
+
+    const baseDir = flags.config
+      ? path.dirname(path.resolve(flags.config))
+      : process.cwd();
+    const affected = findAffectedFiles(specFiles, changedFiles, {
+      baseDir,
+      config,
+    });
+    const selected = new Set(affected.files);
+    const list = filterTestListFiles(testListPath, (file) =>
+      selected.has(file),
+    );
+
+    if (flags.verbose) {
+      this.log(`${changedFiles.length} changed files`);
+      if (affected.runAll) {
+        this.log(`${affected.runAll} changed, selecting every test`);
+      }
+      for (const file of affected.files) {
+        this.log(`Affected: ${path.relative(rootDir, file)}`);
+      }
+      const selectedTests = tests.filter((a) =>
+        selected.has(path.resolve(rootDir, a.testDirPrefix, a.test.file)),
+      );
+      this.log(
+        `Selected ${selectedTests.length} of ${tests.length} tests in ${selected.size} of ${specFiles.length} files`,
+      );
+    }
+
+    const output = JSON.stringify(list, null, 2);
+    if (flags['output-file']) {
+      fs.writeFileSync(flags['output-file'], `${output}\n`, 'utf-8');
+      if (flags.verbose) {
+        this.log(`Wrote test list to ${flags['output-file']}`);
+      }
+    } else {
+      this.log(output);
+    }
+  }
+}
+
+function readChangedFiles(filePath: string): string[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    throw new Error(`[Orchestrator] Failed to read changed files: ${filePath}`);
+  }
+  return content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map((line) => path.resolve(line));
+}
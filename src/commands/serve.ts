@@ -0,0 +1,176 @@
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import {
+  createTimingStore,
+  DEFAULT_BATCH_DURATION,
+  DEFAULT_COORDINATOR_PORT,
+  DEFAULT_LEASE_TIMEOUT,
+  formatDuration,
+  getAssignableTestDurations,
+  groupSerialTests,
+  loadAssignableTests,
+  loadTimingData,
+  parseDurationPercentile,
+  startCoordinator,
+  type TimingData,
+  toAssignableTestListLine,
+  type WorkItem,
+  WorkQueue,
+} from '../core/index.js';
+
+export default class Serve extends Command {
+  static override description =
+    'Run a coordinator that hands out tests to shards on demand (work stealing)';
+
+  static override examples = [
+    '<%= config.bin %> serve --test-list ./test-list.json --timing-file ./timing.json',
+    '<%= config.bin %> serve --test-list ./test-list.json --store s3://ci-cache/timing.json --host 0.0.0.0 --port 8787',
+    '<%= config.bin %> serve --test-list ./test-list.json --all-projects --batch-duration 120000',
+  ];
+
+  static override flags = {
+    'test-list': Flags.string({
+      description:
+        'Path to JSON file with test list (from npx playwright test --list --reporter=json)',
+      required: true,
+    }),
+    'timing-file': Flags.string({
+      char: 't',
+      description: 'Path to timing data JSON file (optional)',
+      exclusive: ['store'],
+    }),
+    store: Flags.string({
+      description:
+        'Timing store URI: file path, s3://bucket/key or sqlite://path (optional)',
+      exclusive: ['timing-file'],
+    }),
+    project: Flags.string({
+      char: 'p',
+      description: 'Playwright project name (repeat to serve several projects)',
+      multiple: true,
+      exclusive: ['all-projects'],
+    }),
+    'all-projects': Flags.boolean({
+      description: 'Serve every project from the test list',
+      default: false,
+    }),
+    host: Flags.string({
+      description: 'Interface to listen on (use 0.0.0.0 for remote workers)',
+      default: '127.0.0.1',
+    }),
+    port: Flags.integer({
+      description: 'Port to listen on (0 picks a free port)',
+      default: DEFAULT_COORDINATOR_PORT,
+    }),
+    'batch-duration': Flags.integer({
+      description:
+        'Target expected duration of each batch in milliseconds (at least one test per batch)',
+      default: DEFAULT_BATCH_DURATION,
+    }),
+    'lease-timeout': Flags.integer({
+      description:
+        'Milliseconds before an unfinished batch is handed to another worker',
+      default: DEFAULT_LEASE_TIMEOUT,
+    }),
+    'duration-percentile': Flags.string({
+      description:
+        'Order the queue by a percentile of each test duration instead of the mean (e.g. p90)',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      description: 'Show verbose output',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(Serve);
+
+    const testListPath = path.resolve(flags['test-list']);
+    const { tests: assignable, multiProject } = loadAssignableTests(
+      testListPath,
+      { projects: flags.project, allProjects: flags['all-projects'] },
+    );
+
+    if (assignable.length === 0) {
+      this.warn(`No tests found in ${testListPath}`);
+    }
+
+    let timingData: TimingData | null = null;
+    let percentile: number | undefined;
+    try {
+      if (flags['timing-file']) {
+        timingData = loadTimingData(flags['timing-file']);
+      } else if (flags.store) {
+        timingData = await createTimingStore(flags.store).load();
+      }
+      if (flags['duration-percentile']) {
+        percentile = parseDurationPercentile(flags['duration-percentile']);
+      }
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    const durations = getAssignableTestDurations(
+      assignable,
+      multiProject,
+      timingData,
+      { percentile },
+    );
+    const lines = new Map<string, string>(
+      assignable.map((a) => [a.key, toAssignableTestListLine(a, multiProject)]),
+    );
+    // A serial group is handed out whole, in one batch
+    const { tests: scheduled, groups } = groupSerialTests(durations);
+    const items: WorkItem[] = scheduled.map((t) => {
+      const members = groups.get(t.testId);
+      const item: WorkItem = {
+        testId: t.testId,
+        file: t.file,
+        duration: t.duration,
+        line: (members ?? [t.testId])
+          .map((id) => lines.get(id) ?? '')
+          .join('\n'),
+      };
+      if (members) {
+        item.tests = members;
+      }
+      return item;
+    });
+
+    const queue = new WorkQueue(items, {
+      batchDuration: flags['batch-duration'],
+      leaseTimeout: flags['lease-timeout'],
+    });
+    const coordinator = await startCoordinator(queue, {
+      host: flags.host,
+      port: flags.port,
+      onBatch: flags.verbose
+        ? (event, batch) =>
+            this.log(
+              `Batch ${batch.id} ${event} by ${batch.worker} (${batch.tests.length} tests, ${formatDuration(batch.duration)})`,
+            )
+        : undefined,
+    });
+
+    this.log(
+      `Coordinator listening on ${coordinator.url} (${durations.length} tests)`,
+    );
+
+    const status = await coordinator.finished;
+    await coordinator.close();
+
+    this.log(`All ${status.completed} tests ran`);
+    for (const [worker, count] of Object.entries(status.workers)) {
+      this.log(`  ${worker}: ${count} tests`);
+    }
+    if (status.expiredBatches > 0) {
+      this.log(
+        `${status.expiredBatches} batches were re-queued after expiring`,
+      );
+    }
+    if (status.failedBatches > 0) {
+      this.warn(`${status.failedBatches} batches failed`);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import {
+  DEFAULT_CKK_TIMEOUT,
+  formatSimulationMarkdown,
+  formatSimulationText,
+  loadTimingData,
+  type ShardTimingArtifact,
+  type SimulationRun,
+  simulateRuns,
+} from '../core/index.js';
+
+/** File name of the timing snapshot in a run directory */
+const SNAPSHOT_FILE = 'timing-data.json';
+
+export default class Simulate extends Command {
+  static override description =
+    'Replay historical runs to compare CKK, LPT, round-robin and native sharding';
+
+  static override examples = [
+    '<%= config.bin %> simulate --run ./runs/1234 --run ./runs/1235 --shards 4',
+    '<%= config.bin %> simulate --run ./runs/1234 --shards 4 --timeout 2000 --file-affinity-penalty 10000 --output-format markdown',
+  ];
+
+  static override flags = {
+    run: Flags.string({
+      char: 'r',
+      description: `Directory of a past run: the ${SNAPSHOT_FILE} it was assigned with and its shard timing artifacts (repeatable)`,
+      multiple: true,
+      required: true,
+    }),
+    shards: Flags.integer({
+      char: 's',
+      description: 'Number of shards to simulate',
+      required: true,
+      min: 1,
+    }),
+    timeout: Flags.integer({
+      description: 'CKK algorithm timeout in milliseconds',
+      default: DEFAULT_CKK_TIMEOUT,
+    }),
+    'file-affinity-penalty': Flags.integer({
+      description:
+        'File affinity penalty for CKK in milliseconds (overrides auto-calculation)',
+    }),
+    'fully-parallel': Flags.boolean({
+      description:
+        'Split single tests instead of files for native sharding, like fullyParallel: true',
+      default: false,
+    }),
+    'output-format': Flags.string({
+      char: 'f',
+      description: 'Output format',
+      default: 'text',
+      options: ['text', 'json', 'markdown'],
+    }),
+    'output-file': Flags.string({
+      char: 'o',
+      description: 'Path to write the simulation (defaults to stdout)',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      description: 'Show verbose output',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(Simulate);
+
+    const runs: SimulationRun[] = [];
+    for (const runDir of flags.run) {
+      const run = this.loadRun(path.resolve(runDir));
+      if (run.artifacts.length === 0) {
+        this.warn(`No timing artifacts in ${runDir}, skipping it`);
+        continue;
+      }
+      if (!run.timingData) {
+        this.warn(
+          `No ${SNAPSHOT_FILE} in ${runDir}; durations are estimated without history`,
+        );
+      }
+      if (flags.verbose) {
+        this.log(
+          `Loaded ${run.artifacts.length} timing artifacts from ${runDir}`,
+        );
+      }
+      runs.push({ ...run, name: runDir });
+    }
+
+    if (runs.length === 0) {
+      this.error('No runs with timing artifacts to simulate');
+    }
+
+    const report = simulateRuns(runs, {
+      numShards: flags.shards,
+      timeoutMs: flags.timeout,
+      fileAffinityPenalty: flags['file-affinity-penalty'],
+      fullyParallel: flags['fully-parallel'],
+    });
+
+    let output: string;
+    switch (flags['output-format']) {
+      case 'json':
+        output = JSON.stringify(report, null, 2);
+        break;
+      case 'markdown':
+        output = formatSimulationMarkdown(report);
+        break;
+      default:
+        output = formatSimulationText(report);
+    }
+
+    if (flags['output-file']) {
+      fs.writeFileSync(flags['output-file'], `${output}\n`, 'utf-8');
+      if (flags.verbose) {
+        this.log(`Wrote simulation to ${flags['output-file']}`);
+      }
+    } else {
+      this.log(output);
+    }
+  }
+
+  private loadRun(runDir: string): Omit<SimulationRun, 'name'> {
+    let files: string[];
+    try {
+      files = fs
+        .readdirSync(runDir)
+        .filter((file) => file.endsWith('.json'))
+        .sort();
+    } catch {
+      this.error(`Failed to read run directory: ${runDir}`);
+    }
+
+    const artifacts: ShardTimingArtifact[] = [];
+    for (const file of files) {
+      if (file === SNAPSHOT_FILE) continue;
+      try {
+        const content = fs.readFileSync(path.join(runDir, file), 'utf-8');
+        const artifact = JSON.parse(content) as ShardTimingArtifact;
+        if (artifact.tests) {
+          artifacts.push(artifact);
+        }
+      } catch {
+        this.warn(`Failed to load timing artifact: ${path.join(runDir, file)}`);
+      }
+    }
+
+    const timingData = files.includes(SNAPSHOT_FILE)
+      ? loadTimingData(path.join(runDir, SNAPSHOT_FILE))
+      : null;
+    return { timingData, artifacts };
+  }
+}
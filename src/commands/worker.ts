@@ -0,0 +1,131 @@
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import {
+  DEFAULT_POLL_INTERVAL,
+  DEFAULT_WORKER_GRACE,
+  formatDuration,
+  runWorker,
+  type WorkBatch,
+} from '../core/index.js';
+
+/**
+ * Placeholder in --command replaced by the batch's test-list file
+ */
+const TEST_LIST_PLACEHOLDER = '{testList}';
+
+export default class Worker extends Command {
+  static override description =
+    'Pull tests from a coordinator started with `serve` and run them until none are left';
+
+  static override examples = [
+    '<%= config.bin %> worker --url http://127.0.0.1:8787',
+    '<%= config.bin %> worker --url http://orchestrator:8787 --name shard-2 --command "npx playwright test --project chromium"',
+    '<%= config.bin %> worker --url http://127.0.0.1:8787 --command "npx playwright test --test-list {testList} --reporter=blob"',
+  ];
+
+  static override flags = {
+    url: Flags.string({
+      char: 'u',
+      description: 'Coordinator URL printed by `serve`',
+      required: true,
+    }),
+    name: Flags.string({
+      char: 'n',
+      description:
+        'Worker name reported to the coordinator (default: host-pid)',
+    }),
+    command: Flags.string({
+      char: 'c',
+      description: `Command to run for each batch; --test-list <file> is appended unless it contains ${TEST_LIST_PLACEHOLDER}`,
+      default: 'npx playwright test',
+    }),
+    'test-list-file': Flags.string({
+      description:
+        'Where to write each batch test-list (default: a temporary file)',
+    }),
+    'poll-interval': Flags.integer({
+      description:
+        'Milliseconds between polls while other workers finish the last batches',
+      default: DEFAULT_POLL_INTERVAL,
+    }),
+    grace: Flags.integer({
+      description:
+        'Milliseconds to keep retrying a coordinator that has not answered yet; after that the worker fails',
+      default: DEFAULT_WORKER_GRACE,
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      description: 'Show verbose output',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(Worker);
+
+    const name = flags.name ?? `${os.hostname()}-${process.pid}`;
+    const tmpDir = flags['test-list-file']
+      ? undefined
+      : fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-worker-'));
+    const testListFile = path.resolve(
+      flags['test-list-file'] ?? path.join(tmpDir as string, 'test-list.txt'),
+    );
+
+    const runBatch = (batch: WorkBatch): Promise<boolean> => {
+      fs.writeFileSync(testListFile, `${batch.lines.join('\n')}\n`, 'utf-8');
+      const command = flags.command.includes(TEST_LIST_PLACEHOLDER)
+        ? flags.command.replaceAll(TEST_LIST_PLACEHOLDER, `"${testListFile}"`)
+        : `${flags.command} --test-list "${testListFile}"`;
+
+      if (flags.verbose) {
+        this.log(
+          `Batch ${batch.id}: ${batch.tests.length} tests (${formatDuration(batch.duration)} expected)`,
+        );
+      }
+
+      return new Promise((resolve, reject) => {
+        const child = spawn(command, { shell: true, stdio: 'inherit' });
+        child.on('error', reject);
+        child.on('exit', (code) => resolve(code === 0));
+      });
+    };
+
+    let summary: Awaited<ReturnType<typeof runWorker>>;
+    try {
+      summary = await runWorker(flags.url, runBatch, {
+        worker: name,
+        pollInterval: flags['poll-interval'],
+        grace: flags.grace,
+      });
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (tmpDir) {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    }
+
+    if (summary.unreachable && !summary.connected) {
+      this.error(
+        `[Orchestrator] Coordinator at ${flags.url} did not answer within ${formatDuration(flags.grace)}`,
+      );
+    }
+    this.log(
+      `Worker ${name} ran ${summary.tests} tests in ${summary.batches} batches`,
+    );
+    // Only a coordinator that said every test ran means the run is complete
+    if (summary.unreachable) {
+      this.error(
+        `[Orchestrator] Coordinator at ${flags.url} went away before every test ran`,
+      );
+    }
+    if (summary.failedBatches > 0) {
+      this.error(
+        `${summary.failedBatches} of ${summary.batches} batches failed`,
+      );
+    }
+  }
+}
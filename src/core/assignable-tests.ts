@@ -0,0 +1,242 @@
+import * as path from 'node:path';
+import { getTestDurations, type TestDurationOptions } from './estimate.js';
+import { estimateTestsFromSource } from './source-estimate.js';
+import {
+  loadTestListForProjects,
+  loadTestListWithConfig,
+  type MultiProjectTestList,
+} from './test-discovery.js';
+import { type TestListEntry, toTestListFormat } from './test-id.js';
+import { getFileSetupTimes } from './timing-store.js';
+import type { DiscoveredTest, TestWithDuration, TimingData } from './types.js';
+import { buildProjectTestId } from './types.js';
+
+/**
+ * A discovered test together with everything needed to schedule it
+ * and to write it to a --test-list file.
+ */
+export interface AssignableTest {
+  /** Scheduling key (project-qualified in multi-project mode) */
+  key: string;
+  test: DiscoveredTest;
+  project: string;
+  testDirPrefix: string;
+}
+
+/**
+ * Tests loaded from a --list JSON file, ready to be scheduled
+ */
+export interface AssignableTestList extends MultiProjectTestList {
+  /** Tests of every loaded project, in project order */
+  tests: AssignableTest[];
+  /** Whether several projects share the same shards */
+  multiProject: boolean;
+}
+
+/**
+ * Which projects to load from the test list
+ */
+export interface AssignableTestOptions {
+  /** Project names (first project when omitted) */
+  projects?: string[];
+  /** Load every project from the test list */
+  allProjects?: boolean;
+}
+
+/**
+ * Load the requested projects from a --list JSON file as assignable tests
+ *
+ * A single project keeps plain test IDs as scheduling keys. With several
+ * projects (or `allProjects`) keys are qualified by project, since the
+ * same test runs once per project.
+ *
+ * @param testListPath - Path to JSON file (from `npx playwright test --list --reporter=json`)
+ * @param options - Projects to load
+ * @returns Loaded projects and their assignable tests
+ * @throws Error if a project has no testDir
+ */
+export function loadAssignableTests(
+  testListPath: string,
+  options: AssignableTestOptions = {},
+): AssignableTestList {
+  const projectNames = options.allProjects ? undefined : options.projects;
+  const multiProject =
+    options.allProjects === true || (projectNames?.length ?? 0) > 1;
+  const { rootDir, projects } = loadProjects(
+    testListPath,
+    multiProject,
+    projectNames,
+  );
+
+  const tests: AssignableTest[] = [];
+  for (const project of projects) {
+    if (!project.testDir) {
+      throw new Error(
+        '[Orchestrator] project.testDir is missing in test-list.json. ' +
+          'Regenerate with `npx playwright test --list --reporter=json`.',
+      );
+    }
+    const testDirPrefix = getTestDirPrefix(rootDir, project.testDir);
+
+    for (const test of project.tests) {
+      tests.push({
+        key: multiProject
+          ? buildProjectTestId(project.name, test.testId)
+          : test.testId,
+        test,
+        project: project.name,
+        testDirPrefix,
+      });
+    }
+  }
+
+  return { rootDir, projects, tests, multiProject };
+}
+
+/**
+ * Resolve the durations of assignable tests as scheduling inputs
+ *
+ * In multi-project mode the same test runs once per project, so the
+ * scheduling key, the file-affinity key and the serial group are qualified
+ * by project: each project runs in its own workers and shares no setup
+ * with others.
+ *
+ * @param tests - Assignable tests
+ * @param multiProject - Whether keys and files are project-qualified
+ * @param timingData - Timing data (durations are estimated without it)
+ * @param options - Duration options (e.g. percentile scheduling)
+ * @returns Scheduling inputs, in the order of `tests`
+ */
+export function getAssignableTestDurations(
+  tests: AssignableTest[],
+  multiProject: boolean,
+  timingData: TimingData | null,
+  options: TestDurationOptions = {},
+): TestWithDuration[] {
+  const durations = getTestDurations(
+    tests.map((a) => a.test),
+    timingData,
+    options,
+  );
+  return durations.map((t, i) => {
+    const { key, project, test } = tests[i] as AssignableTest;
+    const input: TestWithDuration = {
+      testId: key,
+      file: multiProject ? buildProjectTestId(project, t.file) : t.file,
+      duration: t.duration,
+      estimated: t.estimated,
+    };
+    if (test.serialGroup) {
+      input.serialGroup = multiProject
+        ? buildProjectTestId(project, test.serialGroup)
+        : test.serialGroup;
+    }
+    return input;
+  });
+}
+
+/**
+ * Resolve the measured setup cost of the files of assignable tests
+ *
+ * Keys match the `file` of {@link getAssignableTestDurations}, so in
+ * multi-project mode every project pays the setup of its own copy. Each
+ * project's own measured setup is preferred over the cross-project one.
+ *
+ * @param tests - Assignable tests
+ * @param multiProject - Whether files are project-qualified
+ * @param timingData - Timing data with measured file setup times
+ * @returns Setup cost in ms per file, for files that have been measured
+ */
+export function getAssignableSetupCosts(
+  tests: AssignableTest[],
+  multiProject: boolean,
+  timingData: TimingData | null,
+): Record<string, number> {
+  const setupTimes = new Map<string, Record<string, number>>();
+  const costs: Record<string, number> = {};
+  for (const { test, project } of tests) {
+    if (!setupTimes.has(project)) {
+      setupTimes.set(project, getFileSetupTimes(timingData, project));
+    }
+    const setup = setupTimes.get(project)?.[test.file];
+    if (setup !== undefined) {
+      const file = multiProject
+        ? buildProjectTestId(project, test.file)
+        : test.file;
+      costs[file] = setup;
+    }
+  }
+  return costs;
+}
+
+/**
+ * Estimate tests without timing data from their source, per project
+ *
+ * Each project reads its tests from its own testDir. Estimates are keyed
+ * by plain test ID, as in TestDurationOptions.
+ *
+ * @param projects - Loaded projects with their testDir
+ * @param timingData - Timing data to fit the estimator on
+ * @returns Estimated duration in ms per test ID
+ */
+export function getAssignableSourceEstimates(
+  projects: MultiProjectTestList['projects'],
+  timingData: TimingData | null,
+): Record<string, number> {
+  const estimates: Record<string, number> = {};
+  for (const project of projects) {
+    Object.assign(
+      estimates,
+      estimateTestsFromSource(project.tests, project.testDir, timingData),
+    );
+  }
+  return estimates;
+}
+
+/**
+ * Relative path from rootDir to a project's testDir, used as the prefix
+ * of --test-list paths
+ */
+export function getTestDirPrefix(rootDir: string, testDir: string): string {
+  return rootDir ? path.relative(rootDir, testDir).replace(/\\/g, '/') : '';
+}
+
+/**
+ * Format an assignable test as a --test-list line
+ *
+ * Projects may have different testDirs, so each entry carries its own
+ * prefix. In multi-project mode the line names its project.
+ *
+ * @param test - Assignable test
+ * @param multiProject - Whether to prefix the line with the project
+ * @returns Test-list formatted line
+ */
+export function toAssignableTestListLine(
+  test: AssignableTest,
+  multiProject: boolean,
+): string {
+  const entry: TestListEntry = {
+    file: test.test.file,
+    titlePath: test.test.titlePath,
+  };
+  if (multiProject) {
+    entry.project = test.project;
+  }
+  return toTestListFormat(entry, test.testDirPrefix);
+}
+
+function loadProjects(
+  testListPath: string,
+  multiProject: boolean,
+  projectNames: string[] | undefined,
+): MultiProjectTestList {
+  if (multiProject) {
+    return loadTestListForProjects(testListPath, projectNames);
+  }
+
+  const { tests, rootDir, testDir, project } = loadTestListWithConfig(
+    testListPath,
+    projectNames?.[0],
+  );
+  return { rootDir, projects: [{ name: project, testDir, tests }] };
+}
@@ -1,4 +1,8 @@
-import type { TestShardAssignment, TestWithDuration } from './types.js';
+import type {
+  AssignmentConstraints,
+  TestShardAssignment,
+  TestWithDuration,
+} from './types.js';
 
 /**
  * Default timeout for CKK algorithm in milliseconds
@@ -27,9 +31,27 @@ export interface CKKResult {
  *
  * Falls back to LPT if search exceeds timeout.
  *
+ * With shard weights, shard i runs tests `shardWeights[i]` times as fast
+ * (2 = twice as fast), so a test's duration on it is divided by its weight.
+ * The search then minimises the weighted completion time, and each
+ * `expectedDuration` is the time on that shard.
+ *
+ * Files with a measured setup cost (beforeAll/afterAll hooks) are charged
+ * that cost on every shard they run on, instead of the flat file affinity
+ * penalty.
+ *
+ * Constraints pin tests to a shard or keep groups of tests on different
+ * shards. When no placement satisfies an apart group, the LPT fallback
+ * still places every test, on its pinned shard if it has one; check the
+ * result with `findConstraintViolations`.
+ *
  * @param tests - Tests with their durations
  * @param numShards - Number of shards to distribute across
  * @param timeoutMs - Maximum time to search for optimal solution
+ * @param fileAffinityPenalty - Cost of spreading a file over another shard
+ * @param shardWeights - Speed factor per shard (default: all 1)
+ * @param fileSetupCosts - Measured setup cost in ms per file
+ * @param constraints - Pinned and apart tests
  * @returns Optimal (or near-optimal) shard assignments
  */
 export function assignWithCKK(
@@ -37,6 +59,9 @@ export function assignWithCKK(
   numShards: number,
   timeoutMs: number = DEFAULT_CKK_TIMEOUT,
   fileAffinityPenalty = 0,
+  shardWeights?: number[],
+  fileSetupCosts: Record<string, number> = {},
+  constraints: AssignmentConstraints = {},
 ): CKKResult {
   if (tests.length === 0) {
     return {
@@ -50,17 +75,38 @@ export function assignWithCKK(
     throw new Error('Number of shards must be positive');
   }
 
-  if (numShards >= tests.length) {
+  const speeds = Array.from(
+    { length: numShards },
+    (_, i) => shardWeights?.[i] ?? 1,
+  );
+  const uniform = speeds.every((speed) => speed === 1);
+  const totalSpeed = speeds.reduce((sum, speed) => sum + speed, 0);
+  const constrained = hasConstraints(constraints);
+
+  if (uniform && !constrained && numShards >= tests.length) {
     // More shards than tests - each test gets its own shard
     return assignOnePerShard(tests, numShards);
   }
 
   // Sort tests by duration descending, then by file ascending for better
-  // file-affinity convergence (same-file tests appear adjacent)
+  // file-affinity convergence (same-file tests appear adjacent).
+  // Pinned, then apart tests go first so the others fill around them.
+  const rank = (test: TestWithDuration) =>
+    constraints.pins?.[test.testId] !== undefined
+      ? 0
+      : constraints.apart?.some((group) => group.includes(test.testId))
+        ? 1
+        : 2;
   const sortedTests = [...tests].sort(
-    (a, b) => b.duration - a.duration || a.file.localeCompare(b.file),
+    (a, b) =>
+      (constrained ? rank(a) - rank(b) : 0) ||
+      b.duration - a.duration ||
+      a.file.localeCompare(b.file),
   );
 
+  const hasPenalty =
+    fileAffinityPenalty > 0 || Object.keys(fileSetupCosts).length > 0;
+
   // Precompute per-file test counts for penalty amortization
   const fileTestCounts = new Map<string, number>();
   for (const test of sortedTests) {
@@ -74,6 +120,9 @@ export function assignWithCKK(
     fileAffinityPenalty,
     fileTestCounts,
     new Map(fileTestCounts),
+    speeds,
+    fileSetupCosts,
+    constraints,
   );
   let bestMakespan = lptResult.makespan;
   let bestAssignment = lptResult.assignments;
@@ -86,7 +135,8 @@ export function assignWithCKK(
   const startTime = Date.now();
 
   // Branch and bound search
-  // effectiveLoads include penalty; actualLoads are real durations for output
+  // effectiveLoads include penalty; actualLoads are real durations for output.
+  // Both are times on the shard, i.e. work divided by the shard's speed.
   const effectiveLoads = new Array(numShards).fill(0) as number[];
   const actualLoads = new Array(numShards).fill(0) as number[];
   const shardTests: string[][] = Array.from({ length: numShards }, () => []);
@@ -94,12 +144,17 @@ export function assignWithCKK(
     { length: numShards },
     () => new Set<string>(),
   );
+  const placement = createPlacement(numShards, constraints);
 
   function computePenalty(shardIdx: number, file: string): number {
-    if (fileAffinityPenalty <= 0 || shardFiles[shardIdx]?.has(file)) return 0;
-    const total = fileTestCounts.get(file) ?? 1;
-    const remaining = fileRemaining.get(file) ?? 1;
-    return Math.round(fileAffinityPenalty * (remaining / total));
+    if (shardFiles[shardIdx]?.has(file)) return 0;
+    return getFilePenalty(
+      file,
+      fileAffinityPenalty,
+      fileSetupCosts,
+      fileTestCounts,
+      fileRemaining,
+    );
   }
 
   function search(testIndex: number): boolean {
@@ -136,7 +191,7 @@ export function assignWithCKK(
     // Account for minimum penalties: each unique file among remaining tests
     // that isn't on ANY shard yet will require at least one penalty payment
     let minPenaltyCost = 0;
-    if (fileAffinityPenalty > 0) {
+    if (hasPenalty) {
       const allShardFiles = new Set<string>();
       for (const files of shardFiles) {
         for (const f of files) allShardFiles.add(f);
@@ -147,18 +202,25 @@ export function assignWithCKK(
       }
       // Each new file incurs at least one amortized penalty
       for (const file of newFiles) {
-        const total = fileTestCounts.get(file) ?? 1;
-        const remaining = fileRemaining.get(file) ?? 1;
-        minPenaltyCost += Math.round(fileAffinityPenalty * (remaining / total));
+        minPenaltyCost += getFilePenalty(
+          file,
+          fileAffinityPenalty,
+          fileSetupCosts,
+          fileTestCounts,
+          fileRemaining,
+        );
       }
     }
 
     const currentMax = Math.max(...effectiveLoads);
     const totalAfter =
-      effectiveLoads.reduce((sum, l) => sum + l, 0) +
+      effectiveLoads.reduce((sum, l, i) => sum + l * (speeds[i] ?? 1), 0) +
       remainingDuration +
       minPenaltyCost;
-    const lowerBound = Math.max(currentMax, Math.ceil(totalAfter / numShards));
+    const lowerBound = Math.max(
+      currentMax,
+      uniform ? Math.ceil(totalAfter / numShards) : totalAfter / totalSpeed,
+    );
 
     // Prune if lower bound exceeds best
     if (lowerBound >= bestMakespan) {
@@ -174,15 +236,23 @@ export function assignWithCKK(
     // Skip duplicate states to avoid redundant exploration.
     // When penalty > 0, key on load + whether shard has the file,
     // since two shards with the same load but different file sets are NOT equivalent.
+    // Likewise, shards with different speeds or constraint state are never
+    // equivalent.
     const seenStates = new Set<string>();
 
     for (const shardIdx of shardOrder) {
       const load = effectiveLoads[shardIdx];
       if (load === undefined) continue;
+      if (!placement.allows(test.testId, shardIdx)) continue;
 
+      const speed = speeds[shardIdx] ?? 1;
       const hasFile = shardFiles[shardIdx]?.has(test.file) ?? false;
-      const dedupKey =
-        fileAffinityPenalty > 0 ? `${load}:${hasFile}` : `${load}`;
+      let dedupKey = hasPenalty
+        ? `${load}:${speed}:${hasFile}`
+        : `${load}:${speed}`;
+      if (constrained) {
+        dedupKey += `:${placement.stateKey(shardIdx)}`;
+      }
 
       if (seenStates.has(dedupKey)) {
         continue;
@@ -190,7 +260,8 @@ export function assignWithCKK(
       seenStates.add(dedupKey);
 
       const penalty = computePenalty(shardIdx, test.file);
-      const effectiveCost = test.duration + penalty;
+      const effectiveCost = (test.duration + penalty) / speed;
+      const actualCost = test.duration / speed;
 
       // Prune: if adding to this shard exceeds best makespan, skip
       if (load + effectiveCost >= bestMakespan) {
@@ -199,28 +270,31 @@ export function assignWithCKK(
 
       // Assign test to shard
       effectiveLoads[shardIdx] = load + effectiveCost;
-      actualLoads[shardIdx] = (actualLoads[shardIdx] ?? 0) + test.duration;
+      actualLoads[shardIdx] = (actualLoads[shardIdx] ?? 0) + actualCost;
       const isNewFile = !shardFiles[shardIdx]?.has(test.file);
       shardFiles[shardIdx]?.add(test.file);
       shardTests[shardIdx]?.push(test.testId);
+      placement.add(test.testId, shardIdx);
       fileRemaining.set(test.file, (fileRemaining.get(test.file) ?? 1) - 1);
 
       const completed = search(testIndex + 1);
       if (!completed) {
         // Timeout - restore and return
         effectiveLoads[shardIdx] = load;
-        actualLoads[shardIdx] = (actualLoads[shardIdx] ?? 0) - test.duration;
+        actualLoads[shardIdx] = (actualLoads[shardIdx] ?? 0) - actualCost;
         if (isNewFile) shardFiles[shardIdx]?.delete(test.file);
         shardTests[shardIdx]?.pop();
+        placement.remove(test.testId, shardIdx);
         fileRemaining.set(test.file, (fileRemaining.get(test.file) ?? 0) + 1);
         return false;
       }
 
       // Restore state for backtracking
       effectiveLoads[shardIdx] = load;
-      actualLoads[shardIdx] = (actualLoads[shardIdx] ?? 0) - test.duration;
+      actualLoads[shardIdx] = (actualLoads[shardIdx] ?? 0) - actualCost;
       if (isNewFile) shardFiles[shardIdx]?.delete(test.file);
       shardTests[shardIdx]?.pop();
+      placement.remove(test.testId, shardIdx);
       fileRemaining.set(test.file, (fileRemaining.get(test.file) ?? 0) + 1);
     }
 
@@ -232,6 +306,14 @@ export function assignWithCKK(
     search(0);
   }
 
+  // Scaled durations are fractional; report whole milliseconds
+  if (!uniform) {
+    bestAssignment = bestAssignment.map((a) => ({
+      ...a,
+      expectedDuration: Math.round(a.expectedDuration),
+    }));
+  }
+
   // Return actual makespan (without penalties) for user-facing output
   const actualMakespan =
     bestAssignment.length > 0
@@ -251,6 +333,10 @@ export function assignWithCKK(
  * When fileAffinityPenalty > 0, effective loads include the penalty for each
  * new file introduced to a shard. The returned expectedDuration and makespan
  * reflect effective loads so the CKK search can use them as an upper bound.
+ * Each test goes to the shard where it would finish first, given the
+ * shard speeds. Measured setup costs replace the penalty per file.
+ * Pinned tests go to their shard; apart tests avoid shards holding another
+ * test of their group unless no shard is left.
  */
 function assignWithLPTInternal(
   sortedTests: TestWithDuration[],
@@ -258,6 +344,9 @@ function assignWithLPTInternal(
   fileAffinityPenalty = 0,
   fileTestCounts: Map<string, number> = new Map(),
   fileRemaining: Map<string, number> = new Map(),
+  speeds: number[] = [],
+  fileSetupCosts: Record<string, number> = {},
+  constraints: AssignmentConstraints = {},
 ): { assignments: TestShardAssignment[]; makespan: number } {
   const shards: TestShardAssignment[] = Array.from(
     { length: numShards },
@@ -275,41 +364,64 @@ function assignWithLPTInternal(
     { length: numShards },
     () => new Set<string>(),
   );
+  const placement = createPlacement(numShards, constraints);
 
   for (const test of sortedTests) {
     // Find shard with minimum effective load after assignment (including penalty)
     let minIdx = 0;
     let minCost = Infinity;
 
+    // Without an allowed shard, break the apart rule but keep the pin
+    const pinned = placement.pinnedShard(test.testId);
+    const strict = Array.from({ length: numShards }, (_, i) => i).some((i) =>
+      placement.allows(test.testId, i),
+    );
+
     for (let i = 0; i < numShards; i++) {
-      let penalty = 0;
-      if (fileAffinityPenalty > 0 && !shardFiles[i]?.has(test.file)) {
-        const total = fileTestCounts.get(test.file) ?? 1;
-        const remaining = fileRemaining.get(test.file) ?? 1;
-        penalty = Math.round(fileAffinityPenalty * (remaining / total));
+      if (
+        strict
+          ? !placement.allows(test.testId, i)
+          : pinned !== undefined && pinned !== i
+      ) {
+        continue;
       }
-      const cost = (effectiveLoads[i] ?? 0) + test.duration + penalty;
+      const penalty = shardFiles[i]?.has(test.file)
+        ? 0
+        : getFilePenalty(
+            test.file,
+            fileAffinityPenalty,
+            fileSetupCosts,
+            fileTestCounts,
+            fileRemaining,
+          );
+      const cost =
+        (effectiveLoads[i] ?? 0) + (test.duration + penalty) / (speeds[i] ?? 1);
       if (cost < minCost) {
         minCost = cost;
         minIdx = i;
       }
     }
 
-    let penalty = 0;
-    if (fileAffinityPenalty > 0 && !shardFiles[minIdx]?.has(test.file)) {
-      const total = fileTestCounts.get(test.file) ?? 1;
-      const remaining = fileRemaining.get(test.file) ?? 1;
-      penalty = Math.round(fileAffinityPenalty * (remaining / total));
-    }
+    const penalty = shardFiles[minIdx]?.has(test.file)
+      ? 0
+      : getFilePenalty(
+          test.file,
+          fileAffinityPenalty,
+          fileSetupCosts,
+          fileTestCounts,
+          fileRemaining,
+        );
 
     const shard = shards[minIdx];
     if (shard) {
+      const speed = speeds[minIdx] ?? 1;
       shard.tests.push(test.testId);
       effectiveLoads[minIdx] =
-        (effectiveLoads[minIdx] ?? 0) + test.duration + penalty;
-      actualLoads[minIdx] = (actualLoads[minIdx] ?? 0) + test.duration;
+        (effectiveLoads[minIdx] ?? 0) + (test.duration + penalty) / speed;
+      actualLoads[minIdx] = (actualLoads[minIdx] ?? 0) + test.duration / speed;
       shard.expectedDuration = actualLoads[minIdx] ?? 0;
       shardFiles[minIdx]?.add(test.file);
+      placement.add(test.testId, minIdx);
       fileRemaining.set(test.file, (fileRemaining.get(test.file) ?? 1) - 1);
     }
   }
@@ -320,6 +432,110 @@ function assignWithLPTInternal(
   return { assignments: shards, makespan };
 }
 
+/**
+ * Penalty for adding the first test of a file to a shard.
+ *
+ * A measured setup cost is charged in full, since the shard runs the
+ * file's beforeAll/afterAll hooks again. Otherwise the flat penalty is
+ * amortized over the file's tests that are still unassigned.
+ */
+function getFilePenalty(
+  file: string,
+  fileAffinityPenalty: number,
+  fileSetupCosts: Record<string, number>,
+  fileTestCounts: Map<string, number>,
+  fileRemaining: Map<string, number>,
+): number {
+  const setup = fileSetupCosts[file];
+  if (setup !== undefined) {
+    return setup;
+  }
+  if (fileAffinityPenalty <= 0) {
+    return 0;
+  }
+  const total = fileTestCounts.get(file) ?? 1;
+  const remaining = fileRemaining.get(file) ?? 1;
+  return Math.round(fileAffinityPenalty * (remaining / total));
+}
+
+/**
+ * Tracks which shards a test may still go to under its constraints
+ */
+interface Placement {
+  /** Whether the test may go to the shard (0-based) */
+  allows(testId: string, shardIdx: number): boolean;
+  /** Shard (0-based) the test is pinned to */
+  pinnedShard(testId: string): number | undefined;
+  add(testId: string, shardIdx: number): void;
+  remove(testId: string, shardIdx: number): void;
+  /** Constraint state of a shard, for the search dedup key */
+  stateKey(shardIdx: number): string;
+}
+
+function hasConstraints(constraints: AssignmentConstraints): boolean {
+  return (
+    Object.keys(constraints.pins ?? {}).length > 0 ||
+    (constraints.apart ?? []).some((group) => group.length > 1)
+  );
+}
+
+function createPlacement(
+  numShards: number,
+  constraints: AssignmentConstraints,
+): Placement {
+  const pins = constraints.pins ?? {};
+  const pinnedShards = new Set(Object.values(pins).map((shard) => shard - 1));
+
+  // Apart groups of each test, and how many of each group a shard holds
+  const apartGroups = new Map<string, number[]>();
+  (constraints.apart ?? []).forEach((group, index) => {
+    for (const testId of group) {
+      apartGroups.set(testId, [...(apartGroups.get(testId) ?? []), index]);
+    }
+  });
+  const shardGroups: Map<number, number>[] = Array.from(
+    { length: numShards },
+    () => new Map(),
+  );
+
+  const update = (testId: string, shardIdx: number, delta: number) => {
+    const groups = shardGroups[shardIdx];
+    for (const group of apartGroups.get(testId) ?? []) {
+      const count = (groups?.get(group) ?? 0) + delta;
+      if (count > 0) {
+        groups?.set(group, count);
+      } else {
+        groups?.delete(group);
+      }
+    }
+  };
+
+  return {
+    allows(testId, shardIdx) {
+      const pin = pins[testId];
+      if (pin !== undefined && pin - 1 !== shardIdx) {
+        return false;
+      }
+      const groups = shardGroups[shardIdx];
+      return !(apartGroups.get(testId) ?? []).some((g) => groups?.has(g));
+    },
+    pinnedShard(testId) {
+      const pin = pins[testId];
+      return pin !== undefined ? pin - 1 : undefined;
+    },
+    add: (testId, shardIdx) => update(testId, shardIdx, 1),
+    remove: (testId, shardIdx) => update(testId, shardIdx, -1),
+    stateKey(shardIdx) {
+      const groups = [...(shardGroups[shardIdx]?.keys() ?? [])].sort(
+        (a, b) => a - b,
+      );
+      // Shards targeted by pins are unlike any other shard
+      const pinned = pinnedShards.has(shardIdx) ? `#${shardIdx}` : '';
+      return `${pinned}${groups.join(',')}`;
+    },
+  };
+}
+
 /**
  * Create empty shard assignments
  */
@@ -361,16 +577,58 @@ function assignOnePerShard(
 /**
  * Calculate theoretical lower bound for makespan
  * This is the best possible makespan if we could partition perfectly
+ *
+ * @param shardWeights - Speed factor per shard (default: all 1)
  */
 export function calculateLowerBound(
   tests: TestWithDuration[],
   numShards: number,
+  shardWeights?: number[],
 ): number {
   if (tests.length === 0) return 0;
 
   const totalDuration = tests.reduce((sum, t) => sum + t.duration, 0);
   const maxSingleTest = Math.max(...tests.map((t) => t.duration));
 
+  if (shardWeights) {
+    const speeds = Array.from(
+      { length: numShards },
+      (_, i) => shardWeights[i] ?? 1,
+    );
+    const totalSpeed = speeds.reduce((sum, speed) => sum + speed, 0);
+    // The longest test runs at best on the fastest shard
+    return Math.max(
+      maxSingleTest / Math.max(...speeds),
+      totalDuration / totalSpeed,
+    );
+  }
+
   // Lower bound is max of: largest single item OR total/shards
   return Math.max(maxSingleTest, Math.ceil(totalDuration / numShards));
 }
+
+/**
+ * Parse shard speed factors such as `1,1,2,2`
+ *
+ * @param input - Comma-separated positive numbers, one per shard
+ * @param numShards - Number of shards
+ * @returns Speed factor per shard, in shard order
+ * @throws Error if a weight is invalid or the count doesn't match
+ */
+export function parseShardWeights(input: string, numShards: number): number[] {
+  const parts = input.split(',').map((part) => part.trim());
+  const weights = parts.map(Number);
+
+  if (parts.some((part, i) => part === '' || !((weights[i] ?? 0) > 0))) {
+    throw new Error(
+      `[Orchestrator] Invalid shard weights "${input}". Use positive numbers like 1,1,2,2.`,
+    );
+  }
+  if (weights.length !== numShards) {
+    throw new Error(
+      `[Orchestrator] Got ${weights.length} shard weights for ${numShards} shards. Pass one weight per shard.`,
+    );
+  }
+
+  return weights;
+}
@@ -0,0 +1,447 @@
+import * as fs from 'node:fs';
+import type { AssignableTest } from './assignable-tests.js';
+import { calculateLowerBound } from './ckk-algorithm.js';
+import { formatDuration } from './format.js';
+import {
+  expandSerialGroups,
+  groupSerialTests,
+  type SerialGroupedTests,
+} from './serial-groups.js';
+import { getTestTags } from './tags.js';
+import type {
+  AssignmentConstraints,
+  TestShardAssignment,
+  TestWithDuration,
+} from './types.js';
+
+/**
+ * Placement rules from a constraints file
+ *
+ * Each rule lists patterns. A pattern starting with `@` matches tests
+ * with that tag (`test('pays @sandbox', ...)`). Any other
+ * pattern is a glob matched against the test file and the test ID, so
+ * `checkout/**` and `login.spec.ts::Login::*` both work.
+ */
+export interface ConstraintRules {
+  /** Groups of patterns whose tests must all run on one shard */
+  together?: string[][];
+  /** Groups of patterns whose tests must each run on a different shard */
+  apart?: string[][];
+  /** Tests that must run on a given shard */
+  pin?: PinRule[];
+}
+
+/**
+ * Rule pinning the tests that match any pattern to a shard
+ */
+export interface PinRule {
+  match: string[];
+  /** Shard index (1-based) */
+  shard: number;
+}
+
+/**
+ * Constraint rules resolved to scheduling keys
+ */
+export interface ResolvedConstraints {
+  /** Keys of the tests of each together group */
+  together: string[][];
+  /** Keys of the tests of each apart group */
+  apart: string[][];
+  /** Shard each pinned test must run on */
+  pins: Record<string, number>;
+  /** Patterns that match no test */
+  unmatched: string[];
+}
+
+/**
+ * Load constraint rules from a JSON file
+ *
+ * @param filePath - Path to the constraints file
+ * @returns Validated rules
+ * @throws Error if the file can't be read or a rule is invalid
+ */
+export function loadConstraintRules(filePath: string): ConstraintRules {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    throw new Error(
+      `[Orchestrator] Failed to read constraints file: ${filePath}`,
+    );
+  }
+  return parseConstraintRules(content);
+}
+
+/**
+ * Parse and validate constraint rules
+ *
+ * @param content - Constraints JSON
+ * @returns Validated rules
+ * @throws Error if the JSON or a rule is invalid
+ */
+export function parseConstraintRules(content: string): ConstraintRules {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('[Orchestrator] Constraints file is not valid JSON');
+  }
+  if (!isRecord(data)) {
+    throw new Error(
+      '[Orchestrator] Constraints file must hold an object with together, apart or pin rules',
+    );
+  }
+
+  const rules: ConstraintRules = {};
+  for (const kind of ['together', 'apart'] as const) {
+    const groups = data[kind];
+    if (groups === undefined) continue;
+    if (!Array.isArray(groups) || !groups.every(isPatternList)) {
+      throw new Error(
+        `[Orchestrator] Invalid "${kind}" constraints. Use a list of pattern lists like [["checkout/**", "@account"]].`,
+      );
+    }
+    rules[kind] = groups;
+  }
+
+  if (data.pin !== undefined) {
+    const pins = data.pin;
+    if (
+      !Array.isArray(pins) ||
+      !pins.every(
+        (pin) =>
+          isRecord(pin) &&
+          isPatternList(pin.match) &&
+          Number.isInteger(pin.shard) &&
+          (pin.shard as number) > 0,
+      )
+    ) {
+      throw new Error(
+        '[Orchestrator] Invalid "pin" constraints. Use a list like [{ "match": ["admin/**"], "shard": 1 }].',
+      );
+    }
+    rules.pin = pins as PinRule[];
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a test matches a constraint pattern
+ *
+ * @param test - Assignable test
+ * @param pattern - `@tag`, or a glob for the test file or test ID
+ */
+export function matchesConstraintPattern(
+  test: AssignableTest,
+  pattern: string,
+): boolean {
+  if (pattern.startsWith('@')) {
+    return getTestTags(test.test).includes(pattern);
+  }
+  const regex = globToRegExp(pattern);
+  return regex.test(test.test.file) || regex.test(test.test.testId);
+}
+
+/**
+ * Resolve constraint rules to the scheduling keys of the tests they match
+ *
+ * @param tests - Assignable tests
+ * @param rules - Constraint rules
+ * @param numShards - Number of shards
+ * @returns Keys per rule and the patterns that match nothing
+ * @throws Error if a pin names a missing shard or a test is pinned twice
+ */
+export function resolveConstraintRules(
+  tests: AssignableTest[],
+  rules: ConstraintRules,
+  numShards: number,
+): ResolvedConstraints {
+  const matched = new Set<string>();
+  const resolve = (patterns: string[]) =>
+    tests
+      .filter((test) =>
+        patterns.some((pattern) => {
+          if (!matchesConstraintPattern(test, pattern)) return false;
+          matched.add(pattern);
+          return true;
+        }),
+      )
+      .map((test) => test.key);
+
+  const together = (rules.together ?? []).map(resolve);
+  const apart = (rules.apart ?? []).map(resolve);
+
+  const pins: Record<string, number> = {};
+  for (const pin of rules.pin ?? []) {
+    if (pin.shard > numShards) {
+      throw new Error(
+        `[Orchestrator] Cannot pin ${pin.match.join(', ')} to shard ${pin.shard} of ${numShards}`,
+      );
+    }
+    for (const key of resolve(pin.match)) {
+      const existing = pins[key];
+      if (existing !== undefined && existing !== pin.shard) {
+        throw new Error(
+          `[Orchestrator] Test ${key} is pinned to shards ${existing} and ${pin.shard}`,
+        );
+      }
+      pins[key] = pin.shard;
+    }
+  }
+
+  const patterns = [
+    ...(rules.together ?? []).flat(),
+    ...(rules.apart ?? []).flat(),
+    ...(rules.pin ?? []).flatMap((pin) => pin.match),
+  ];
+  const unmatched = [...new Set(patterns)].filter((p) => !matched.has(p));
+
+  return { together, apart, pins, unmatched };
+}
+
+/**
+ * Apply resolved constraints to scheduling inputs
+ *
+ * Together groups become serial groups, merged with any serial group they
+ * share a test with, so they are scheduled as one item. Pins and apart
+ * groups are then keyed by item: the group ID for grouped tests, the test
+ * ID otherwise.
+ *
+ * @param tests - Scheduling inputs
+ * @param resolved - Resolved constraints
+ * @returns Inputs with together groups, and item constraints for CKK
+ * @throws Error if tests that must run together are pinned to different shards
+ */
+export function applyConstraints(
+  tests: TestWithDuration[],
+  resolved: ResolvedConstraints,
+): { tests: TestWithDuration[]; constraints: AssignmentConstraints } {
+  let inputs = tests;
+  resolved.together.forEach((keys, index) => {
+    const members = new Set(keys);
+    const groups = new Set(
+      inputs
+        .filter((t) => members.has(t.testId) && t.serialGroup)
+        .map((t) => t.serialGroup),
+    );
+    const id = `together:${index + 1}`;
+    inputs = inputs.map((t) =>
+      members.has(t.testId) || (t.serialGroup && groups.has(t.serialGroup))
+        ? { ...t, serialGroup: id }
+        : t,
+    );
+  });
+
+  const toItem = getItemIds(inputs);
+
+  const pins: Record<string, number> = {};
+  for (const [key, shard] of Object.entries(resolved.pins)) {
+    const item = toItem(key);
+    const existing = pins[item];
+    if (existing !== undefined && existing !== shard) {
+      throw new Error(
+        `[Orchestrator] Tests that run together are pinned to shards ${existing} and ${shard}: ${item}`,
+      );
+    }
+    pins[item] = shard;
+  }
+
+  const constraints: AssignmentConstraints = {};
+  if (Object.keys(pins).length > 0) {
+    constraints.pins = pins;
+  }
+  const apart = resolved.apart
+    .map((keys) => [...new Set(keys.map(toItem))])
+    .filter((items) => items.length > 1);
+  if (apart.length > 0) {
+    constraints.apart = apart;
+  }
+
+  return { tests: inputs, constraints };
+}
+
+/**
+ * Split together groups back into their tests once they are assigned
+ *
+ * Together groups only have to share a shard. Unlike serial groups they
+ * need not run in one block or on one worker, so ordering and worker
+ * scheduling see their tests as separate items again. Serial groups
+ * stay whole.
+ *
+ * @param assignments - Assignments of items from {@link applyConstraints}
+ * @param groups - Members of those items (see groupSerialTests)
+ * @param tests - Scheduling inputs before constraints were applied
+ * @returns Assignments of the inputs' own items, with those items
+ */
+export function splitTogetherGroups(
+  assignments: TestShardAssignment[],
+  groups: Map<string, string[]>,
+  tests: TestWithDuration[],
+): SerialGroupedTests & { assignments: TestShardAssignment[] } {
+  const itemOf = new Map(
+    tests.map((t) => [t.testId, t.serialGroup ?? t.testId]),
+  );
+  return {
+    ...groupSerialTests(tests),
+    assignments: expandSerialGroups(assignments, groups).map((a) => ({
+      ...a,
+      tests: [...new Set(a.tests.map((id) => itemOf.get(id) ?? id))],
+    })),
+  };
+}
+
+/**
+ * Explain why constraints rule out a balanced assignment
+ *
+ * Reports apart groups with more items than shards or with tests that
+ * must run together, and shards whose pinned tests alone exceed the
+ * balanced makespan.
+ *
+ * @param tests - Scheduling inputs from {@link applyConstraints}
+ * @param resolved - Resolved constraints
+ * @param numShards - Number of shards
+ * @param shardWeights - Speed factor per shard (default: all 1)
+ * @returns One message per problem
+ */
+export function findConstraintProblems(
+  tests: TestWithDuration[],
+  resolved: ResolvedConstraints,
+  numShards: number,
+  shardWeights?: number[],
+): string[] {
+  const problems: string[] = [];
+  const toItem = getItemIds(tests);
+
+  for (const [i, keys] of resolved.apart.entries()) {
+    const unique = new Set(keys);
+    const items = new Set(keys.map(toItem));
+    if (items.size < unique.size) {
+      problems.push(
+        `Apart group ${i + 1} has tests that must run together, so they share a shard`,
+      );
+    }
+    if (items.size > numShards) {
+      problems.push(
+        `Apart group ${i + 1} needs ${items.size} shards but only ${numShards} exist`,
+      );
+    }
+  }
+
+  const pinnedItems = new Map<string, number>();
+  for (const [key, shard] of Object.entries(resolved.pins)) {
+    pinnedItems.set(toItem(key), shard);
+  }
+  const pinnedLoads = new Map<number, number>();
+  for (const test of tests) {
+    const shard = pinnedItems.get(toItem(test.testId));
+    if (shard !== undefined) {
+      const speed = shardWeights?.[shard - 1] ?? 1;
+      pinnedLoads.set(
+        shard,
+        (pinnedLoads.get(shard) ?? 0) + test.duration / speed,
+      );
+    }
+  }
+
+  const balanced = calculateLowerBound(
+    groupSerialTests(tests).tests,
+    numShards,
+    shardWeights,
+  );
+  for (const [shard, load] of pinnedLoads) {
+    if (load > balanced) {
+      problems.push(
+        `Tests pinned to shard ${shard} take ${formatDuration(load)}, above the balanced ${formatDuration(balanced)}`,
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Find the constraints an assignment breaks
+ *
+ * @param assignments - Shard assignments of scheduling items
+ * @param constraints - Item constraints
+ * @returns One message per broken pin or apart group
+ */
+export function findConstraintViolations(
+  assignments: TestShardAssignment[],
+  constraints: AssignmentConstraints,
+): string[] {
+  const shardOf = new Map<string, number>();
+  for (const assignment of assignments) {
+    for (const testId of assignment.tests) {
+      shardOf.set(testId, assignment.shardIndex);
+    }
+  }
+
+  const violations: string[] = [];
+  for (const [testId, shard] of Object.entries(constraints.pins ?? {})) {
+    const actual = shardOf.get(testId);
+    if (actual !== undefined && actual !== shard) {
+      violations.push(
+        `${testId} is pinned to shard ${shard} but runs on ${actual}`,
+      );
+    }
+  }
+  for (const [i, group] of (constraints.apart ?? []).entries()) {
+    const shards = group.map((testId) => shardOf.get(testId));
+    const shared = shards.filter(
+      (shard, j) => shard !== undefined && shards.indexOf(shard) !== j,
+    );
+    for (const shard of new Set(shared)) {
+      violations.push(`Apart group ${i + 1} shares shard ${shard}`);
+    }
+  }
+  return violations;
+}
+
+/**
+ * Map scheduling keys to the ID of the item they are scheduled in
+ */
+function getItemIds(tests: TestWithDuration[]): (key: string) => string {
+  const items = new Map(
+    tests.map((t) => [t.testId, t.serialGroup ?? t.testId]),
+  );
+  return (key) => items.get(key) ?? key;
+}
+
+/**
+ * Convert a glob to a regular expression
+ *
+ * Supports `**` (any path), `*` (within a path segment) and `?`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] ?? '';
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function isPatternList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((pattern) => typeof pattern === 'string' && pattern !== '')
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
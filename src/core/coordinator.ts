@@ -0,0 +1,369 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { WorkBatch, WorkQueue, WorkQueueStatus } from './work-queue.js';
+
+/**
+ * Default port of the coordinator server
+ */
+export const DEFAULT_COORDINATOR_PORT = 8787;
+
+/**
+ * Default interval in milliseconds at which idle workers poll for work
+ * released by expired leases
+ */
+export const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * Default time in milliseconds a worker keeps trying to reach a
+ * coordinator that hasn't answered yet
+ */
+export const DEFAULT_WORKER_GRACE = 60_000;
+
+/** Longest wait in milliseconds between attempts to reach the coordinator */
+const MAX_RETRY_DELAY = 5000;
+
+/**
+ * Default time in milliseconds the coordinator keeps answering after the
+ * last test ran, so polling workers learn that they can stop
+ */
+export const DEFAULT_DRAIN_TIMEOUT = 30_000;
+
+/**
+ * Options for {@link startCoordinator}
+ */
+export interface CoordinatorOptions {
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on; 0 picks a free port (default: 8787) */
+  port?: number;
+  /** Maximum time to wait for known workers to poll once more after the last test ran (default: 30s) */
+  drainTimeout?: number;
+  /** Called when a batch is leased or completed */
+  onBatch?: (event: 'leased' | 'completed', batch: WorkBatch) => void;
+}
+
+/**
+ * A running coordinator server
+ */
+export interface Coordinator {
+  /** Base URL workers connect to */
+  url: string;
+  /** Resolves once every test has run and every known worker was told to stop */
+  finished: Promise<WorkQueueStatus>;
+  close(): Promise<void>;
+}
+
+/**
+ * Response to a worker asking for work
+ */
+export interface BatchResponse {
+  /** Next batch, or null when nothing is pending right now */
+  batch: WorkBatch | null;
+  /** Whether every test has been run; workers stop once this is true */
+  done: boolean;
+}
+
+/**
+ * Start an HTTP server handing out batches from a work queue
+ *
+ * Endpoints:
+ * - `POST /batches` with `{ "worker": "<name>" }` leases the next batch
+ * - `POST /batches/<id>/complete` with `{ "failed": false }` completes it
+ * - `GET /status` returns the queue status
+ *
+ * @param queue - Queue of tests to hand out
+ * @param options - Address to listen on
+ * @returns The running coordinator
+ */
+export async function startCoordinator(
+  queue: WorkQueue,
+  options: CoordinatorOptions = {},
+): Promise<Coordinator> {
+  let resolveFinished: (status: WorkQueueStatus) => void = () => {};
+  const finished = new Promise<WorkQueueStatus>((resolve) => {
+    resolveFinished = resolve;
+  });
+  const workers: WorkerTracker = { seen: new Set(), stopped: new Set() };
+  let drainTimer: NodeJS.Timeout | undefined;
+  const checkFinished = () => {
+    if (!queue.done) {
+      return;
+    }
+    if ([...workers.seen].every((w) => workers.stopped.has(w))) {
+      resolveFinished(queue.status());
+    } else {
+      // Workers that died never poll again
+      drainTimer ??= setTimeout(
+        () => resolveFinished(queue.status()),
+        options.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT,
+      );
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handleRequest(queue, workers, req, options)
+      .then(({ status, body }) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body));
+        checkFinished();
+      })
+      .catch((error: unknown) => {
+        res.writeHead(400, { 'content-type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      });
+  });
+
+  const host = options.host ?? '127.0.0.1';
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_COORDINATOR_PORT, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  checkFinished();
+  const { port } = server.address() as AddressInfo;
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+
+  return {
+    url: `http://${urlHost}:${port}`,
+    finished,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        clearTimeout(drainTimer);
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Workers that asked for work, and those told that everything ran
+ */
+interface WorkerTracker {
+  seen: Set<string>;
+  stopped: Set<string>;
+}
+
+async function handleRequest(
+  queue: WorkQueue,
+  workers: WorkerTracker,
+  req: http.IncomingMessage,
+  options: CoordinatorOptions,
+): Promise<{ status: number; body: unknown }> {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'GET' && pathname === '/status') {
+    return { status: 200, body: queue.status() };
+  }
+
+  if (req.method === 'POST' && pathname === '/batches') {
+    const { worker } = (await readJsonBody(req)) as { worker?: unknown };
+    if (typeof worker !== 'string' || worker === '') {
+      throw new Error('[Orchestrator] Missing worker name');
+    }
+    workers.seen.add(worker);
+    const batch = queue.next(worker);
+    if (batch) {
+      options.onBatch?.('leased', batch);
+    }
+    const body: BatchResponse = { batch, done: !batch && queue.done };
+    if (body.done) {
+      workers.stopped.add(worker);
+    }
+    return { status: 200, body };
+  }
+
+  const complete = pathname.match(/^\/batches\/(\d+)\/complete$/);
+  if (req.method === 'POST' && complete) {
+    const { failed } = (await readJsonBody(req)) as { failed?: unknown };
+    const batchId = Number(complete[1]);
+    const batch = queue.complete(batchId, failed === true);
+    if (!batch) {
+      return {
+        status: 404,
+        body: { error: `[Orchestrator] Batch ${batchId} is not leased` },
+      };
+    }
+    options.onBatch?.('completed', batch);
+    return { status: 200, body: { ok: true } };
+  }
+
+  return { status: 404, body: { error: 'Not found' } };
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body ? JSON.parse(body) : {};
+}
+
+/**
+ * Options for {@link runWorker}
+ */
+export interface WorkerOptions {
+  /** Worker name reported to the coordinator */
+  worker: string;
+  /** Interval at which to poll while other workers hold the last batches */
+  pollInterval?: number;
+  /**
+   * How long to keep retrying while the coordinator can't be reached and
+   * has never answered, e.g. because it is still starting (default: 60s)
+   */
+  grace?: number;
+}
+
+/**
+ * Summary of a worker's run
+ */
+export interface WorkerSummary {
+  batches: number;
+  tests: number;
+  failedBatches: number;
+  /** Whether the coordinator ever answered */
+  connected: boolean;
+  /**
+   * Whether the worker stopped because the coordinator was gone before
+   * it reported that every test ran
+   */
+  unreachable: boolean;
+}
+
+/**
+ * Pull batches from a coordinator and run them until every test has run
+ *
+ * When the queue is empty but other workers still hold batches, the
+ * worker keeps polling: a batch whose lease expires is handed out again.
+ *
+ * Matrix jobs start at different times, so a coordinator that can't be
+ * reached is retried with backoff until it answers or the grace period
+ * ends. The coordinator keeps answering until every worker it knows has
+ * been told that every test ran, so a coordinator that can't be reached
+ * after it answered, or after the grace period, was lost: the summary is
+ * then marked unreachable and not every test may have run.
+ *
+ * @param url - Coordinator base URL
+ * @param runBatch - Runs a batch, resolving to false if the run failed
+ * @param options - Worker name, poll interval and grace period
+ * @returns What this worker ran
+ */
+export async function runWorker(
+  url: string,
+  runBatch: (batch: WorkBatch) => Promise<boolean>,
+  options: WorkerOptions,
+): Promise<WorkerSummary> {
+  const summary: WorkerSummary = {
+    batches: 0,
+    tests: 0,
+    failedBatches: 0,
+    connected: false,
+    unreachable: false,
+  };
+  const startedAt = Date.now();
+  const grace = options.grace ?? DEFAULT_WORKER_GRACE;
+  let retryDelay = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+
+  while (true) {
+    let response: BatchResponse;
+    try {
+      response = (await postJson(`${url}/batches`, {
+        worker: options.worker,
+      })) as BatchResponse;
+    } catch (error) {
+      if (!(error instanceof CoordinatorUnreachableError)) {
+        throw error;
+      }
+      const remaining = grace - (Date.now() - startedAt);
+      if (summary.connected || remaining <= 0) {
+        summary.unreachable = true;
+        return summary;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(retryDelay, remaining)),
+      );
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+      continue;
+    }
+    summary.connected = true;
+
+    const { batch, done } = response;
+
+    if (!batch) {
+      if (done) {
+        return summary;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, options.pollInterval ?? DEFAULT_POLL_INTERVAL),
+      );
+      continue;
+    }
+
+    const passed = await runBatch(batch);
+    summary.batches++;
+    summary.tests += batch.tests.length;
+    if (!passed) {
+      summary.failedBatches++;
+    }
+    // A 404 means the lease expired and the batch went to another worker;
+    // this run still counts for this worker
+    try {
+      await postJson(
+        `${url}/batches/${batch.id}/complete`,
+        { failed: !passed },
+        [404],
+      );
+    } catch (error) {
+      if (!(error instanceof CoordinatorUnreachableError)) {
+        throw error;
+      }
+      summary.unreachable = true;
+      return summary;
+    }
+  }
+}
+
+/**
+ * The coordinator refused or dropped the connection
+ */
+class CoordinatorUnreachableError extends Error {}
+
+/**
+ * POST a JSON body to the coordinator
+ *
+ * @param allowedStatuses - Error statuses to accept instead of throwing
+ * @throws CoordinatorUnreachableError if the coordinator can't be reached
+ * @throws Error with the coordinator's message on other error responses
+ */
+async function postJson(
+  url: string,
+  body: unknown,
+  allowedStatuses: number[] = [],
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new CoordinatorUnreachableError(
+      `[Orchestrator] Cannot reach coordinator at ${url}`,
+    );
+  }
+  const data = (await response.json()) as { error?: string };
+  if (!response.ok && !allowedStatuses.includes(response.status)) {
+    throw new Error(
+      data.error ??
+        `[Orchestrator] Coordinator responded with ${response.status}`,
+    );
+  }
+  return data;
+}
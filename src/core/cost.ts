@@ -0,0 +1,234 @@
+import {
+  assignWithCKK,
+  type CKKResult,
+  calculateLowerBound,
+} from './ckk-algorithm.js';
+import { parseDuration } from './format.js';
+import type {
+  AssignmentConstraints,
+  AssignmentCost,
+  TestShardAssignment,
+  TestWithDuration,
+} from './types.js';
+
+/**
+ * Runner time and pricing used for cost-aware assignment
+ */
+export interface CostModel {
+  /** Fixed setup time per shard in milliseconds */
+  shardOverhead: number;
+  /** Price per billed runner minute */
+  costPerMinute?: number;
+  /**
+   * Weight of billed runner time against makespan, from 0 (minimise
+   * makespan only) to 1 (minimise billed time only)
+   */
+  costWeight?: number;
+}
+
+/**
+ * CKK result for the best shard count under a cost model
+ */
+export interface CostAwareResult extends CKKResult {
+  cost: AssignmentCost;
+}
+
+const MINUTE = 60_000;
+
+/**
+ * Build a cost model from command-line values
+ *
+ * @param input - Raw `--shard-overhead`, `--cost-per-minute` and `--cost-weight` values
+ * @returns The cost model, or undefined when no value is given
+ * @throws Error if a value is invalid
+ */
+export function parseCostModel(input: {
+  shardOverhead?: string;
+  costPerMinute?: string;
+  costWeight?: string;
+}): CostModel | undefined {
+  if (
+    input.shardOverhead === undefined &&
+    input.costPerMinute === undefined &&
+    input.costWeight === undefined
+  ) {
+    return undefined;
+  }
+
+  const model: CostModel = {
+    shardOverhead:
+      input.shardOverhead !== undefined
+        ? parseDuration(input.shardOverhead)
+        : 0,
+  };
+
+  if (input.costPerMinute !== undefined) {
+    const price = Number(input.costPerMinute);
+    if (input.costPerMinute.trim() === '' || !(price >= 0)) {
+      throw new Error(
+        `[Orchestrator] Invalid cost per minute "${input.costPerMinute}". Use a non-negative number like 0.008.`,
+      );
+    }
+    model.costPerMinute = price;
+  }
+
+  if (input.costWeight !== undefined) {
+    const weight = Number(input.costWeight);
+    if (input.costWeight.trim() === '' || !(weight >= 0 && weight <= 1)) {
+      throw new Error(
+        `[Orchestrator] Invalid cost weight "${input.costWeight}". Use a number between 0 (fastest) and 1 (cheapest).`,
+      );
+    }
+    model.costWeight = weight;
+  }
+
+  return model;
+}
+
+/**
+ * Estimate the runner usage of an assignment
+ *
+ * Shards without tests are not started and cost nothing. Each started
+ * shard pays the setup overhead and is billed in whole minutes.
+ *
+ * @param loads - Expected test time per shard in milliseconds
+ * @param model - Shard overhead and price
+ * @returns Makespan, billed minutes and cost
+ */
+export function estimateAssignmentCost(
+  loads: number[],
+  model: CostModel,
+): AssignmentCost {
+  const used = loads.filter((load) => load > 0);
+  const billedMinutes = used.reduce(
+    (sum, load) => sum + Math.ceil((load + model.shardOverhead) / MINUTE),
+    0,
+  );
+
+  const cost: AssignmentCost = {
+    usedShards: used.length,
+    shardOverhead: model.shardOverhead,
+    makespan: used.length > 0 ? Math.max(...used) + model.shardOverhead : 0,
+    billedMinutes,
+  };
+  if (model.costPerMinute !== undefined) {
+    cost.cost = Math.round(billedMinutes * model.costPerMinute * 100) / 100;
+  }
+  return cost;
+}
+
+/**
+ * Assign tests to at most `maxShards` shards, minimising a weighted mix
+ * of makespan and billed runner time
+ *
+ * Every shard count up to `maxShards` is a candidate; counts whose lower
+ * bound can't beat the best objective found so far are skipped. On ties
+ * the smaller count wins, so extra shards are only used when they help.
+ * Unused shards are returned empty. With shard weights, a count of k uses
+ * the k fastest shards. Counts that leave a pinned shard unused are skipped.
+ *
+ * @param tests - Tests with their durations
+ * @param maxShards - Number of shards available
+ * @param model - Shard overhead, price and cost weight
+ * @param timeoutMs - CKK timeout per shard count
+ * @param fileAffinityPenalty - File affinity penalty passed to CKK
+ * @param shardWeights - Speed factor per shard (default: all 1)
+ * @param fileSetupCosts - Measured setup cost per file passed to CKK
+ * @param constraints - Pinned and apart tests passed to CKK
+ * @returns Assignments for `maxShards` shards with the estimated cost
+ */
+export function assignWithCost(
+  tests: TestWithDuration[],
+  maxShards: number,
+  model: CostModel,
+  timeoutMs?: number,
+  fileAffinityPenalty = 0,
+  shardWeights?: number[],
+  fileSetupCosts?: Record<string, number>,
+  constraints: AssignmentConstraints = {},
+): CostAwareResult {
+  const weight = model.costWeight ?? 0;
+  const totalDuration = tests.reduce((sum, t) => sum + t.duration, 0);
+  const objective = (makespan: number, billedMs: number) =>
+    (1 - weight) * makespan + weight * billedMs;
+
+  // Shard indexes (0-based), fastest first; stable so equal speeds keep order
+  const bySpeed = Array.from({ length: maxShards }, (_, i) => i).sort(
+    (a, b) => (shardWeights?.[b] ?? 1) - (shardWeights?.[a] ?? 1),
+  );
+  const weightsFor = (shards: number) =>
+    shardWeights && bySpeed.slice(0, shards).map((i) => shardWeights[i] ?? 1);
+
+  // Pins name real shards; candidate shard k is the k-th fastest
+  const candidateIndex = (shard: number) => bySpeed.indexOf(shard - 1) + 1;
+  const pins = Object.values(constraints.pins ?? {});
+  const minShards = Math.max(1, ...pins.map(candidateIndex));
+  const candidateConstraints: AssignmentConstraints = {
+    ...constraints,
+    pins: Object.fromEntries(
+      Object.entries(constraints.pins ?? {}).map(([id, shard]) => [
+        id,
+        candidateIndex(shard),
+      ]),
+    ),
+  };
+
+  const evaluate = (shards: number) => {
+    const result = assignWithCKK(
+      tests,
+      shards,
+      timeoutMs,
+      fileAffinityPenalty,
+      weightsFor(shards),
+      fileSetupCosts,
+      candidateConstraints,
+    );
+    const cost = estimateAssignmentCost(
+      result.assignments.map((a) => a.expectedDuration),
+      model,
+    );
+    return {
+      result,
+      cost,
+      value: objective(cost.makespan, cost.billedMinutes * MINUTE),
+    };
+  };
+
+  const fastest = Math.max(...(shardWeights ?? [1]));
+  let best = evaluate(minShards);
+  for (let shards = minShards + 1; shards <= maxShards; shards++) {
+    // Best case for this count: perfect balance, no minute rounding
+    const bound = objective(
+      calculateLowerBound(tests, shards, weightsFor(shards)) +
+        model.shardOverhead,
+      totalDuration / fastest +
+        Math.min(shards, tests.length) * model.shardOverhead,
+    );
+    if (bound >= best.value) {
+      continue;
+    }
+
+    const candidate = evaluate(shards);
+    if (candidate.value < best.value) {
+      best = candidate;
+    }
+  }
+
+  // Keep the requested number of shards; the extra ones stay empty.
+  // Candidate shard k ran on the k-th fastest shard.
+  const assignments = createEmptyShards(maxShards);
+  for (const assignment of best.result.assignments) {
+    const index = bySpeed[assignment.shardIndex - 1] ?? 0;
+    assignments[index] = { ...assignment, shardIndex: index + 1 };
+  }
+
+  return { ...best.result, assignments, cost: best.cost };
+}
+
+function createEmptyShards(count: number): TestShardAssignment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    shardIndex: i + 1,
+    tests: [],
+    expectedDuration: 0,
+  }));
+}
@@ -1,6 +1,8 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { DiscoveredTest, TimingData } from './types.js';
+import { getTestTags } from './tags.js';
+import { getTestTiming } from './timing-store.js';
+import type { DiscoveredTest, ProjectTimingData, TimingData } from './types.js';
 import { parseTestId } from './types.js';
 
 /**
@@ -18,6 +20,27 @@ export const DEFAULT_MS_PER_LINE = 100;
  */
 export const DEFAULT_TEST_DURATION = 30000;
 
+/**
+ * Options for resolving test durations
+ */
+export interface TestDurationOptions {
+  /**
+   * Schedule on this percentile (0-100, exclusive) of each test's duration
+   * distribution instead of the mean. Requires variance in the timing data.
+   */
+  percentile?: number;
+  /**
+   * Default duration in ms per tag, for tests without timing data. A test
+   * with several of these tags gets the longest.
+   */
+  tagDurations?: Record<string, number>;
+  /**
+   * Estimated duration in ms per test ID from the test source (see
+   * estimateTestsFromSource), used before the file and global averages
+   */
+  sourceEstimates?: Record<string, number>;
+}
+
 /**
  * Count the number of lines in a file
  */
@@ -113,15 +136,19 @@ export function estimateTestDuration(
 /**
  * Get durations for a list of discovered tests
  *
- * Uses timing data when available, falls back to estimation
+ * Uses timing data when available (preferring the timing measured in the
+ * test's own project), falls back to a tag default, a source estimate
+ * and finally estimateTestDuration
  *
  * @param tests - List of discovered tests
  * @param timingData - Existing timing data
+ * @param options - Duration options (e.g. percentile scheduling)
  * @returns Array of tests with their durations and estimation flag
  */
 export function getTestDurations(
   tests: DiscoveredTest[],
   timingData: TimingData | null,
+  options: TestDurationOptions = {},
 ): Array<{
   testId: string;
   file: string;
@@ -129,13 +156,18 @@ export function getTestDurations(
   estimated: boolean;
 }> {
   return tests.map((test) => {
-    const existing = timingData?.tests[test.testId];
+    const timing = timingData
+      ? getTestTiming(timingData, test.testId, test.project)
+      : undefined;
 
-    if (existing) {
+    if (timing) {
       return {
         testId: test.testId,
         file: test.file,
-        duration: existing.duration,
+        duration:
+          options.percentile !== undefined
+            ? getDurationAtPercentile(timing, options.percentile)
+            : timing.duration,
         estimated: false,
       };
     }
@@ -143,12 +175,113 @@ export function getTestDurations(
     return {
       testId: test.testId,
       file: test.file,
-      duration: estimateTestDuration(test.testId, timingData),
+      duration:
+        getTagDuration(test, options.tagDurations) ??
+        options.sourceEstimates?.[test.testId] ??
+        estimateTestDuration(test.testId, timingData),
       estimated: true,
     };
   });
 }
 
+/**
+ * Longest default duration among a test's tags
+ */
+function getTagDuration(
+  test: DiscoveredTest,
+  tagDurations: Record<string, number> = {},
+): number | undefined {
+  const durations = getTestTags(test)
+    .map((tag) => tagDurations[tag])
+    .filter((duration) => duration !== undefined);
+  return durations.length > 0 ? Math.max(...durations) : undefined;
+}
+
+/**
+ * Get the duration at a given percentile of a test's duration distribution.
+ *
+ * Models the duration as normally distributed around the EMA duration with
+ * the EMA variance. Tests without variance resolve to their mean.
+ *
+ * @param timing - Timing statistics with duration (mean) and variance
+ * @param percentile - Percentile between 0 and 100 (exclusive)
+ * @returns Duration in milliseconds (never negative)
+ */
+export function getDurationAtPercentile(
+  timing: Pick<ProjectTimingData, 'duration' | 'variance'>,
+  percentile: number,
+): number {
+  const stdDev = Math.sqrt(timing.variance ?? 0);
+  if (stdDev === 0) {
+    return timing.duration;
+  }
+
+  const z = normalQuantile(percentile / 100);
+  return Math.max(0, Math.round(timing.duration + z * stdDev));
+}
+
+/**
+ * Parse a duration percentile such as `p90`, `P99.5` or `75`.
+ *
+ * @param input - Percentile string
+ * @returns Percentile between 0 and 100 (exclusive)
+ * @throws Error if the input is not a valid percentile
+ */
+export function parseDurationPercentile(input: string): number {
+  const match = input.trim().match(/^[pP]?(\d+(?:\.\d+)?)$/);
+  const value = match ? Number(match[1]) : Number.NaN;
+
+  if (Number.isNaN(value) || value <= 0 || value >= 100) {
+    throw new Error(
+      `[Orchestrator] Invalid duration percentile "${input}". Use a value like p50, p90 or p99.`,
+    );
+  }
+
+  return value;
+}
+
+// Coefficients for Acklam's inverse normal CDF approximation
+const QUANTILE_A = [
+  -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+  1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+];
+const QUANTILE_B = [
+  -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+  6.680131188771972e1, -1.328068155288572e1, 1,
+];
+const QUANTILE_C = [
+  -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+  -2.549732539343734, 4.374664141464968, 2.938163982698783,
+];
+const QUANTILE_D = [
+  7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+  3.754408661907416, 1,
+];
+const QUANTILE_P_LOW = 0.02425;
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.15e-9).
+ */
+function normalQuantile(p: number): number {
+  if (p < QUANTILE_P_LOW || p > 1 - QUANTILE_P_LOW) {
+    const q = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)));
+    const tail = horner(QUANTILE_C, q) / horner(QUANTILE_D, q);
+    return p < QUANTILE_P_LOW ? tail : -tail;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (horner(QUANTILE_A, r) * q) / horner(QUANTILE_B, r);
+}
+
+/**
+ * Evaluate a polynomial (highest-order coefficient first) at x
+ */
+function horner(coefficients: number[], x: number): number {
+  return coefficients.reduce((acc, c) => acc * x + c, 0);
+}
+
 /**
  * Calculate average test duration from timing data
  *
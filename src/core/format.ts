@@ -0,0 +1,57 @@
+/**
+ * Format a duration in milliseconds for human-readable output
+ *
+ * @example
+ * formatDuration(95000) // "1m 35s"
+ * formatDuration(4000) // "4s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return minutes > 0
+    ? `${minutes}m ${remainingSeconds}s`
+    : `${remainingSeconds}s`;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
+/**
+ * Parse a human-readable duration into milliseconds
+ *
+ * Accepts one or more `<number><unit>` parts with units `h`, `m`, `s` and
+ * `ms`, or a plain number of milliseconds.
+ *
+ * @example
+ * parseDuration('10m') // 600000
+ * parseDuration('1h 30m') // 5400000
+ * parseDuration('90s') // 90000
+ *
+ * @throws Error if the input is not a positive duration
+ */
+export function parseDuration(input: string): number {
+  const text = input.trim().toLowerCase();
+  let ms = Number.NaN;
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    ms = Number(text);
+  } else if (/^(\d+(\.\d+)?\s*(ms|h|m|s)\s*)+$/.test(text)) {
+    ms = 0;
+    for (const part of text.matchAll(/(\d+(?:\.\d+)?)\s*(ms|h|m|s)/g)) {
+      ms += Number(part[1]) * (DURATION_UNITS[part[2] ?? ''] ?? 0);
+    }
+  }
+
+  if (Number.isNaN(ms) || ms <= 0) {
+    throw new Error(
+      `[Orchestrator] Invalid duration "${input}". Use a value like 90s, 10m or 1h 30m.`,
+    );
+  }
+
+  return Math.round(ms);
+}
@@ -1,8 +1,31 @@
+export * from './assignable-tests.js';
 export * from './ckk-algorithm.js';
+export * from './constraints.js';
+export * from './coordinator.js';
+export * from './cost.js';
 export * from './estimate.js';
+export * from './format.js';
+export * from './json-stream.js';
 export * from './lpt-algorithm.js';
+export * from './native-shard.js';
+export * from './recommend.js';
+export * from './renames.js';
+export * from './report.js';
+export * from './s3-store.js';
+export * from './serial-groups.js';
+export * from './simulate.js';
 export * from './slugify.js';
+export * from './source-estimate.js';
+export * from './sqlite-store.js';
+export * from './store.js';
+export * from './tags.js';
 export * from './test-discovery.js';
 export * from './test-id.js';
+export * from './test-impact.js';
+export * from './test-order.js';
+export * from './test-results.js';
+export * from './timing-reporter.js';
 export * from './timing-store.js';
 export * from './types.js';
+export * from './work-queue.js';
+export * from './worker-schedule.js';
@@ -0,0 +1,504 @@
+import * as fs from 'node:fs';
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * Bytes read from disk per chunk when streaming a JSON file
+ */
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Longest noise line quoted in error messages
+ */
+const MAX_NOISE_SAMPLE = 80;
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Options for streaming a JSON document
+ */
+export interface JsonStreamOptions {
+  /**
+   * Top-level keys whose array elements are handed to `onElement` one at
+   * a time instead of being kept in memory (e.g. `suites`)
+   */
+  streamKeys: string[];
+  /**
+   * Called with each element of a streamed array as soon as it is parsed
+   *
+   * @param key - Top-level key of the array
+   * @param value - The parsed element
+   * @param root - Top-level keys parsed so far (e.g. `config`, when it precedes the array)
+   */
+  onElement: (
+    key: string,
+    value: unknown,
+    root: Record<string, unknown>,
+  ) => void;
+  /** Name of the input for error messages */
+  source?: string;
+}
+
+/**
+ * Parse a JSON object from a string, streaming the arrays in `streamKeys`
+ *
+ * @param text - JSON text, possibly preceded by non-JSON output lines
+ * @param options - Arrays to stream and their element handler
+ * @returns The top-level object without the streamed arrays
+ * @throws Error with the line and column of invalid JSON
+ */
+export function parseJsonText(
+  text: string,
+  options: JsonStreamOptions,
+): Record<string, unknown> {
+  const parser = new JsonStreamParser(options);
+  parser.write(text);
+  return parser.end();
+}
+
+/**
+ * Parse a JSON object from a file in fixed-size chunks, streaming the
+ * arrays in `streamKeys`
+ *
+ * Memory use is bounded by the largest single element of a streamed array
+ * plus the rest of the document, not by the file size.
+ *
+ * @param filePath - Path to the JSON file
+ * @param options - Arrays to stream and their element handler
+ * @returns The top-level object without the streamed arrays
+ * @throws Error with the line and column of invalid JSON
+ */
+export function parseJsonFile(
+  filePath: string,
+  options: JsonStreamOptions,
+): Record<string, unknown> {
+  const parser = new JsonStreamParser({ source: filePath, ...options });
+  const decoder = new StringDecoder('utf8');
+  const buffer = Buffer.alloc(CHUNK_SIZE);
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    while (true) {
+      const bytes = fs.readSync(fd, buffer, 0, CHUNK_SIZE, null);
+      if (bytes === 0) {
+        break;
+      }
+      parser.write(decoder.write(buffer.subarray(0, bytes)));
+    }
+    parser.write(decoder.end());
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return parser.end();
+}
+
+type LexState =
+  | 'noise'
+  | 'noiseLine'
+  | 'structure'
+  | 'string'
+  | 'escape'
+  | 'unicode'
+  | 'number'
+  | 'literal'
+  | 'done';
+
+/**
+ * An object or array being parsed
+ */
+interface Frame {
+  /** Parsed members, or null for a streamed array */
+  container: Record<string, unknown> | unknown[] | null;
+  isArray: boolean;
+  /** Key of the member being parsed (objects) */
+  key: string;
+  expect: 'key' | 'colon' | 'value' | 'comma';
+  /** No members yet, so the container may close */
+  empty: boolean;
+  /** Top-level key, when this is a streamed array */
+  streamKey?: string;
+}
+
+/**
+ * Incremental JSON parser fed with arbitrary chunks
+ *
+ * The document must be an object. Lines before the first line starting
+ * with `{` are skipped as noise (e.g. warnings printed before Playwright's
+ * JSON), and output after the object is ignored.
+ */
+class JsonStreamParser {
+  private readonly options: JsonStreamOptions;
+  private state: LexState = 'noise';
+  private readonly stack: Frame[] = [];
+  private root: Record<string, unknown> | undefined;
+  private token = '';
+  private tokenIsKey = false;
+  private unicode = '';
+  private line = 1;
+  private column = 0;
+  private noiseLines = 0;
+  private noiseSample = '';
+  private jsonStartLine = 0;
+
+  constructor(options: JsonStreamOptions) {
+    this.options = options;
+  }
+
+  write(chunk: string): void {
+    let i = 0;
+    while (i < chunk.length) {
+      if (this.state === 'string') {
+        // Copy runs of plain characters at once
+        let j = i;
+        while (j < chunk.length) {
+          const code = chunk.charCodeAt(j);
+          if (code === 0x22 || code === 0x5c || code < 0x20) {
+            break;
+          }
+          j++;
+        }
+        if (j > i) {
+          this.token += chunk.slice(i, j);
+          this.column += j - i;
+          i = j;
+          continue;
+        }
+      }
+
+      const ch = chunk[i] as string;
+      if (this.consume(ch)) {
+        if (ch === '\n') {
+          this.line++;
+          this.column = 0;
+        } else {
+          this.column++;
+        }
+        i++;
+      }
+    }
+  }
+
+  end(): Record<string, unknown> {
+    if (this.state === 'number' || this.state === 'literal') {
+      this.finishScalar();
+    }
+    if (this.state === 'noise' || this.state === 'noiseLine') {
+      const sample = this.noiseSample
+        ? ` Output starts with: ${JSON.stringify(this.noiseSample)}`
+        : '';
+      throw new Error(
+        `[Orchestrator] No JSON object found in ${this.source()}.${sample}`,
+      );
+    }
+    if (this.state !== 'done' || !this.root) {
+      this.fail('Unexpected end of input');
+    }
+    return this.root;
+  }
+
+  /**
+   * Process one character
+   *
+   * @returns false if the character ended a token and must be processed again
+   */
+  private consume(ch: string): boolean {
+    switch (this.state) {
+      case 'noise':
+        if (ch === '{') {
+          this.jsonStartLine = this.line;
+          this.state = 'structure';
+          return false;
+        }
+        if (!isWhitespace(ch) && ch !== '﻿') {
+          this.noiseLines++;
+          if (this.noiseLines === 1) {
+            this.noiseSample = ch;
+          }
+          this.state = 'noiseLine';
+        }
+        return true;
+      case 'noiseLine':
+        if (ch === '\n') {
+          this.state = 'noise';
+        } else if (
+          this.noiseLines === 1 &&
+          this.noiseSample.length < MAX_NOISE_SAMPLE &&
+          ch !== '\r'
+        ) {
+          this.noiseSample += ch;
+        }
+        return true;
+      case 'done':
+        return true;
+      case 'structure':
+        return this.consumeStructure(ch);
+      case 'string':
+        if (ch === '"') {
+          this.state = 'structure';
+          this.finishString();
+        } else if (ch === '\\') {
+          this.state = 'escape';
+        } else {
+          this.fail('Unescaped control character in string');
+        }
+        return true;
+      case 'escape':
+        if (ch === 'u') {
+          this.unicode = '';
+          this.state = 'unicode';
+          return true;
+        }
+        if (ESCAPES[ch] === undefined) {
+          this.fail(`Invalid escape sequence "\\${ch}"`);
+        }
+        this.token += ESCAPES[ch];
+        this.state = 'string';
+        return true;
+      case 'unicode':
+        if (!/[0-9a-fA-F]/.test(ch)) {
+          this.fail('Invalid unicode escape');
+        }
+        this.unicode += ch;
+        if (this.unicode.length === 4) {
+          this.token += String.fromCharCode(Number.parseInt(this.unicode, 16));
+          this.state = 'string';
+        }
+        return true;
+      case 'number':
+        if (/[0-9eE+\-.]/.test(ch)) {
+          this.token += ch;
+          return true;
+        }
+        this.finishScalar();
+        return false;
+      case 'literal':
+        if (/[a-z]/.test(ch)) {
+          this.token += ch;
+          return true;
+        }
+        this.finishScalar();
+        return false;
+    }
+  }
+
+  private consumeStructure(ch: string): boolean {
+    if (isWhitespace(ch)) {
+      return true;
+    }
+
+    const frame = this.stack[this.stack.length - 1];
+    switch (ch) {
+      case '{':
+        this.startValue(true);
+        this.stack.push({
+          container: {},
+          isArray: false,
+          key: '',
+          expect: 'key',
+          empty: true,
+        });
+        return true;
+      case '[': {
+        this.startValue(false);
+        const streamKey =
+          this.stack.length === 1 &&
+          frame &&
+          this.options.streamKeys.includes(frame.key)
+            ? frame.key
+            : undefined;
+        this.stack.push({
+          container: streamKey ? null : [],
+          isArray: true,
+          key: '',
+          expect: 'value',
+          empty: true,
+          streamKey,
+        });
+        return true;
+      }
+      case '}':
+        if (
+          !frame ||
+          frame.isArray ||
+          !(frame.expect === 'comma' || (frame.expect === 'key' && frame.empty))
+        ) {
+          this.fail('Unexpected "}"');
+        }
+        this.stack.pop();
+        this.completeValue(frame.container);
+        return true;
+      case ']':
+        if (
+          !frame ||
+          !frame.isArray ||
+          !(
+            frame.expect === 'comma' ||
+            (frame.expect === 'value' && frame.empty)
+          )
+        ) {
+          this.fail('Unexpected "]"');
+        }
+        this.stack.pop();
+        if (frame.streamKey) {
+          this.completeMember();
+        } else {
+          this.completeValue(frame.container);
+        }
+        return true;
+      case ':':
+        if (frame?.expect !== 'colon') {
+          this.fail('Unexpected ":"');
+        }
+        frame.expect = 'value';
+        return true;
+      case ',':
+        if (frame?.expect !== 'comma') {
+          this.fail('Unexpected ","');
+        }
+        frame.expect = frame.isArray ? 'value' : 'key';
+        return true;
+      case '"':
+        if (frame?.expect === 'key') {
+          this.tokenIsKey = true;
+        } else {
+          this.startValue(false);
+        }
+        this.token = '';
+        this.state = 'string';
+        return true;
+      default:
+        if (ch === '-' || (ch >= '0' && ch <= '9')) {
+          this.startValue(false);
+          this.token = ch;
+          this.state = 'number';
+          return true;
+        }
+        if (ch === 't' || ch === 'f' || ch === 'n') {
+          this.startValue(false);
+          this.token = ch;
+          this.state = 'literal';
+          return true;
+        }
+        this.fail(`Unexpected character ${JSON.stringify(ch)}`);
+    }
+  }
+
+  /**
+   * Check that a value may start here
+   */
+  private startValue(isObject: boolean): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      if (!isObject) {
+        this.fail('Expected a JSON object');
+      }
+      return;
+    }
+    if (frame.expect !== 'value') {
+      this.fail(
+        frame.expect === 'key'
+          ? 'Expected a property name'
+          : `Expected "${frame.expect === 'colon' ? ':' : ','}"`,
+      );
+    }
+  }
+
+  private finishString(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (this.tokenIsKey && frame) {
+      this.tokenIsKey = false;
+      frame.key = this.token;
+      frame.expect = 'colon';
+      return;
+    }
+    this.completeValue(this.token);
+  }
+
+  private finishScalar(): void {
+    const token = this.token;
+    this.state = 'structure';
+
+    if (/^[-\d]/.test(token)) {
+      if (!NUMBER_PATTERN.test(token)) {
+        this.fail(`Invalid number ${token}`);
+      }
+      this.completeValue(Number(token));
+      return;
+    }
+
+    switch (token) {
+      case 'true':
+        this.completeValue(true);
+        return;
+      case 'false':
+        this.completeValue(false);
+        return;
+      case 'null':
+        this.completeValue(null);
+        return;
+      default:
+        this.fail(`Invalid literal ${token}`);
+    }
+  }
+
+  private completeValue(value: unknown): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.root = value as Record<string, unknown>;
+      this.state = 'done';
+      return;
+    }
+
+    if (frame.streamKey) {
+      this.options.onElement(
+        frame.streamKey,
+        value,
+        this.stack[0]?.container as Record<string, unknown>,
+      );
+    } else if (Array.isArray(frame.container)) {
+      frame.container.push(value);
+    } else if (frame.container) {
+      frame.container[frame.key] = value;
+    }
+    this.completeMember();
+  }
+
+  /**
+   * Mark the current container's member as complete
+   */
+  private completeMember(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (frame) {
+      frame.expect = 'comma';
+      frame.empty = false;
+    }
+  }
+
+  private source(): string {
+    return this.options.source ?? 'JSON input';
+  }
+
+  private fail(message: string): never {
+    const noise =
+      this.noiseLines > 0
+        ? ` (the JSON starts at line ${this.jsonStartLine}, after ${this.noiseLines} ${this.noiseLines === 1 ? 'line' : 'lines'} of other output)`
+        : '';
+    throw new Error(
+      `[Orchestrator] Invalid JSON in ${this.source()} at line ${this.line}, column ${this.column + 1}: ${message}${noise}`,
+    );
+  }
+}
+
+function isWhitespace(ch: string): boolean {
+  return ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+}
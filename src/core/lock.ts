@@ -0,0 +1,74 @@
+import type { LockOptions } from './store.js';
+
+/**
+ * Default time to wait for a merge lock before giving up
+ */
+export const DEFAULT_LOCK_TIMEOUT = 120_000;
+
+/**
+ * Default age after which a lock is considered abandoned
+ */
+export const DEFAULT_LOCK_STALE_AFTER = 600_000;
+
+/**
+ * Delay between lock acquisition attempts
+ */
+const LOCK_RETRY_INTERVAL = 250;
+
+/**
+ * Outcome of a single lock acquisition attempt
+ *
+ * - `acquired`: the lock is now held
+ * - `held`: someone else holds the lock; `since` is when it was taken (ms)
+ * - `retry`: contention without lock details, try again
+ */
+export type LockAttempt =
+  | { status: 'acquired' }
+  | { status: 'held'; since?: number }
+  | { status: 'retry' };
+
+/**
+ * Poll for a lock until it is acquired or the timeout expires
+ *
+ * Locks older than `staleAfter` are assumed to belong to a crashed merge
+ * and are broken with `breakLock`.
+ *
+ * @param location - Lock location, used in error messages
+ * @param tryAcquire - Make a single acquisition attempt
+ * @param breakLock - Remove an abandoned lock
+ * @param options - Timeout and staleness settings
+ */
+export async function acquireLock(
+  location: string,
+  tryAcquire: () => Promise<LockAttempt>,
+  breakLock: () => Promise<void>,
+  options: LockOptions = {},
+): Promise<void> {
+  const timeout = options.timeout ?? DEFAULT_LOCK_TIMEOUT;
+  const staleAfter = options.staleAfter ?? DEFAULT_LOCK_STALE_AFTER;
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const attempt = await tryAcquire();
+    if (attempt.status === 'acquired') {
+      return;
+    }
+
+    if (
+      attempt.status === 'held' &&
+      attempt.since !== undefined &&
+      Date.now() - attempt.since > staleAfter
+    ) {
+      await breakLock();
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `[Orchestrator] Timed out after ${timeout}ms waiting for timing store lock: ${location}`,
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL));
+  }
+}
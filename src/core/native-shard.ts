@@ -0,0 +1,115 @@
+import type { AssignableTest } from './assignable-tests.js';
+import type {
+  AssignStrategy,
+  TestShardAssignment,
+  TestWithDuration,
+} from './types.js';
+
+/** Strategies accepted by `assign --strategy` */
+export const ASSIGN_STRATEGIES: AssignStrategy[] = ['ckk', 'native'];
+
+/**
+ * How Playwright forms the groups it splits across shards
+ */
+export interface NativeShardOptions {
+  /**
+   * Whether the Playwright config sets `fullyParallel`. Without it each
+   * file is one group; with it each test is, except serial groups.
+   */
+  fullyParallel?: boolean;
+}
+
+/**
+ * Emulate Playwright's native `--shard=i/N` split
+ *
+ * Playwright cuts the ordered test list into N ranges of (nearly) equal
+ * test counts, the first shards taking one extra test each when the count
+ * doesn't divide evenly. A group of tests goes to the shard whose range
+ * holds the group's first test. Durations play no part in the split.
+ *
+ * @param tests - Tests in Playwright's run order
+ * @param numShards - Number of shards
+ * @param options - How tests are grouped
+ * @returns Shard assignments; expectedDuration is the sum of the tests
+ */
+export function assignNativeShards(
+  tests: TestWithDuration[],
+  numShards: number,
+  options: NativeShardOptions = {},
+): TestShardAssignment[] {
+  const shards: TestShardAssignment[] = Array.from(
+    { length: numShards },
+    (_, i) => ({ shardIndex: i + 1, tests: [], expectedDuration: 0 }),
+  );
+
+  const groups = new Map<string, TestWithDuration[]>();
+  for (const test of tests) {
+    const key = options.fullyParallel
+      ? (test.serialGroup ?? test.testId)
+      : test.file;
+    groups.set(key, [...(groups.get(key) ?? []), test]);
+  }
+
+  const shardSize = Math.floor(tests.length / numShards);
+  const extraOne = tests.length - shardSize * numShards;
+  const shardOf = (index: number) => {
+    // The first `extraOne` shards hold shardSize + 1 tests
+    const large = (shardSize + 1) * extraOne;
+    return index < large
+      ? Math.floor(index / (shardSize + 1))
+      : extraOne + Math.floor((index - large) / Math.max(1, shardSize));
+  };
+
+  let current = 0;
+  for (const group of groups.values()) {
+    const shard = shards[Math.min(shardOf(current), numShards - 1)];
+    for (const test of group) {
+      shard?.tests.push(test.testId);
+      if (shard) shard.expectedDuration += test.duration;
+    }
+    current += group.length;
+  }
+
+  return shards;
+}
+
+/**
+ * Order tests the way Playwright runs them
+ *
+ * Projects keep their order in the list. Within a project, files follow
+ * Playwright's walk of the test directory, which sorts the entries of
+ * each directory by name, and tests follow their position in the file.
+ *
+ * @param tests - Assignable tests, in project order
+ * @returns The tests in Playwright's run order (a new array)
+ */
+export function sortInNativeOrder(tests: AssignableTest[]): AssignableTest[] {
+  const projectOrder = new Map<string, number>();
+  for (const { project } of tests) {
+    if (!projectOrder.has(project)) {
+      projectOrder.set(project, projectOrder.size);
+    }
+  }
+
+  return [...tests].sort(
+    (a, b) =>
+      (projectOrder.get(a.project) ?? 0) - (projectOrder.get(b.project) ?? 0) ||
+      compareNativeFiles(a.test.file, b.test.file) ||
+      a.test.line - b.test.line ||
+      a.test.column - b.test.column,
+  );
+}
+
+/**
+ * Compare file paths as Playwright's directory walk orders them: by name
+ * within each directory, so `a/z.spec.ts` comes before `a-b.spec.ts`.
+ */
+function compareNativeFiles(a: string, b: string): number {
+  const partsA = a.split('/');
+  const partsB = b.split('/');
+  for (let i = 0; i < Math.min(partsA.length, partsB.length); i++) {
+    const order = (partsA[i] ?? '').localeCompare(partsB[i] ?? '');
+    if (order !== 0) return order;
+  }
+  return partsA.length - partsB.length;
+}
@@ -0,0 +1,171 @@
+import { assignWithCKK, calculateLowerBound } from './ckk-algorithm.js';
+import { formatDuration } from './format.js';
+import type { TestWithDuration } from './types.js';
+
+/**
+ * Default largest shard count considered by {@link recommendShards}
+ */
+export const DEFAULT_MAX_SHARDS = 20;
+
+/**
+ * Expected outcome of running the suite on a given number of shards
+ */
+export interface ShardCountEstimate {
+  shards: number;
+  /** Expected duration of the slowest shard in milliseconds */
+  makespan: number;
+  /** Best makespan any partition could reach */
+  lowerBound: number;
+  /** Makespan saved compared with one shard fewer (0 for the first count) */
+  marginalGain: number;
+  /** Share of runner time spent running tests (total / (shards × makespan)) */
+  efficiency: number;
+  /** Whether CKK found the optimal assignment */
+  isOptimal: boolean;
+}
+
+/**
+ * Result of {@link recommendShards}
+ */
+export interface ShardRecommendation {
+  /** Target wall-clock time in milliseconds */
+  target: number;
+  /** Smallest shard count whose makespan meets the target, or null if none does */
+  recommended: number | null;
+  /** Sum of all test durations in milliseconds */
+  totalDuration: number;
+  /** Longest single test; no shard count gets below it */
+  longestTest: number;
+  /** Largest shard count considered */
+  maxShards: number;
+  /** Makespan per evaluated shard count, in increasing order */
+  curve: ShardCountEstimate[];
+}
+
+/**
+ * Options for {@link recommendShards}
+ */
+export interface RecommendShardsOptions {
+  /** Smallest shard count to evaluate (default: 1) */
+  minShards?: number;
+  /** Largest shard count to evaluate (default: 20) */
+  maxShards?: number;
+  /** CKK timeout per shard count in milliseconds */
+  timeout?: number;
+  /** File affinity penalty passed to CKK */
+  fileAffinityPenalty?: number;
+  /** Measured setup cost per file passed to CKK */
+  fileSetupCosts?: Record<string, number>;
+}
+
+/**
+ * Find the smallest shard count whose expected makespan meets a target
+ *
+ * Counts from `minShards` up are assigned with CKK to build the makespan
+ * curve, skipping those whose lower bound already misses the target. The
+ * search stops at the first count that meets the target, or once the
+ * lower bound shows that more shards can't help: when it is down to the
+ * longest single test.
+ *
+ * @param tests - Tests with their durations
+ * @param target - Target wall-clock time in milliseconds
+ * @param options - Shard count range and CKK settings
+ * @returns The recommendation and the makespan curve
+ */
+export function recommendShards(
+  tests: TestWithDuration[],
+  target: number,
+  options: RecommendShardsOptions = {},
+): ShardRecommendation {
+  const minShards = Math.max(1, options.minShards ?? 1);
+  const maxShards = Math.max(
+    minShards,
+    options.maxShards ?? DEFAULT_MAX_SHARDS,
+  );
+  const totalDuration = tests.reduce((sum, t) => sum + t.duration, 0);
+  const longestTest = tests.reduce((max, t) => Math.max(max, t.duration), 0);
+
+  const curve: ShardCountEstimate[] = [];
+  let recommended: number | null = null;
+
+  for (let shards = minShards; shards <= maxShards; shards++) {
+    const lowerBound = calculateLowerBound(tests, shards);
+    if (lowerBound > target) {
+      if (lowerBound <= longestTest) {
+        break;
+      }
+      continue;
+    }
+
+    const result = assignWithCKK(
+      tests,
+      shards,
+      options.timeout,
+      options.fileAffinityPenalty,
+      undefined,
+      options.fileSetupCosts,
+    );
+    const previous = curve[curve.length - 1];
+    curve.push({
+      shards,
+      makespan: result.makespan,
+      lowerBound,
+      marginalGain: previous ? previous.makespan - result.makespan : 0,
+      efficiency:
+        result.makespan > 0 ? totalDuration / (shards * result.makespan) : 1,
+      isOptimal: result.isOptimal,
+    });
+
+    if (result.makespan <= target) {
+      recommended = shards;
+      break;
+    }
+    if (result.makespan <= longestTest) {
+      break;
+    }
+  }
+
+  return {
+    target,
+    recommended,
+    totalDuration,
+    longestTest,
+    maxShards,
+    curve,
+  };
+}
+
+/**
+ * Format a shard recommendation as plain text, one line per shard count
+ */
+export function formatRecommendationText(
+  recommendation: ShardRecommendation,
+): string {
+  const lines = [
+    '=== Shard Recommendation ===',
+    '',
+    `Target: ${formatDuration(recommendation.target)}`,
+    `Total test time: ${formatDuration(recommendation.totalDuration)}, longest test: ${formatDuration(recommendation.longestTest)}`,
+    '',
+  ];
+
+  for (const point of recommendation.curve) {
+    const gain =
+      point.marginalGain > 0 ? `, -${formatDuration(point.marginalGain)}` : '';
+    const marker = point.shards === recommendation.recommended ? '  <-' : '';
+    lines.push(
+      `${String(point.shards).padStart(3)} ${point.shards === 1 ? 'shard: ' : 'shards:'} ${formatDuration(point.makespan)}${gain} (${Math.round(point.efficiency * 100)}% efficient)${marker}`,
+    );
+  }
+
+  lines.push(
+    '',
+    recommendation.recommended !== null
+      ? `Recommended: ${recommendation.recommended} shards`
+      : recommendation.longestTest > recommendation.target
+        ? `No shard count meets the target: the longest test alone takes ${formatDuration(recommendation.longestTest)}`
+        : `No shard count up to ${recommendation.maxShards} meets the target`,
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,212 @@
+import { createHash } from 'node:crypto';
+import type { TimingData } from './types.js';
+import { parseTestId } from './types.js';
+
+/**
+ * Minimum title similarity (0-1) for an edited title to count as a rename
+ */
+export const DEFAULT_RENAME_SIMILARITY = 0.8;
+
+/**
+ * A test ID inferred to be the new name of a vanished one
+ */
+export interface TestRename {
+  /** Test ID in the timing data */
+  from: string;
+  /** Current test ID */
+  to: string;
+  /**
+   * Why the IDs match
+   * - `moved-file`: the file moved with the same tests
+   * - `moved-test`: the same title path, in another file
+   * - `edited-title`: a similar title path, in the same file
+   */
+  reason: 'moved-file' | 'moved-test' | 'edited-title';
+}
+
+interface ParsedId {
+  id: string;
+  file: string;
+  title: string;
+}
+
+/**
+ * Find current tests that are renamed or moved tests of the timing data
+ *
+ * Compares the tests the timing data knows but that no longer exist with
+ * the current tests it has no data for, in three passes:
+ * 1. A vanished file whose tests hash the same as a new file's moved there
+ * 2. A test whose title path is unique among the vanished tests moved
+ * 3. A test in the same file with a similar title path was edited
+ *
+ * Every match is one-to-one, and ambiguous matches are left out.
+ *
+ * @param currentTestIds - Every current test ID; tests missing from it
+ *   count as vanished, so it must be the full test list, not one run's
+ * @param timingData - Timing data with the known tests
+ * @param minSimilarity - Minimum title similarity for edited titles
+ * @returns Inferred renames
+ */
+export function detectRenamedTests(
+  currentTestIds: string[],
+  timingData: TimingData | null,
+  minSimilarity = DEFAULT_RENAME_SIMILARITY,
+): TestRename[] {
+  if (!timingData) {
+    return [];
+  }
+  const current = new Set(currentTestIds);
+  const vanished = Object.keys(timingData.tests)
+    .filter((id) => !current.has(id))
+    .map(parseId);
+  const added = [...current].filter((id) => !timingData.tests[id]).map(parseId);
+  if (vanished.length === 0 || added.length === 0) {
+    return [];
+  }
+
+  const renames: TestRename[] = [];
+  const used = new Set<string>();
+  const rename = (
+    from: ParsedId,
+    to: ParsedId,
+    reason: TestRename['reason'],
+  ) => {
+    renames.push({ from: from.id, to: to.id, reason });
+    used.add(from.id);
+    used.add(to.id);
+  };
+
+  // 1. Moved files: same tests under a new path
+  const addedFiles = groupByFileHash(added);
+  for (const [hash, files] of groupByFileHash(vanished)) {
+    const targets = addedFiles.get(hash);
+    if (files.length !== 1 || targets?.length !== 1) continue;
+    const target = new Map(
+      (targets[0] ?? []).map((test) => [test.title, test]),
+    );
+    for (const test of files[0] ?? []) {
+      const to = target.get(test.title);
+      if (to) rename(test, to, 'moved-file');
+    }
+  }
+
+  // 2. Moved tests: a title path only one vanished test had
+  const byTitle = (tests: ParsedId[]) => {
+    const map = new Map<string, ParsedId[]>();
+    for (const test of tests) {
+      if (used.has(test.id)) continue;
+      map.set(test.title, [...(map.get(test.title) ?? []), test]);
+    }
+    return map;
+  };
+  const addedTitles = byTitle(added);
+  for (const [title, tests] of byTitle(vanished)) {
+    const targets = addedTitles.get(title);
+    const from = tests[0];
+    const to = targets?.[0];
+    if (tests.length === 1 && targets?.length === 1 && from && to) {
+      rename(from, to, 'moved-test');
+    }
+  }
+
+  // 3. Edited titles: the most similar vanished test of the same file
+  const candidates: Array<{ from: ParsedId; to: ParsedId; score: number }> = [];
+  for (const to of added) {
+    if (used.has(to.id)) continue;
+    for (const from of vanished) {
+      if (used.has(from.id) || from.file !== to.file) continue;
+      const score = similarity(from.title, to.title);
+      if (score >= minSimilarity) {
+        candidates.push({ from, to, score });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  for (const { from, to, score } of candidates) {
+    if (used.has(from.id) || used.has(to.id)) continue;
+    // A tie with another candidate makes the match ambiguous
+    const tied = candidates.some(
+      (c) =>
+        c.score === score &&
+        (c.from !== from || c.to !== to) &&
+        (c.from === from || c.to === to) &&
+        !used.has(c.from.id) &&
+        !used.has(c.to.id),
+    );
+    if (!tied) rename(from, to, 'edited-title');
+  }
+
+  return renames;
+}
+
+/**
+ * Move the timing of renamed tests to their new IDs
+ *
+ * @param data - Timing data
+ * @param renames - Renames from detectRenamedTests
+ * @returns Timing data with the history under the new IDs
+ */
+export function applyTestRenames(
+  data: TimingData,
+  renames: TestRename[],
+): TimingData {
+  if (renames.length === 0) {
+    return data;
+  }
+  const tests = { ...data.tests };
+  for (const { from, to } of renames) {
+    const timing = tests[from];
+    if (!timing) continue;
+    delete tests[from];
+    tests[to] = { ...timing, file: parseTestId(to).file };
+  }
+  return { ...data, tests };
+}
+
+function parseId(id: string): ParsedId {
+  const { file, titlePath } = parseTestId(id);
+  return { id, file, title: titlePath.join('::') };
+}
+
+/**
+ * Group tests by file, then files by a hash of their test titles
+ */
+function groupByFileHash(tests: ParsedId[]): Map<string, ParsedId[][]> {
+  const files = new Map<string, ParsedId[]>();
+  for (const test of tests) {
+    files.set(test.file, [...(files.get(test.file) ?? []), test]);
+  }
+
+  const hashes = new Map<string, ParsedId[][]>();
+  for (const fileTests of files.values()) {
+    const titles = fileTests.map((t) => t.title).sort();
+    const hash = createHash('sha1').update(titles.join('\n')).digest('hex');
+    hashes.set(hash, [...(hashes.get(hash) ?? []), fileTests]);
+  }
+  return hashes;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, from their edit distance
+ */
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (row[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost,
+      );
+    }
+    previous = row;
+  }
+  return previous[b.length] ?? 0;
+}
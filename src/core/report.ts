@@ -0,0 +1,252 @@
+import { formatDuration } from './format.js';
+import type { ShardTimingArtifact, TestAssignResult } from './types.js';
+import { buildProjectTestId } from './types.js';
+
+/**
+ * Default number of worst-predicted tests to include in a report
+ */
+export const DEFAULT_REPORT_WORST_TESTS = 10;
+
+/**
+ * Predicted versus actual duration of a single shard
+ */
+export interface ShardReport {
+  /** Shard index (1-based) */
+  shardIndex: number;
+  /** Number of tests assigned to the shard */
+  tests: number;
+  /** Expected duration from the assignment in ms */
+  predicted: number;
+  /** Measured duration (sum of test durations) in ms */
+  actual: number;
+  /** actual - predicted, in ms */
+  error: number;
+  /** Error relative to the prediction, in percent (null when nothing was predicted) */
+  errorPercent: number | null;
+}
+
+/**
+ * Predicted versus actual duration of a single test
+ */
+export interface TestPredictionReport {
+  /** Test ID as it appears in the assignment */
+  testId: string;
+  /** Shard the test was assigned to */
+  shardIndex: number;
+  /** Predicted duration in ms */
+  predicted: number;
+  /** Measured duration in ms */
+  actual: number;
+  /** actual - predicted, in ms */
+  error: number;
+}
+
+/**
+ * Comparison of an assignment against the measured shard timing
+ */
+export interface AssignmentReport {
+  shards: ShardReport[];
+  /** Largest predicted shard duration in ms */
+  predictedMakespan: number;
+  /** Largest measured shard duration in ms */
+  actualMakespan: number;
+  /** actualMakespan - predictedMakespan, in ms */
+  makespanError: number;
+  /** Makespan error relative to the prediction, in percent */
+  makespanErrorPercent: number | null;
+  /** Tests with the largest absolute prediction error */
+  worstPredictions: TestPredictionReport[];
+  /** Assigned tests with no measurement in any artifact */
+  missingTests: string[];
+}
+
+/**
+ * Compare an assignment's predicted shard durations with the actual
+ * durations from the shard timing artifacts of the same run.
+ *
+ * Artifacts are matched to shards by their `shard` index. For multi-project
+ * assignments, test IDs are qualified with the artifact's project.
+ *
+ * @param assignment - Output of the assign command
+ * @param artifacts - Shard timing artifacts from extract-timing
+ * @param worst - Number of worst-predicted tests to include
+ * @returns Per-shard and per-test prediction errors
+ */
+export function buildAssignmentReport(
+  assignment: TestAssignResult,
+  artifacts: ShardTimingArtifact[],
+  worst: number = DEFAULT_REPORT_WORST_TESTS,
+): AssignmentReport {
+  const actualByTest = new Map<string, number>();
+  const actualByShard = new Map<number, number>();
+
+  for (const artifact of artifacts) {
+    for (const [testId, duration] of Object.entries(artifact.tests)) {
+      const key = assignment.projects
+        ? buildProjectTestId(artifact.project, testId)
+        : testId;
+      actualByTest.set(key, (actualByTest.get(key) ?? 0) + duration);
+      actualByShard.set(
+        artifact.shard,
+        (actualByShard.get(artifact.shard) ?? 0) + duration,
+      );
+    }
+  }
+
+  const shards: ShardReport[] = [];
+  const predictions: TestPredictionReport[] = [];
+  const missingTests: string[] = [];
+
+  for (const [shard, testIds] of Object.entries(assignment.shards)) {
+    const shardIndex = Number(shard);
+    const predicted = assignment.expectedDurations[shardIndex] ?? 0;
+    const actual = actualByShard.get(shardIndex) ?? 0;
+
+    shards.push({
+      shardIndex,
+      tests: testIds.length,
+      predicted,
+      actual,
+      error: actual - predicted,
+      errorPercent: relativeError(actual, predicted),
+    });
+
+    for (const testId of testIds) {
+      const testActual = actualByTest.get(testId);
+      if (testActual === undefined) {
+        missingTests.push(testId);
+        continue;
+      }
+
+      const testPredicted = assignment.testDurations?.[testId];
+      if (testPredicted !== undefined) {
+        predictions.push({
+          testId,
+          shardIndex,
+          predicted: testPredicted,
+          actual: testActual,
+          error: testActual - testPredicted,
+        });
+      }
+    }
+  }
+
+  shards.sort((a, b) => a.shardIndex - b.shardIndex);
+  predictions.sort((a, b) => Math.abs(b.error) - Math.abs(a.error));
+
+  const predictedMakespan = Math.max(0, ...shards.map((s) => s.predicted));
+  const actualMakespan = Math.max(0, ...shards.map((s) => s.actual));
+
+  return {
+    shards,
+    predictedMakespan,
+    actualMakespan,
+    makespanError: actualMakespan - predictedMakespan,
+    makespanErrorPercent: relativeError(actualMakespan, predictedMakespan),
+    worstPredictions: predictions.slice(0, worst),
+    missingTests,
+  };
+}
+
+/**
+ * Format an assignment report as plain text
+ */
+export function formatReportText(report: AssignmentReport): string {
+  const lines = ['=== Assignment Report ===', ''];
+
+  for (const shard of report.shards) {
+    lines.push(
+      `Shard ${shard.shardIndex} (${shard.tests} tests): predicted ${formatDuration(shard.predicted)}, actual ${formatDuration(shard.actual)}, error ${formatError(shard.error, shard.errorPercent)}`,
+    );
+  }
+
+  lines.push(
+    '',
+    `Makespan: predicted ${formatDuration(report.predictedMakespan)}, actual ${formatDuration(report.actualMakespan)}, error ${formatError(report.makespanError, report.makespanErrorPercent)}`,
+  );
+
+  if (report.worstPredictions.length > 0) {
+    lines.push('', 'Worst predictions:');
+    for (const test of report.worstPredictions) {
+      lines.push(
+        `  - ${test.testId} (shard ${test.shardIndex}): predicted ${formatDuration(test.predicted)}, actual ${formatDuration(test.actual)}, error ${formatError(test.error)}`,
+      );
+    }
+  }
+
+  if (report.missingTests.length > 0) {
+    lines.push('', `Tests without measurements: ${report.missingTests.length}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format an assignment report as Markdown (e.g. for a PR comment)
+ */
+export function formatReportMarkdown(report: AssignmentReport): string {
+  const lines = [
+    '### Shard Assignment Report',
+    '',
+    '| Shard | Tests | Predicted | Actual | Error |',
+    '|-------|-------|-----------|--------|-------|',
+  ];
+
+  for (const shard of report.shards) {
+    lines.push(
+      `| ${shard.shardIndex} | ${shard.tests} | ${formatDuration(shard.predicted)} | ${formatDuration(shard.actual)} | ${formatError(shard.error, shard.errorPercent)} |`,
+    );
+  }
+
+  lines.push(
+    '',
+    `**Makespan**: predicted ${formatDuration(report.predictedMakespan)}, actual ${formatDuration(report.actualMakespan)} (${formatError(report.makespanError, report.makespanErrorPercent)})`,
+  );
+
+  if (report.worstPredictions.length > 0) {
+    lines.push(
+      '',
+      '<details>',
+      '<summary>Worst predictions</summary>',
+      '',
+      '| Test | Shard | Predicted | Actual | Error |',
+      '|------|-------|-----------|--------|-------|',
+    );
+    for (const test of report.worstPredictions) {
+      lines.push(
+        `| \`${test.testId.replace(/\|/g, '\\|')}\` | ${test.shardIndex} | ${formatDuration(test.predicted)} | ${formatDuration(test.actual)} | ${formatError(test.error)} |`,
+      );
+    }
+    lines.push('', '</details>');
+  }
+
+  if (report.missingTests.length > 0) {
+    lines.push(
+      '',
+      `_${report.missingTests.length} tests had no measurements._`,
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Error relative to the prediction, in percent (rounded to one decimal)
+ */
+function relativeError(actual: number, predicted: number): number | null {
+  if (predicted <= 0) {
+    return null;
+  }
+  return Math.round(((actual - predicted) / predicted) * 1000) / 10;
+}
+
+/**
+ * Format a signed error with an optional percentage
+ */
+function formatError(error: number, percent?: number | null): string {
+  const sign = error < 0 ? '-' : '+';
+  const value = `${sign}${formatDuration(Math.abs(error))}`;
+  return percent === undefined || percent === null
+    ? value
+    : `${value} (${percent > 0 ? '+' : ''}${percent}%)`;
+}
@@ -0,0 +1,269 @@
+import * as crypto from 'node:crypto';
+import type { TimingStore } from './store.js';
+import { parseStoredTimingData } from './timing-store.js';
+import { createEmptyTimingData } from './types.js';
+
+/**
+ * AWS credentials used to sign S3 requests
+ */
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/**
+ * An S3 request to sign with Signature Version 4
+ */
+export interface S3Request {
+  method: string;
+  url: URL;
+  /** Headers to sign in addition to `host` and `x-amz-*` */
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Timing store backed by an S3-compatible object store (AWS S3, MinIO, R2)
+ *
+ * URI format: `s3://bucket/path/to/timing-data.json`, with optional
+ * `endpoint` and `region` query parameters, e.g.
+ * `s3://timing/data.json?endpoint=http://localhost:9000`.
+ *
+ * Credentials come from `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY` and
+ * `AWS_SESSION_TOKEN`. The region defaults to `AWS_REGION` (or
+ * `AWS_DEFAULT_REGION`, then `us-east-1`), and the endpoint to
+ * `AWS_ENDPOINT_URL_S3` or `AWS_ENDPOINT_URL`. Custom endpoints use
+ * path-style addressing.
+ *
+ * `compareAndSwap` uses conditional writes: `If-Match` on the ETag of the
+ * object whose generation was checked, or `If-None-Match: *` if there
+ * was none.
+ *
+ * @param uri - s3:// URI of the timing data object
+ */
+export function createS3TimingStore(uri: string): TimingStore {
+  const parsed = new URL(uri);
+  const bucket = parsed.hostname;
+  const key = decodeURIComponent(parsed.pathname.replace(/^\/+/, ''));
+  if (!bucket || !key) {
+    throw new Error(
+      `[Orchestrator] Invalid S3 timing store URI: ${uri}. Expected s3://bucket/key`,
+    );
+  }
+
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error(
+      '[Orchestrator] S3 timing store requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY',
+    );
+  }
+  const credentials: S3Credentials = {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: process.env.AWS_SESSION_TOKEN,
+  };
+
+  const region =
+    parsed.searchParams.get('region') ??
+    process.env.AWS_REGION ??
+    process.env.AWS_DEFAULT_REGION ??
+    'us-east-1';
+  const endpoint =
+    parsed.searchParams.get('endpoint') ??
+    process.env.AWS_ENDPOINT_URL_S3 ??
+    process.env.AWS_ENDPOINT_URL;
+
+  const objectUrl = (objectKey: string): URL => {
+    const encodedKey = objectKey.split('/').map(encodeRfc3986).join('/');
+    return endpoint
+      ? new URL(`${endpoint.replace(/\/+$/, '')}/${bucket}/${encodedKey}`)
+      : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`);
+  };
+
+  const send = (
+    method: string,
+    url: URL,
+    body?: string,
+    headers: Record<string, string> = {},
+  ): Promise<Response> =>
+    fetch(url, {
+      method,
+      body,
+      headers: signS3Request(
+        { method, url, headers, body },
+        credentials,
+        region,
+      ),
+    });
+
+  const dataUrl = objectUrl(key);
+  const location = `s3://${bucket}/${key}`;
+
+  return {
+    location,
+
+    async load() {
+      const response = await send('GET', dataUrl);
+      if (response.status === 404) {
+        return createEmptyTimingData();
+      }
+      if (!response.ok) {
+        throw new Error(
+          `[Orchestrator] Failed to load timing data from ${location}: HTTP ${response.status}`,
+        );
+      }
+      return parseStoredTimingData(await response.text(), location);
+    },
+
+    async save(data) {
+      const response = await send(
+        'PUT',
+        dataUrl,
+        JSON.stringify(data, null, 2),
+        { 'content-type': 'application/json' },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `[Orchestrator] Failed to save timing data to ${location}: HTTP ${response.status}`,
+        );
+      }
+    },
+
+    async compareAndSwap(data, expectedGeneration) {
+      const current = await send('GET', dataUrl);
+      let condition: Record<string, string>;
+      if (current.status === 404) {
+        if (expectedGeneration !== 0) {
+          return false;
+        }
+        condition = { 'if-none-match': '*' };
+      } else if (current.ok) {
+        // Unreadable shared data must not be overwritten with one run
+        const generation =
+          parseStoredTimingData(await current.text(), location).generation ?? 0;
+        const etag = current.headers.get('etag');
+        if (generation !== expectedGeneration || !etag) {
+          return false;
+        }
+        condition = { 'if-match': etag };
+      } else {
+        throw new Error(
+          `[Orchestrator] Failed to load timing data from ${location}: HTTP ${current.status}`,
+        );
+      }
+
+      const response = await send(
+        'PUT',
+        dataUrl,
+        JSON.stringify(data, null, 2),
+        { 'content-type': 'application/json', ...condition },
+      );
+      // 412: changed since our read; 409: a concurrent write is in flight
+      if (response.status === 412 || response.status === 409) {
+        return false;
+      }
+      if (!response.ok) {
+        throw new Error(
+          `[Orchestrator] Failed to save timing data to ${location}: HTTP ${response.status}`,
+        );
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Sign an S3 request with AWS Signature Version 4
+ *
+ * @param request - Request to sign (the URL path must already be encoded)
+ * @param credentials - AWS credentials
+ * @param region - AWS region
+ * @param date - Signing time
+ * @returns Request headers including `authorization` (without `host`)
+ */
+export function signS3Request(
+  request: S3Request,
+  credentials: S3Credentials,
+  region: string,
+  date: Date = new Date(),
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(request.body ?? '');
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(request.headers ?? {}).map(([k, v]) => [
+        k.toLowerCase(),
+        v.trim(),
+      ]),
+    ),
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const signed: Record<string, string> = {
+    ...headers,
+    host: request.url.host,
+  };
+  const headerNames = Object.keys(signed).sort();
+  const signedHeaders = headerNames.join(';');
+  const canonicalHeaders = headerNames
+    .map((name) => `${name}:${signed[name]}\n`)
+    .join('');
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region),
+  );
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+function sha256(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * URI-encode per RFC 3986, as required for SigV4 canonical requests
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
@@ -0,0 +1,77 @@
+import type { TestShardAssignment, TestWithDuration } from './types.js';
+
+/**
+ * Tests to schedule, with each serial group collapsed into one item
+ */
+export interface SerialGroupedTests {
+  /** Tests outside serial groups, and one item per group */
+  tests: TestWithDuration[];
+  /** Test IDs of each group item, in discovery order */
+  groups: Map<string, string[]>;
+}
+
+/**
+ * Collapse serial groups into indivisible scheduling items
+ *
+ * Tests of a serial describe block run in order in one worker, so the
+ * algorithms must never split them. Each group becomes a single item
+ * whose ID is the group ID and whose duration is the sum of its tests.
+ * It takes the position of its first test.
+ *
+ * @param tests - Tests with their durations and serial groups
+ * @returns Scheduling items and the members of each group
+ */
+export function groupSerialTests(
+  tests: TestWithDuration[],
+): SerialGroupedTests {
+  const items: TestWithDuration[] = [];
+  const groups = new Map<string, string[]>();
+  const groupItems = new Map<string, TestWithDuration>();
+
+  for (const test of tests) {
+    if (!test.serialGroup) {
+      items.push(test);
+      continue;
+    }
+
+    const item = groupItems.get(test.serialGroup);
+    if (item) {
+      item.duration += test.duration;
+      item.estimated ||= test.estimated;
+      groups.get(test.serialGroup)?.push(test.testId);
+      continue;
+    }
+
+    const groupItem: TestWithDuration = {
+      testId: test.serialGroup,
+      file: test.file,
+      duration: test.duration,
+      estimated: test.estimated,
+    };
+    groupItems.set(test.serialGroup, groupItem);
+    groups.set(test.serialGroup, [test.testId]);
+    items.push(groupItem);
+  }
+
+  return { tests: items, groups };
+}
+
+/**
+ * Replace group items in shard assignments with their tests, in order
+ *
+ * @param assignments - Assignments of the items from {@link groupSerialTests}
+ * @param groups - Members of each group
+ * @returns Assignments of individual tests
+ */
+export function expandSerialGroups(
+  assignments: TestShardAssignment[],
+  groups: Map<string, string[]>,
+): TestShardAssignment[] {
+  if (groups.size === 0) {
+    return assignments;
+  }
+  return assignments.map((assignment) => ({
+    ...assignment,
+    tests: assignment.tests.flatMap((id) => groups.get(id) ?? [id]),
+  }));
+}
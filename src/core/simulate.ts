@@ -0,0 +1,399 @@
+import {
+  type AssignableTest,
+  getAssignableSetupCosts,
+  getAssignableTestDurations,
+} from './assignable-tests.js';
+import { assignWithCKK, DEFAULT_CKK_TIMEOUT } from './ckk-algorithm.js';
+import { calculateFileAffinityPenalty } from './estimate.js';
+import { formatDuration } from './format.js';
+import { assignWithLPT } from './lpt-algorithm.js';
+import { assignNativeShards, sortInNativeOrder } from './native-shard.js';
+import type {
+  ShardTimingArtifact,
+  TestShardAssignment,
+  TestWithDuration,
+  TimingData,
+} from './types.js';
+import { buildProjectTestId, parseTestId } from './types.js';
+
+/**
+ * Assignment strategies compared by the simulator
+ * - `ckk`: assignWithCKK, as `assign` runs it
+ * - `lpt`: assignWithLPT on single tests
+ * - `round-robin`: tests dealt to shards in turn
+ * - `native`: Playwright's own `--shard` split
+ */
+export type SimulationStrategy = 'ckk' | 'lpt' | 'round-robin' | 'native';
+
+/** Strategies in the order they are reported */
+export const SIMULATION_STRATEGIES: SimulationStrategy[] = [
+  'ckk',
+  'lpt',
+  'round-robin',
+  'native',
+];
+
+/**
+ * A historical run to replay
+ */
+export interface SimulationRun {
+  /** Name shown in the report (e.g. the run directory) */
+  name: string;
+  /** Timing data as it was before the run, to predict durations from */
+  timingData: TimingData | null;
+  /** Shard timing artifacts of the run, with the actual durations */
+  artifacts: ShardTimingArtifact[];
+}
+
+/**
+ * Settings for replaying runs
+ */
+export interface SimulationOptions {
+  numShards: number;
+  /** CKK timeout in ms */
+  timeoutMs?: number;
+  /** CKK file affinity penalty in ms (calculated from the timing data when omitted) */
+  fileAffinityPenalty?: number;
+  /** Whether the Playwright config sets `fullyParallel`, for the native split */
+  fullyParallel?: boolean;
+}
+
+/**
+ * How one strategy did on one run (or on average over runs)
+ */
+export interface StrategySimulation {
+  strategy: SimulationStrategy;
+  /** Largest predicted shard duration in ms */
+  predictedMakespan: number;
+  /** Largest shard duration in ms, from the actual test durations */
+  actualMakespan: number;
+  /** Longest over shortest actual shard duration (1 = perfectly balanced) */
+  balance: number;
+  /** Mean absolute error of the predicted shard durations, in percent */
+  estimationError: number;
+}
+
+/**
+ * Replay of a single run
+ */
+export interface RunSimulation {
+  run: string;
+  /** Number of tests replayed */
+  tests: number;
+  strategies: StrategySimulation[];
+}
+
+/**
+ * Replay of every run, with the mean per strategy
+ */
+export interface SimulationReport {
+  numShards: number;
+  runs: RunSimulation[];
+  /** Mean of every metric over the runs, per strategy */
+  summary: StrategySimulation[];
+}
+
+/**
+ * Replay historical runs with every strategy
+ *
+ * @param runs - Runs with their timing snapshot and actual durations
+ * @param options - Shard count and algorithm settings
+ * @returns Per-run results and their mean per strategy
+ */
+export function simulateRuns(
+  runs: SimulationRun[],
+  options: SimulationOptions,
+): SimulationReport {
+  const results = runs.map((run) => simulateRun(run, options));
+  const summary = SIMULATION_STRATEGIES.map((strategy) => {
+    const own = results.flatMap((r) =>
+      r.strategies.filter((s) => s.strategy === strategy),
+    );
+    const mean = (metric: (s: StrategySimulation) => number) =>
+      own.length > 0
+        ? own.reduce((sum, s) => sum + metric(s), 0) / own.length
+        : 0;
+    return {
+      strategy,
+      predictedMakespan: Math.round(mean((s) => s.predictedMakespan)),
+      actualMakespan: Math.round(mean((s) => s.actualMakespan)),
+      balance: round(mean((s) => s.balance)),
+      estimationError: round(mean((s) => s.estimationError)),
+    };
+  });
+  return { numShards: options.numShards, runs: results, summary };
+}
+
+/**
+ * Replay one run with every strategy
+ *
+ * The tests that ran are assigned with the durations predicted from the
+ * run's timing snapshot, then each shard is measured with the durations
+ * the tests actually took. A shard also pays the setup of every file it
+ * runs, predicted from the snapshot and measured in the artifacts, so
+ * splitting a file costs time. Tests are ordered by file, as Playwright
+ * lists them, for round-robin and the native split.
+ *
+ * @param run - Timing snapshot and shard artifacts of the run
+ * @param options - Shard count and algorithm settings
+ * @returns Metrics per strategy
+ */
+export function simulateRun(
+  run: SimulationRun,
+  options: SimulationOptions,
+): RunSimulation {
+  const { tests, actual, actualSetup, multiProject } = collectRunTests(
+    run.artifacts,
+  );
+  const inputs = getAssignableTestDurations(
+    tests,
+    multiProject,
+    run.timingData,
+  );
+  const predictedSetup = getAssignableSetupCosts(
+    tests,
+    multiProject,
+    run.timingData,
+  );
+  const penalty =
+    options.fileAffinityPenalty ?? calculateFileAffinityPenalty(run.timingData);
+
+  const strategies = SIMULATION_STRATEGIES.map((strategy) => {
+    const assignments = assign(
+      strategy,
+      inputs,
+      options,
+      penalty,
+      predictedSetup,
+    );
+    return measure(strategy, assignments, inputs, {
+      actual,
+      predictedSetup,
+      actualSetup,
+    });
+  });
+  return { run: run.name, tests: tests.length, strategies };
+}
+
+/**
+ * Format a simulation report as plain text
+ */
+export function formatSimulationText(report: SimulationReport): string {
+  const lines = [`=== Simulation (${report.numShards} shards) ===`];
+
+  for (const run of report.runs) {
+    lines.push('', `${run.run} (${run.tests} tests):`);
+    for (const s of run.strategies) {
+      lines.push(`  ${formatStrategyText(s)}`);
+    }
+  }
+
+  if (report.runs.length > 1) {
+    lines.push('', `Mean over ${report.runs.length} runs:`);
+    for (const s of report.summary) {
+      lines.push(`  ${formatStrategyText(s)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a simulation report as Markdown (e.g. for a PR comment)
+ */
+export function formatSimulationMarkdown(report: SimulationReport): string {
+  const lines = [
+    `### Assignment Simulation (${report.numShards} shards, ${report.runs.length} runs)`,
+    '',
+    '| Strategy | Makespan | Predicted | Balance | Estimation error |',
+    '|----------|----------|-----------|---------|------------------|',
+  ];
+
+  for (const s of report.summary) {
+    lines.push(
+      `| ${s.strategy} | ${formatDuration(s.actualMakespan)} | ${formatDuration(s.predictedMakespan)} | ${s.balance.toFixed(2)} | ${s.estimationError.toFixed(1)}% |`,
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Turn the tests of a run's artifacts into assignable tests
+ *
+ * Runs over several projects qualify test IDs and files by project, like
+ * `assign`. A file's actual setup is averaged over the artifacts that
+ * measured it.
+ */
+function collectRunTests(artifacts: ShardTimingArtifact[]): {
+  tests: AssignableTest[];
+  actual: Map<string, number>;
+  actualSetup: Record<string, number>;
+  multiProject: boolean;
+} {
+  const multiProject = new Set(artifacts.map((a) => a.project)).size > 1;
+  const tests = new Map<string, AssignableTest>();
+  const actual = new Map<string, number>();
+  const setups = new Map<string, number[]>();
+
+  for (const artifact of artifacts) {
+    for (const [file, setup] of Object.entries(artifact.setup ?? {})) {
+      const key = multiProject
+        ? buildProjectTestId(artifact.project, file)
+        : file;
+      setups.set(key, [...(setups.get(key) ?? []), setup]);
+    }
+
+    for (const [testId, duration] of Object.entries(artifact.tests)) {
+      const key = multiProject
+        ? buildProjectTestId(artifact.project, testId)
+        : testId;
+      actual.set(key, (actual.get(key) ?? 0) + duration);
+      if (tests.has(key)) continue;
+
+      const { file, titlePath } = parseTestId(testId);
+      tests.set(key, {
+        key,
+        test: {
+          file,
+          title: titlePath[titlePath.length - 1] ?? '',
+          titlePath,
+          testId,
+          line: 0,
+          column: 0,
+          project: artifact.project,
+        },
+        project: artifact.project,
+        testDirPrefix: '',
+      });
+    }
+  }
+
+  // Artifacts don't record the project order of the config
+  const sorted = sortInNativeOrder(
+    [...tests.values()].sort((a, b) => a.project.localeCompare(b.project)),
+  );
+  const actualSetup = Object.fromEntries(
+    [...setups].map(([file, measured]) => [
+      file,
+      measured.reduce((sum, m) => sum + m, 0) / measured.length,
+    ]),
+  );
+  return { tests: sorted, actual, actualSetup, multiProject };
+}
+
+function assign(
+  strategy: SimulationStrategy,
+  inputs: TestWithDuration[],
+  options: SimulationOptions,
+  fileAffinityPenalty: number,
+  fileSetupCosts: Record<string, number>,
+): TestShardAssignment[] {
+  const { numShards } = options;
+  switch (strategy) {
+    case 'ckk':
+      return assignWithCKK(
+        inputs,
+        numShards,
+        options.timeoutMs ?? DEFAULT_CKK_TIMEOUT,
+        fileAffinityPenalty,
+        undefined,
+        fileSetupCosts,
+      ).assignments;
+    case 'lpt':
+      return assignWithLPT(
+        inputs.map((t) => ({
+          file: t.testId,
+          duration: t.duration,
+          estimated: t.estimated,
+        })),
+        numShards,
+      ).map((a) => ({
+        shardIndex: a.shardIndex,
+        tests: a.files,
+        expectedDuration: a.expectedDuration,
+      }));
+    case 'round-robin':
+      return Array.from({ length: numShards }, (_, i) => {
+        const own = inputs.filter((_, j) => j % numShards === i);
+        return {
+          shardIndex: i + 1,
+          tests: own.map((t) => t.testId),
+          expectedDuration: own.reduce((sum, t) => sum + t.duration, 0),
+        };
+      });
+    case 'native':
+      return assignNativeShards(inputs, numShards, {
+        fullyParallel: options.fullyParallel,
+      });
+  }
+}
+
+/**
+ * Predicted and actual durations of a run, per test and per file setup
+ */
+interface RunDurations {
+  actual: Map<string, number>;
+  predictedSetup: Record<string, number>;
+  actualSetup: Record<string, number>;
+}
+
+/**
+ * Measure each shard as the sum of its tests plus the setup of every file
+ * it runs, the same way for every strategy
+ */
+function measure(
+  strategy: SimulationStrategy,
+  assignments: TestShardAssignment[],
+  inputs: TestWithDuration[],
+  durations: RunDurations,
+): StrategySimulation {
+  const byId = new Map(inputs.map((t) => [t.testId, t]));
+  const shards = assignments.map((a) => {
+    const shardTests = a.tests
+      .map((id) => byId.get(id))
+      .filter((t): t is TestWithDuration => t !== undefined);
+    const files = [...new Set(shardTests.map((t) => t.file))];
+    const setup = (costs: Record<string, number>) =>
+      files.reduce((sum, file) => sum + (costs[file] ?? 0), 0);
+    return {
+      predicted:
+        shardTests.reduce((sum, t) => sum + t.duration, 0) +
+        setup(durations.predictedSetup),
+      actual:
+        shardTests.reduce(
+          (sum, t) => sum + (durations.actual.get(t.testId) ?? 0),
+          0,
+        ) + setup(durations.actualSetup),
+    };
+  });
+
+  const actualDurations = shards.map((s) => s.actual).filter((d) => d > 0);
+  const errors = shards
+    .filter((s) => s.predicted > 0)
+    .map((s) => (Math.abs(s.actual - s.predicted) / s.predicted) * 100);
+
+  return {
+    strategy,
+    predictedMakespan: Math.round(
+      Math.max(0, ...shards.map((s) => s.predicted)),
+    ),
+    actualMakespan: Math.round(Math.max(0, ...shards.map((s) => s.actual))),
+    balance:
+      actualDurations.length > 0
+        ? round(Math.max(...actualDurations) / Math.min(...actualDurations))
+        : 1,
+    estimationError:
+      errors.length > 0
+        ? round(errors.reduce((sum, e) => sum + e, 0) / errors.length)
+        : 0,
+  };
+}
+
+function formatStrategyText(s: StrategySimulation): string {
+  return `${s.strategy.padEnd(11)} makespan ${formatDuration(s.actualMakespan)} (predicted ${formatDuration(s.predictedMakespan)}), balance ${s.balance.toFixed(2)}, estimation error ${s.estimationError.toFixed(1)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,324 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getTestTiming } from './timing-store.js';
+import type { DiscoveredTest, TimingData } from './types.js';
+
+/**
+ * Signals read from the source of a test body
+ */
+export interface SourceFeatures {
+  /** `page.goto()` calls */
+  gotos: number;
+  /** `test.step()` calls */
+  steps: number;
+  /** `expect()` assertions, including `expect.soft` and `expect.poll` */
+  assertions: number;
+  /** Lines of the test body */
+  lines: number;
+  /** Sum of literal `waitForTimeout()` values in ms */
+  waitMs: number;
+}
+
+/**
+ * Milliseconds per source signal. Fixed waits count at face value.
+ */
+export interface SourceModel {
+  intercept: number;
+  goto: number;
+  step: number;
+  assertion: number;
+  line: number;
+}
+
+/**
+ * Weights used until enough tests have timing data to fit them
+ */
+export const DEFAULT_SOURCE_MODEL: SourceModel = {
+  intercept: 5000,
+  goto: 3000,
+  step: 1000,
+  assertion: 500,
+  line: 100,
+};
+
+/**
+ * Minimum number of timed tests to fit a model from
+ */
+export const MIN_SOURCE_SAMPLES = 10;
+
+/**
+ * Extract the source of the test call starting at a line and column
+ *
+ * Scans from the call's opening parenthesis to the matching closing one,
+ * skipping strings and comments.
+ *
+ * @param source - Source of the test file
+ * @param line - Line of the test call (1-based)
+ * @param column - Column of the test call (1-based)
+ * @returns The test call, or undefined if it can't be found
+ */
+export function extractTestSource(
+  source: string,
+  line: number,
+  column: number,
+): string | undefined {
+  let start = 0;
+  for (let i = 1; i < line; i++) {
+    start = source.indexOf('\n', start) + 1;
+    if (start === 0) return undefined;
+  }
+  start += column - 1;
+
+  const open = source.indexOf('(', start);
+  if (open === -1) return undefined;
+
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = skipString(source, i);
+    } else if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i);
+      if (i === -1) return undefined;
+    } else if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i + 2) + 1;
+      if (i === 0) return undefined;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return source.slice(start, i + 1);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Count the duration signals in the source of a test
+ *
+ * @param body - Source of the test call
+ * @returns Source features
+ */
+export function extractSourceFeatures(body: string): SourceFeatures {
+  const count = (regex: RegExp) => body.match(regex)?.length ?? 0;
+  let waitMs = 0;
+  for (const match of body.matchAll(/waitForTimeout\s*\(\s*([\d_]+)\s*\)/g)) {
+    waitMs += Number((match[1] ?? '0').replace(/_/g, ''));
+  }
+
+  return {
+    gotos: count(/\.goto\s*\(/g),
+    steps: count(/\bstep\s*\(/g),
+    assertions: count(/\bexpect(?:\.soft|\.poll)?\s*\(/g),
+    lines: body.split('\n').length,
+    waitMs,
+  };
+}
+
+/**
+ * Fit per-signal weights to measured durations
+ *
+ * Fixed waits are subtracted from each duration, then the other signals
+ * are fitted with a ridge regression, which keeps the weights stable
+ * when signals go together (tests with more steps have more lines).
+ * Correlated signals can still pull a weight below zero, which would
+ * make bigger tests predict shorter, so the most negative weight is held
+ * at zero and the rest refitted until none is negative.
+ *
+ * @param samples - Features and measured duration of timed tests
+ * @returns Fitted non-negative weights, or undefined with fewer than MIN_SOURCE_SAMPLES samples
+ */
+export function fitSourceModel(
+  samples: Array<{ features: SourceFeatures; duration: number }>,
+): SourceModel | undefined {
+  if (samples.length < MIN_SOURCE_SAMPLES) {
+    return undefined;
+  }
+
+  const size = 5;
+  const xtx = Array.from({ length: size }, () =>
+    new Array<number>(size).fill(0),
+  );
+  const xty = new Array<number>(size).fill(0);
+  for (const { features, duration } of samples) {
+    const x = toVector(features);
+    const y = duration - features.waitMs;
+    for (let i = 0; i < size; i++) {
+      xty[i] = (xty[i] ?? 0) + (x[i] ?? 0) * y;
+      const row = xtx[i] as number[];
+      for (let j = 0; j < size; j++) {
+        row[j] = (row[j] ?? 0) + (x[i] ?? 0) * (x[j] ?? 0);
+      }
+    }
+  }
+  // Regularise every weight but the intercept
+  for (let i = 1; i < size; i++) {
+    const row = xtx[i] as number[];
+    row[i] = (row[i] ?? 0) + samples.length;
+  }
+
+  const weights = new Array<number>(size).fill(0);
+  let active = weights.map((_, i) => i);
+  while (active.length > 0) {
+    const fitted = solve(
+      active.map((i) => active.map((j) => xtx[i]?.[j] ?? 0)),
+      active.map((i) => xty[i] ?? 0),
+    );
+    if (!fitted) {
+      return undefined;
+    }
+    const lowest = fitted.indexOf(Math.min(...fitted));
+    if ((fitted[lowest] ?? 0) >= 0) {
+      active.forEach((i, k) => {
+        weights[i] = fitted[k] ?? 0;
+      });
+      break;
+    }
+    active = active.filter((_, k) => k !== lowest);
+  }
+  const [intercept = 0, goto = 0, step = 0, assertion = 0, line = 0] = weights;
+  return { intercept, goto, step, assertion, line };
+}
+
+/**
+ * Predict the duration of a test from its source features
+ *
+ * @param features - Source features
+ * @param model - Per-signal weights
+ * @returns Duration in ms (at least 1)
+ */
+export function predictFromSource(
+  features: SourceFeatures,
+  model: SourceModel,
+): number {
+  const predicted =
+    model.intercept +
+    model.goto * features.gotos +
+    model.step * features.steps +
+    model.assertion * features.assertions +
+    model.line * features.lines +
+    features.waitMs;
+  return Math.max(1, Math.round(predicted));
+}
+
+/**
+ * Estimate tests without timing data from their source
+ *
+ * Reads every test body, fits weights on the tests that have timing data
+ * (falling back to DEFAULT_SOURCE_MODEL) and predicts the others. Tests
+ * whose source can't be read are left out.
+ *
+ * @param tests - Discovered tests with line and column
+ * @param testDir - Directory test files are relative to
+ * @param timingData - Timing data to fit the weights on
+ * @returns Estimated duration in ms per test ID, for tests without timing data
+ */
+export function estimateTestsFromSource(
+  tests: DiscoveredTest[],
+  testDir: string,
+  timingData: TimingData | null,
+): Record<string, number> {
+  const sources = new Map<string, string | null>();
+  const readSource = (file: string) => {
+    if (!sources.has(file)) {
+      try {
+        sources.set(
+          file,
+          fs.readFileSync(path.resolve(testDir, file), 'utf-8'),
+        );
+      } catch {
+        sources.set(file, null);
+      }
+    }
+    return sources.get(file) ?? undefined;
+  };
+
+  const samples: Array<{ features: SourceFeatures; duration: number }> = [];
+  const unknown: Array<{ testId: string; features: SourceFeatures }> = [];
+  for (const test of tests) {
+    const source = readSource(test.file);
+    const body =
+      source !== undefined
+        ? extractTestSource(source, test.line, test.column)
+        : undefined;
+    if (body === undefined) continue;
+
+    const features = extractSourceFeatures(body);
+    const timing = timingData
+      ? getTestTiming(timingData, test.testId, test.project)
+      : undefined;
+    if (timing) {
+      samples.push({ features, duration: timing.duration });
+    } else {
+      unknown.push({ testId: test.testId, features });
+    }
+  }
+
+  const model = fitSourceModel(samples) ?? DEFAULT_SOURCE_MODEL;
+  return Object.fromEntries(
+    unknown.map(({ testId, features }) => [
+      testId,
+      predictFromSource(features, model),
+    ]),
+  );
+}
+
+function toVector(features: SourceFeatures): number[] {
+  return [
+    1,
+    features.gotos,
+    features.steps,
+    features.assertions,
+    features.lines,
+  ];
+}
+
+/**
+ * Solve a linear system with Gaussian elimination and partial pivoting
+ */
+function solve(matrix: number[][], vector: number[]): number[] | undefined {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i] ?? 0]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row]?.[col] ?? 0) > Math.abs(a[pivot]?.[col] ?? 0)) {
+        pivot = row;
+      }
+    }
+    const pivotRow = a[pivot] as number[];
+    if (Math.abs(pivotRow[col] ?? 0) < 1e-9) {
+      return undefined;
+    }
+    [a[col], a[pivot]] = [pivotRow, a[col] as number[]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const current = a[row] as number[];
+      const factor = (current[col] ?? 0) / (pivotRow[col] ?? 1);
+      for (let k = col; k <= n; k++) {
+        current[k] = (current[k] ?? 0) - factor * (pivotRow[k] ?? 0);
+      }
+    }
+  }
+
+  return a.map((row, i) => (row[n] ?? 0) / (row[i] ?? 1));
+}
+
+/**
+ * Index of the character closing the string literal opening at `start`
+ */
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i;
+    }
+  }
+  return source.length;
+}
@@ -0,0 +1,237 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { DEFAULT_LOCK_TIMEOUT } from './lock.js';
+import type { LockOptions, TimingStore } from './store.js';
+import { migrateStoredTimingData } from './timing-store.js';
+import type { FileTimingData, TestTimingData, TimingData } from './types.js';
+import { createEmptyTimingData } from './types.js';
+
+/**
+ * The subset of `bun:sqlite` and `node:sqlite` used by the store
+ */
+interface SqliteStatement {
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS timing_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS timing_tests (
+    test_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS timing_files (
+    file TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+/**
+ * Timing store backed by an SQLite database
+ *
+ * Each test is a row in `timing_tests` (timing as JSON), and each file's
+ * measured setup time a row in `timing_files`; the schema
+ * version, update time and generation live in `timing_meta`. Each
+ * `compareAndSwap` runs in an immediate write transaction, which SQLite
+ * releases automatically if the process dies, so `staleAfter` does not
+ * apply.
+ *
+ * Uses `bun:sqlite` under Bun and `node:sqlite` under Node.js (22.13+).
+ *
+ * @param filePath - Path to the database file
+ * @param options - Lock settings
+ */
+export function createSqliteTimingStore(
+  filePath: string,
+  options: LockOptions = {},
+): TimingStore {
+  const resolved = path.resolve(filePath);
+  const location = `sqlite://${resolved}`;
+
+  const withDatabase = async <T>(fn: (db: SqliteDatabase) => T): Promise<T> => {
+    const db = await openDatabase(resolved);
+    try {
+      return fn(db);
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    location,
+
+    load() {
+      return withDatabase((db) => readTimingData(db, location));
+    },
+
+    save(data) {
+      return withDatabase((db) => writeTimingData(db, data));
+    },
+
+    async compareAndSwap(data, expectedGeneration) {
+      const swap = (db: SqliteDatabase): boolean => {
+        // Unreadable stored data must not be overwritten with one run
+        if (
+          (readTimingData(db, location).generation ?? 0) !== expectedGeneration
+        ) {
+          return false;
+        }
+        writeTimingData(db, data);
+        return true;
+      };
+
+      // The check and the write share one write transaction
+      const db = await openLockedDatabase(resolved, options);
+      try {
+        const swapped = swap(db);
+        db.exec('COMMIT');
+        return swapped;
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
+
+/**
+ * Open a connection holding an immediate write transaction
+ */
+async function openLockedDatabase(
+  filePath: string,
+  options: LockOptions,
+): Promise<SqliteDatabase> {
+  const db = await openDatabase(filePath);
+  const timeout = options.timeout ?? DEFAULT_LOCK_TIMEOUT;
+  try {
+    db.exec(`PRAGMA busy_timeout = ${Math.max(0, Math.floor(timeout))}`);
+    db.exec('BEGIN IMMEDIATE');
+  } catch (error) {
+    db.close();
+    if (/busy|locked/i.test(String(error))) {
+      throw new Error(
+        `[Orchestrator] Timed out after ${timeout}ms waiting for timing store lock: sqlite://${filePath}`,
+      );
+    }
+    throw error;
+  }
+  return db;
+}
+
+/**
+ * Read the stored timing data
+ *
+ * @throws Error if the stored schema version is unsupported
+ */
+function readTimingData(db: SqliteDatabase, location: string): TimingData {
+  const meta = new Map(
+    (
+      db.prepare('SELECT key, value FROM timing_meta').all() as Array<{
+        key: string;
+        value: string;
+      }>
+    ).map((row) => [row.key, row.value]),
+  );
+
+  const version = meta.get('version');
+  if (version === undefined) {
+    return createEmptyTimingData();
+  }
+
+  const rows = db
+    .prepare('SELECT test_id, data FROM timing_tests')
+    .all() as Array<{ test_id: string; data: string }>;
+  const tests: Record<string, TestTimingData> = {};
+  for (const row of rows) {
+    tests[row.test_id] = JSON.parse(row.data) as TestTimingData;
+  }
+
+  const fileRows = db
+    .prepare('SELECT file, data FROM timing_files')
+    .all() as Array<{ file: string; data: string }>;
+  const files: Record<string, FileTimingData> = {};
+  for (const row of fileRows) {
+    files[row.file] = JSON.parse(row.data) as FileTimingData;
+  }
+
+  const generation = meta.get('generation');
+  const data = {
+    version: Number(version),
+    updatedAt: meta.get('updatedAt') ?? new Date().toISOString(),
+    ...(generation !== undefined && { generation: Number(generation) }),
+    tests,
+    ...(fileRows.length > 0 && { files }),
+  };
+  return migrateStoredTimingData(data, location);
+}
+
+function writeTimingData(db: SqliteDatabase, data: TimingData): void {
+  db.exec('SAVEPOINT save_timing');
+  try {
+    db.exec('DELETE FROM timing_tests');
+    const insertTest = db.prepare(
+      'INSERT INTO timing_tests (test_id, data) VALUES (?, ?)',
+    );
+    for (const [testId, timing] of Object.entries(data.tests)) {
+      insertTest.run(testId, JSON.stringify(timing));
+    }
+
+    db.exec('DELETE FROM timing_files');
+    const insertFile = db.prepare(
+      'INSERT INTO timing_files (file, data) VALUES (?, ?)',
+    );
+    for (const [file, timing] of Object.entries(data.files ?? {})) {
+      insertFile.run(file, JSON.stringify(timing));
+    }
+
+    const setMeta = db.prepare(
+      'INSERT OR REPLACE INTO timing_meta (key, value) VALUES (?, ?)',
+    );
+    setMeta.run('version', String(data.version));
+    setMeta.run('updatedAt', data.updatedAt);
+    if (data.generation !== undefined) {
+      setMeta.run('generation', String(data.generation));
+    }
+
+    db.exec('RELEASE save_timing');
+  } catch (error) {
+    db.exec('ROLLBACK TO save_timing');
+    db.exec('RELEASE save_timing');
+    throw error;
+  }
+}
+
+async function openDatabase(filePath: string): Promise<SqliteDatabase> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  let db: SqliteDatabase;
+  if (process.versions.bun) {
+    // Kept out of the type checker, which has no Bun types
+    const specifier = 'bun:sqlite';
+    const { Database } = await import(specifier);
+    db = new Database(filePath) as SqliteDatabase;
+  } else {
+    try {
+      const { DatabaseSync } = await import('node:sqlite');
+      db = new DatabaseSync(filePath) as unknown as SqliteDatabase;
+    } catch {
+      throw new Error(
+        '[Orchestrator] SQLite timing store requires Node.js 22.13+ or Bun',
+      );
+    }
+  }
+
+  db.exec(SCHEMA);
+  return db;
+}
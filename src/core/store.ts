@@ -0,0 +1,226 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { acquireLock } from './lock.js';
+import { createS3TimingStore } from './s3-store.js';
+import { createSqliteTimingStore } from './sqlite-store.js';
+import { parseStoredTimingData, saveTimingData } from './timing-store.js';
+import { createEmptyTimingData, type TimingData } from './types.js';
+
+/**
+ * Persistent storage for timing data
+ *
+ * `load` returns empty data when nothing has been stored yet, and throws
+ * if the stored data can't be read. `compareAndSwap` saves only if no one
+ * else saved since the data was loaded, so concurrent `merge-timing` runs
+ * don't overwrite each other's measurements.
+ */
+export interface TimingStore {
+  /** Where the data lives, for log messages */
+  readonly location: string;
+  load(): Promise<TimingData>;
+  save(data: TimingData): Promise<void>;
+  /**
+   * Save `data` only if the stored generation is still `expectedGeneration`
+   *
+   * @returns false if another writer saved in the meantime
+   */
+  compareAndSwap(
+    data: TimingData,
+    expectedGeneration: number,
+  ): Promise<boolean>;
+}
+
+/**
+ * Settings of the locks that guard compare-and-swap on files and SQLite
+ */
+export interface LockOptions {
+  /** Time to wait for the lock in ms */
+  timeout?: number;
+  /** Age in ms after which a lock is treated as abandoned and broken */
+  staleAfter?: number;
+}
+
+/**
+ * Create a timing store from a URI
+ *
+ * Supported URIs:
+ * - `./timing-data.json`, `file:///abs/timing-data.json`: local JSON file
+ * - `s3://bucket/key.json`: S3-compatible object store (see {@link createS3TimingStore})
+ * - `sqlite://./timing.db`, `sqlite:///abs/timing.db`: SQLite database
+ *
+ * @param uri - Store URI
+ * @param options - Lock settings
+ * @returns Timing store for the URI
+ */
+export function createTimingStore(
+  uri: string,
+  options: LockOptions = {},
+): TimingStore {
+  const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(uri)?.[1]?.toLowerCase();
+
+  switch (scheme) {
+    case undefined:
+      return createFileTimingStore(uri, options);
+    case 'file':
+      return createFileTimingStore(fileURLToPath(uri), options);
+    case 's3':
+      return createS3TimingStore(uri);
+    case 'sqlite':
+      return createSqliteTimingStore(uri.slice('sqlite://'.length), options);
+    default:
+      throw new Error(
+        `[Orchestrator] Unsupported timing store: ${uri}. Use a file path, s3:// or sqlite:// URI.`,
+      );
+  }
+}
+
+/**
+ * Default number of merge attempts before giving up on a contended store
+ */
+export const DEFAULT_MERGE_ATTEMPTS = 5;
+
+/**
+ * Options for {@link mergeIntoStore}
+ */
+export interface MergeIntoStoreOptions {
+  /** Attempts before giving up (default: {@link DEFAULT_MERGE_ATTEMPTS}) */
+  maxAttempts?: number;
+  /** Called after each conflicting write, before retrying */
+  onConflict?: (attempt: number) => void;
+}
+
+/**
+ * Merge into a store with optimistic concurrency
+ *
+ * Loads the stored data, merges and saves it with
+ * {@link TimingStore.compareAndSwap}. If another merge saved in the
+ * meantime, the fresh data is re-read and merged again, so concurrent
+ * merges never drop each other's measurements.
+ *
+ * @param store - Timing store to merge into
+ * @param merge - Produces the new data from the stored data
+ * @param options - Retry settings
+ * @returns The data that was saved
+ */
+export async function mergeIntoStore(
+  store: TimingStore,
+  merge: (existing: TimingData) => TimingData,
+  options: MergeIntoStoreOptions = {},
+): Promise<TimingData> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MERGE_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    const existing = await store.load();
+    const expectedGeneration = existing.generation ?? 0;
+    const merged: TimingData = {
+      ...merge(existing),
+      generation: expectedGeneration + 1,
+    };
+
+    if (await store.compareAndSwap(merged, expectedGeneration)) {
+      return merged;
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new Error(
+        `[Orchestrator] Timing data in ${store.location} changed during each of ${maxAttempts} merge attempts`,
+      );
+    }
+    options.onConflict?.(attempt);
+  }
+}
+
+/**
+ * Timing store backed by a local JSON file
+ *
+ * `compareAndSwap` holds a `<file>.lock` sidecar created exclusively, so
+ * it also works across processes sharing a filesystem.
+ *
+ * @param filePath - Path to the timing data JSON file
+ * @param options - Lock settings
+ */
+export function createFileTimingStore(
+  filePath: string,
+  options: LockOptions = {},
+): TimingStore {
+  const resolved = path.resolve(filePath);
+  const lockPath = `${resolved}.lock`;
+
+  // Only a missing file counts as empty; a corrupt one must not be merged over
+  const load = (): TimingData => {
+    let content: string;
+    try {
+      content = fs.readFileSync(resolved, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return createEmptyTimingData();
+      }
+      throw new Error(
+        `[Orchestrator] Timing data at ${resolved} is unreadable: ${(error as Error).message}`,
+      );
+    }
+    return parseStoredTimingData(content, resolved);
+  };
+
+  const save = (data: TimingData): void => {
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    // Write then rename, so readers never see a partial file
+    const tmpPath = `${resolved}.${process.pid}.tmp`;
+    saveTimingData(tmpPath, data);
+    fs.renameSync(tmpPath, resolved);
+  };
+
+  const lock = async (): Promise<() => void> => {
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    await acquireLock(
+      lockPath,
+      async () => {
+        try {
+          fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+          return { status: 'acquired' };
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+            throw error;
+          }
+        }
+        try {
+          return { status: 'held', since: fs.statSync(lockPath).mtimeMs };
+        } catch {
+          // Released between our attempts
+          return { status: 'retry' };
+        }
+      },
+      async () => fs.rmSync(lockPath, { force: true }),
+      options,
+    );
+    return () => fs.rmSync(lockPath, { force: true });
+  };
+
+  return {
+    location: resolved,
+
+    async load() {
+      return load();
+    },
+
+    async save(data) {
+      save(data);
+    },
+
+    async compareAndSwap(data, expectedGeneration) {
+      // Files have no conditional write, so hold the lock just for the
+      // check and the write
+      const release = await lock();
+      try {
+        if ((load().generation ?? 0) !== expectedGeneration) {
+          return false;
+        }
+        save(data);
+        return true;
+      } finally {
+        release();
+      }
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { parseDuration } from './format.js';
+import type { DiscoveredTest } from './types.js';
+
+/**
+ * Which tests to keep by tag
+ */
+export interface TagFilter {
+  /** Keep only tests with at least one of these tags */
+  grepTags?: string[];
+  /** Drop tests with any of these tags */
+  excludeTags?: string[];
+}
+
+/**
+ * Extract `@tag` tokens from a title path, like Playwright does for titles
+ *
+ * @param titlePath - Describe titles and test title
+ * @returns Tags in order of appearance, without duplicates
+ */
+export function getTitleTags(titlePath: string[]): string[] {
+  const tags = titlePath.flatMap((title) => title.match(/@\S+/g) ?? []);
+  return [...new Set(tags)];
+}
+
+/**
+ * Get the tags of a discovered test
+ *
+ * Tests discovered without tag information fall back to the `@tokens`
+ * in their titles.
+ */
+export function getTestTags(test: DiscoveredTest): string[] {
+  return test.tags ?? getTitleTags(test.titlePath);
+}
+
+/**
+ * Normalize a tag given on the command line (`slow` → `@slow`)
+ */
+export function normalizeTag(tag: string): string {
+  const trimmed = tag.trim();
+  return trimmed.startsWith('@') ? trimmed : `@${trimmed}`;
+}
+
+/**
+ * Whether a test passes a tag filter
+ *
+ * @param test - Discovered test
+ * @param filter - Tags to keep and to drop
+ */
+export function matchesTagFilter(
+  test: DiscoveredTest,
+  filter: TagFilter,
+): boolean {
+  const tags = getTestTags(test);
+  const grep = (filter.grepTags ?? []).map(normalizeTag);
+  const exclude = (filter.excludeTags ?? []).map(normalizeTag);
+
+  if (grep.length > 0 && !grep.some((tag) => tags.includes(tag))) {
+    return false;
+  }
+  return !exclude.some((tag) => tags.includes(tag));
+}
+
+/**
+ * Parse default durations per tag such as `@slow=2m`
+ *
+ * @param inputs - One `tag=duration` value per tag
+ * @returns Duration in ms per tag
+ * @throws Error if a value is invalid
+ */
+export function parseTagDurations(inputs: string[]): Record<string, number> {
+  const durations: Record<string, number> = {};
+  for (const input of inputs) {
+    const [tag, duration] = input.split('=');
+    if (!tag?.trim() || duration === undefined) {
+      throw new Error(
+        `[Orchestrator] Invalid tag duration "${input}". Use a tag and a duration like @slow=2m.`,
+      );
+    }
+    durations[normalizeTag(tag)] = parseDuration(duration);
+  }
+  return durations;
+}
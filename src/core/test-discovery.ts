@@ -1,10 +1,18 @@
-import { execSync } from 'node:child_process';
+import { spawnSync } from 'node:child_process';
 import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import { glob } from 'glob';
+import {
+  type JsonStreamOptions,
+  parseJsonFile,
+  parseJsonText,
+} from './json-stream.js';
+import { getTitleTags, normalizeTag } from './tags.js';
 import type {
   DiscoveredTest,
   PlaywrightListOutput,
+  PlaywrightListSpec,
   PlaywrightListSuite,
 } from './types.js';
 import { buildTestId } from './types.js';
@@ -16,8 +24,36 @@ export interface TestListWithConfig {
   tests: DiscoveredTest[];
   rootDir: string;
   testDir: string;
+  /** Name of the resolved Playwright project */
+  project: string;
 }
 
+/**
+ * Tests discovered for a single Playwright project
+ */
+export interface ProjectTestList {
+  /** Project name */
+  name: string;
+  /** Project testDir from the Playwright config */
+  testDir: string;
+  /** Tests that run in this project */
+  tests: DiscoveredTest[];
+}
+
+/**
+ * Result of loading a test list for several Playwright projects at once
+ */
+export interface MultiProjectTestList {
+  rootDir: string;
+  /** Projects in the order they appear in the Playwright config */
+  projects: ProjectTestList[];
+}
+
+/**
+ * Where to read Playwright --list JSON from
+ */
+type ListSource = { text: string } | { file: string };
+
 /**
  * Load tests from a pre-generated Playwright --list JSON file
  *
@@ -36,6 +72,8 @@ export function loadTestListFromFile(
  * Load tests from a pre-generated Playwright --list JSON file, also
  * returning rootDir and testDir from the Playwright config.
  *
+ * The file is streamed, so its size is not limited by available memory.
+ *
  * @param filePath - Path to JSON file (from `npx playwright test --list --reporter=json`)
  * @param projectName - Optional project name to find the correct testDir
  * @returns Tests and config paths (rootDir, testDir)
@@ -44,13 +82,57 @@ export function loadTestListWithConfig(
   filePath: string,
   projectName?: string,
 ): TestListWithConfig {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return parsePlaywrightListOutputWithConfig(content, projectName);
+  return parseListWithConfig({ file: filePath }, projectName);
+}
+
+/**
+ * Load tests for multiple projects from a pre-generated Playwright --list JSON file
+ *
+ * @param filePath - Path to JSON file (from `npx playwright test --list --reporter=json`)
+ * @param projectNames - Project names to load (all projects when omitted)
+ * @returns Tests per project and the config rootDir
+ */
+export function loadTestListForProjects(
+  filePath: string,
+  projectNames?: string[],
+): MultiProjectTestList {
+  return parseListForProjects({ file: filePath }, projectNames);
+}
+
+/**
+ * Reduce a pre-generated Playwright --list JSON file to some test files
+ *
+ * Specs are kept when their file, resolved against the testDir of any
+ * project, is kept. The result can be written back and loaded like the
+ * original.
+ *
+ * @param filePath - Path to JSON file (from `npx playwright test --list --reporter=json`)
+ * @param keepFile - Whether to keep the specs of a test file (absolute path)
+ * @returns The --list output with only the kept specs
+ */
+export function filterTestListFiles(
+  filePath: string,
+  keepFile: (file: string) => boolean,
+): PlaywrightListOutput {
+  const suites: PlaywrightListSuite[] = [];
+  const data = streamListSuites({ file: filePath }, (suite, config) => {
+    const testDirs = (config.config?.projects ?? []).map((p) => p.testDir);
+    const kept = filterSuite(suite, (file) =>
+      testDirs.some((testDir) => keepFile(path.resolve(testDir, file))),
+    );
+    if (kept) {
+      suites.push(kept);
+    }
+  });
+  return { ...data, suites };
 }
 
 /**
  * Discover tests by running Playwright with --list flag
  *
+ * Playwright's output goes to temporary files rather than a pipe buffer,
+ * so suites of any size can be listed.
+ *
  * @param testDir - Path to test directory (used for fallback discovery)
  * @param project - Optional Playwright project name
  * @param configDir - Optional directory where playwright.config.ts is located (defaults to testDir)
@@ -61,29 +143,46 @@ export function discoverTests(
   project?: string,
   configDir?: string,
 ): DiscoveredTest[] {
-  const projectFlag = project ? `--project="${project}"` : '';
-  const cmd =
-    `npx playwright test --list --reporter=json ${projectFlag}`.trim();
+  const args = ['playwright', 'test', '--list', '--reporter=json'];
+  if (project) {
+    args.push(`--project=${project}`);
+  }
 
-  // Run Playwright from the config directory (where playwright.config.ts is located)
-  const cwd = configDir || testDir;
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-list-'));
+  const stdoutPath = path.join(tmpDir, 'stdout.json');
+  const stderrPath = path.join(tmpDir, 'stderr.log');
+  const stdout = fs.openSync(stdoutPath, 'w');
+  const stderr = fs.openSync(stderrPath, 'w');
 
   try {
-    const output = execSync(cmd, {
-      cwd,
-      encoding: 'utf-8',
-      maxBuffer: 50 * 1024 * 1024, // 50MB buffer for large test suites
-      stdio: ['pipe', 'pipe', 'pipe'],
+    // Run Playwright from the config directory (where playwright.config.ts is located)
+    const result = spawnSync('npx', args, {
+      cwd: configDir || testDir,
+      stdio: ['ignore', stdout, stderr],
+      shell: process.platform === 'win32',
     });
+    fs.closeSync(stdout);
+    fs.closeSync(stderr);
 
-    return parsePlaywrightListOutput(output, project);
-  } catch (error) {
-    // Playwright might exit with non-zero even for --list if there are issues
-    const execError = error as { stdout?: string; stderr?: string };
-    if (execError.stdout) {
-      return parsePlaywrightListOutput(execError.stdout, project);
+    if (result.error) {
+      throw result.error;
     }
-    throw error;
+
+    try {
+      return parseListWithConfig({ file: stdoutPath }, project).tests;
+    } catch (error) {
+      // Playwright might exit with non-zero even for --list if there are
+      // issues; only its stderr explains output that isn't JSON
+      const message = fs.readFileSync(stderrPath, 'utf-8').trim();
+      if (result.status !== 0 && message) {
+        throw new Error(
+          `[Orchestrator] Playwright --list failed (exit code ${result.status}): ${message}`,
+        );
+      }
+      throw error;
+    }
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
   }
 }
 
@@ -98,79 +197,176 @@ export function parsePlaywrightListOutput(
   jsonOutput: string,
   projectName?: string,
 ): DiscoveredTest[] {
-  return parsePlaywrightListOutputWithConfig(jsonOutput, projectName).tests;
+  return parseListWithConfig({ text: jsonOutput }, projectName).tests;
 }
 
 /**
- * Parse Playwright --list JSON output, returning both tests and config paths.
+ * Parse Playwright --list JSON output for several projects.
+ *
+ * A spec is attributed to a project when its `tests` entries name that
+ * project. Specs without per-project entries are attributed to every
+ * requested project.
  *
  * @param jsonOutput - Raw JSON output from Playwright --list
- * @param projectName - Optional project name to find the correct testDir
- * @returns Tests and config paths (rootDir, testDir)
+ * @param projectNames - Project names to extract (all projects when omitted)
+ * @returns Tests per project and the config rootDir
  */
-function parsePlaywrightListOutputWithConfig(
+export function parsePlaywrightListOutputForProjects(
   jsonOutput: string,
+  projectNames?: string[],
+): MultiProjectTestList {
+  return parseListForProjects({ text: jsonOutput }, projectNames);
+}
+
+/**
+ * Parse --list output for one project, returning both tests and config paths.
+ */
+function parseListWithConfig(
+  source: ListSource,
   projectName?: string,
 ): TestListWithConfig {
+  let project: { name: string; testDir: string } | undefined;
   const tests: DiscoveredTest[] = [];
-  let rootDir = '';
-  let testDir = '';
-  let parsed = false;
-
-  const parseAndExtract = (data: PlaywrightListOutput) => {
-    const baseDir = getProjectTestDir(data, projectName);
-    if (!data.config?.rootDir) {
-      throw new Error(
-        '[Orchestrator] Missing config.rootDir in Playwright --list JSON output.',
-      );
-    }
-    rootDir = data.config.rootDir;
-    testDir = baseDir;
-    parsed = true;
 
-    for (const suite of data.suites) {
-      extractTestsFromSuite(suite, [], tests, baseDir, true);
+  const data = streamListSuites(source, (suite, config) => {
+    project ??= getProject(config, projectName);
+    extractTestsFromSuite(
+      suite,
+      [],
+      tests,
+      project.testDir,
+      project.name,
+      projectName !== undefined,
+      true,
+    );
+  });
+
+  project ??= getProject(data, projectName);
+  const rootDir = getRootDir(data);
+  markSerialGroups(tests, project.testDir);
+
+  return { tests, rootDir, testDir: project.testDir, project: project.name };
+}
+
+/**
+ * Parse --list output for several projects in a single pass.
+ */
+function parseListForProjects(
+  source: ListSource,
+  projectNames?: string[],
+): MultiProjectTestList {
+  let projects: ProjectTestList[] | undefined;
+
+  const resolveProjects = (data: PlaywrightListOutput): ProjectTestList[] => {
+    const names =
+      projectNames && projectNames.length > 0
+        ? projectNames
+        : (data.config?.projects ?? []).map((p) => p.name);
+
+    if (names.length === 0) {
+      // Surfaces the "no projects" error
+      getProject(data);
     }
+
+    return names.map((name) => {
+      const project = getProject(data, name);
+      return { name: project.name, testDir: project.testDir, tests: [] };
+    });
   };
 
-  try {
-    const data = JSON.parse(jsonOutput) as PlaywrightListOutput;
-    parseAndExtract(data);
-  } catch (error) {
-    const jsonMatch = jsonOutput.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const data = JSON.parse(jsonMatch[0]) as PlaywrightListOutput;
-      parseAndExtract(data);
-    } else {
-      throw new Error(
-        `[Orchestrator] Failed to parse Playwright --list JSON output: ${error instanceof Error ? error.message : String(error)}`,
+  const data = streamListSuites(source, (suite, config) => {
+    projects ??= resolveProjects(config);
+    for (const project of projects) {
+      extractTestsFromSuite(
+        suite,
+        [],
+        project.tests,
+        project.testDir,
+        project.name,
+        true,
+        true,
       );
     }
+  });
+
+  projects ??= resolveProjects(data);
+  const rootDir = getRootDir(data);
+  for (const project of projects) {
+    markSerialGroups(project.tests, project.testDir);
+  }
+
+  return { rootDir, projects };
+}
+
+/**
+ * Stream the root suites of --list output to a handler, one at a time.
+ *
+ * Output lines before the JSON (e.g. warnings) are skipped. Suites that
+ * appear before the config section are held back until it is parsed.
+ *
+ * @param source - Raw output or a file containing it
+ * @param onSuite - Called with each root suite and the parsed config
+ * @returns The parsed output without its suites
+ */
+function streamListSuites(
+  source: ListSource,
+  onSuite: (suite: PlaywrightListSuite, data: PlaywrightListOutput) => void,
+): PlaywrightListOutput {
+  const pending: PlaywrightListSuite[] = [];
+  const options: JsonStreamOptions = {
+    streamKeys: ['suites'],
+    source: 'file' in source ? source.file : 'Playwright --list output',
+    onElement: (_key, value, root) => {
+      const suite = value as PlaywrightListSuite;
+      if (root.config) {
+        onSuite(suite, root as unknown as PlaywrightListOutput);
+      } else {
+        pending.push(suite);
+      }
+    },
+  };
+
+  const root =
+    'file' in source
+      ? parseJsonFile(source.file, options)
+      : parseJsonText(source.text, options);
+  const data = { ...root, suites: [] } as unknown as PlaywrightListOutput;
+
+  for (const suite of pending) {
+    onSuite(suite, data);
   }
 
-  if (!parsed) {
+  return data;
+}
+
+/**
+ * Get the rootDir from Playwright config.
+ *
+ * @throws Error if rootDir is missing
+ */
+function getRootDir(data: PlaywrightListOutput): string {
+  if (!data.config?.rootDir) {
     throw new Error(
-      '[Orchestrator] Failed to parse Playwright --list JSON output.',
+      '[Orchestrator] Missing config.rootDir in Playwright --list JSON output.',
     );
   }
-
-  return { tests, rootDir, testDir };
+  return data.config.rootDir;
 }
 
 /**
- * Get the testDir for a project from Playwright config.
+ * Get a project (with its testDir) from Playwright config.
  *
  * No fallbacks to process.cwd() - if testDir is not found, fail with clear error.
  *
  * @param data - Parsed Playwright JSON output
  * @param projectName - Optional project name to match
- * @returns The testDir to use for path resolution
- * @throws Error if testDir cannot be determined
+ * @returns The project name and the testDir to use for path resolution
+ * @throws Error if the project or its testDir cannot be determined
  */
-function getProjectTestDir(
+function getProject(
   data: PlaywrightListOutput,
   projectName?: string,
-): string {
+): { name: string; testDir: string } {
   const projects = data.config?.projects;
 
   if (!projects || projects.length === 0) {
@@ -201,7 +397,7 @@ function getProjectTestDir(
     );
   }
 
-  return project.testDir;
+  return { name: project.name, testDir: project.testDir };
 }
 
 /**
@@ -211,6 +407,8 @@ function getProjectTestDir(
  * @param parentTitles - Title path from parent suites (describe blocks)
  * @param tests - Array to collect discovered tests
  * @param rootDir - Test root directory from Playwright config
+ * @param project - Project name to attach to discovered tests
+ * @param filterByProject - Skip specs whose per-project entries don't include `project`
  * @param isRootSuite - Whether this is a root file suite (title is filename, should be skipped)
  */
 function extractTestsFromSuite(
@@ -218,6 +416,8 @@ function extractTestsFromSuite(
   parentTitles: string[],
   tests: DiscoveredTest[],
   rootDir: string,
+  project: string,
+  filterByProject: boolean,
   isRootSuite = false,
 ): void {
   // Root suites have the filename as title - skip it from titlePath
@@ -230,28 +430,91 @@ function extractTestsFromSuite(
   // Process specs (actual tests)
   if (suite.specs) {
     for (const spec of suite.specs) {
+      if (filterByProject && !specRunsInProject(spec, project)) {
+        continue;
+      }
+
       const titlePath = [...currentTitles, spec.title];
       const file = resolveFilePath(spec.file || suite.file, rootDir);
 
-      tests.push({
+      const test: DiscoveredTest = {
         file,
         title: spec.title,
         titlePath,
         testId: buildTestId(file, titlePath),
         line: spec.line,
         column: spec.column,
-      });
+        project,
+      };
+
+      // The JSON reporter drops the @ of spec tags; older --list outputs
+      // have no tags, but titles still carry @tokens
+      const tags = spec.tags?.map(normalizeTag) ?? getTitleTags(titlePath);
+      if (tags.length > 0) {
+        test.tags = tags;
+      }
+      const entry =
+        spec.tests?.find((t) => t.projectName === project) ?? spec.tests?.[0];
+      if (entry?.annotations && entry.annotations.length > 0) {
+        test.annotations = entry.annotations;
+      }
+      tests.push(test);
     }
   }
 
   // Process nested suites (describe blocks)
   if (suite.suites) {
     for (const nestedSuite of suite.suites) {
-      extractTestsFromSuite(nestedSuite, currentTitles, tests, rootDir, false);
+      extractTestsFromSuite(
+        nestedSuite,
+        currentTitles,
+        tests,
+        rootDir,
+        project,
+        filterByProject,
+        false,
+      );
     }
   }
 }
 
+/**
+ * Copy a suite with only the specs whose file is kept, or undefined when
+ * none is left
+ */
+function filterSuite(
+  suite: PlaywrightListSuite,
+  keepFile: (file: string) => boolean,
+): PlaywrightListSuite | undefined {
+  const specs = suite.specs?.filter((spec) =>
+    keepFile(spec.file || suite.file),
+  );
+  const suites = suite.suites
+    ?.map((nested) => filterSuite(nested, keepFile))
+    .filter((nested): nested is PlaywrightListSuite => nested !== undefined);
+  if (!specs?.length && !suites?.length) {
+    return undefined;
+  }
+
+  const filtered: PlaywrightListSuite = { ...suite };
+  if (suite.specs) filtered.specs = specs;
+  if (suite.suites) filtered.suites = suites;
+  return filtered;
+}
+
+/**
+ * Whether a spec runs in the given project.
+ *
+ * Older --list outputs carry no per-project entries; such specs are
+ * assumed to run in every project.
+ */
+function specRunsInProject(spec: PlaywrightListSpec, project: string): boolean {
+  if (!spec.tests || spec.tests.length === 0) {
+    return true;
+  }
+  return spec.tests.some((t) => t.projectName === project);
+}
+
 /**
  * Resolve file path to be relative to rootDir (Playwright's testDir/config dir)
  *
@@ -306,6 +569,7 @@ export function discoverTestsFromFiles(
  *
  * Extracts test() and it() calls with their describe() context.
  * This is a simple regex-based parser that handles common patterns.
+ * Tests in serial describe blocks get a `serialGroup`.
  *
  * @param source - Source code content
  * @param fileName - Name of the source file
@@ -317,37 +581,12 @@ export function parseTestsFromSource(
 ): DiscoveredTest[] {
   const tests: DiscoveredTest[] = [];
 
-  // Match describe blocks and test/it calls
+  // Match test/it calls
   // This is a simplified parser - for full accuracy, use Playwright --list
-  const describeRegex = /(?:test\.)?describe\s*\(\s*['"`]([^'"`]+)['"`]/g;
   const testRegex = /(?:test|it)\s*\(\s*['"`]([^'"`]+)['"`]/g;
 
-  // Find all describe blocks with their positions
-  const describes: { title: string; start: number; end: number }[] = [];
-
-  // Extract all describe blocks
-  for (const match of source.matchAll(describeRegex)) {
-    // Find matching closing brace (simplified - counts braces)
-    const start = match.index ?? 0;
-    let braceCount = 0;
-    let end = start;
-    let foundOpen = false;
-
-    for (let i = start; i < source.length; i++) {
-      if (source[i] === '{') {
-        braceCount++;
-        foundOpen = true;
-      } else if (source[i] === '}') {
-        braceCount--;
-        if (foundOpen && braceCount === 0) {
-          end = i;
-          break;
-        }
-      }
-    }
-
-    describes.push({ title: match[1] ?? '', start, end });
-  }
+  const describes = findDescribeBlocks(source);
+  const serialScopes = findSerialScopes(source, describes);
 
   // Find all tests
   for (const match of source.matchAll(testRegex)) {
@@ -361,6 +600,7 @@ export function parseTestsFromSource(
         titlePath.push(desc.title);
       }
     }
+    const serialGroup = getSerialGroup(fileName, titlePath, serialScopes);
     titlePath.push(testTitle);
 
     // Calculate line number from position (1-based)
@@ -369,19 +609,174 @@ export function parseTestsFromSource(
     const lastNewline = source.lastIndexOf('\n', testPos - 1);
     const column = testPos - lastNewline;
 
-    tests.push({
+    const test: DiscoveredTest = {
       file: fileName,
       title: testTitle,
       titlePath,
       testId: buildTestId(fileName, titlePath),
       line,
       column,
-    });
+    };
+    if (serialGroup) {
+      test.serialGroup = serialGroup;
+    }
+    const tags = getTitleTags(titlePath);
+    if (tags.length > 0) {
+      test.tags = tags;
+    }
+    tests.push(test);
   }
 
   return tests;
 }
 
+/**
+ * Mark tests that belong to serial groups, reading their source files.
+ *
+ * Playwright's --list output doesn't say which describe blocks are
+ * serial, so the test files are analysed like in parseTestsFromSource.
+ * Files that can't be read are left ungrouped.
+ *
+ * @param tests - Tests to mark (modified in place)
+ * @param testDir - Directory test files are relative to
+ */
+export function markSerialGroups(
+  tests: DiscoveredTest[],
+  testDir: string,
+): void {
+  for (const [file, fileTests] of groupTestsByFile(tests)) {
+    let source: string;
+    try {
+      source = fs.readFileSync(path.resolve(testDir, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const serialScopes = findSerialScopes(source, findDescribeBlocks(source));
+    if (serialScopes.length === 0) {
+      continue;
+    }
+    for (const test of fileTests) {
+      const serialGroup = getSerialGroup(
+        file,
+        test.titlePath.slice(0, -1),
+        serialScopes,
+      );
+      if (serialGroup) {
+        test.serialGroup = serialGroup;
+      }
+    }
+  }
+}
+
+/**
+ * A describe block found in source code
+ */
+interface DescribeBlock {
+  title: string;
+  start: number;
+  end: number;
+  /** Declared with `describe.serial` */
+  serial: boolean;
+}
+
+/**
+ * Find describe blocks with their positions, outermost first
+ */
+function findDescribeBlocks(source: string): DescribeBlock[] {
+  const describeRegex =
+    /(?:test\.)?describe((?:\.(?:serial|parallel|only|skip|fixme))*)\s*\(\s*['"`]([^'"`]+)['"`]/g;
+  const describes: DescribeBlock[] = [];
+
+  for (const match of source.matchAll(describeRegex)) {
+    // Find matching closing brace (simplified - counts braces)
+    const start = match.index ?? 0;
+    let braceCount = 0;
+    let end = start;
+    let foundOpen = false;
+
+    for (let i = start; i < source.length; i++) {
+      if (source[i] === '{') {
+        braceCount++;
+        foundOpen = true;
+      } else if (source[i] === '}') {
+        braceCount--;
+        if (foundOpen && braceCount === 0) {
+          end = i;
+          break;
+        }
+      }
+    }
+
+    describes.push({
+      title: match[2] ?? '',
+      start,
+      end,
+      serial: (match[1] ?? '').includes('.serial'),
+    });
+  }
+
+  return describes;
+}
+
+/**
+ * Find the scopes whose tests run serially, as describe title paths.
+ *
+ * A scope is serial when declared with `describe.serial` or when
+ * `describe.configure({ mode: 'serial' })` is called in it. An empty
+ * path means the whole file is serial.
+ */
+function findSerialScopes(
+  source: string,
+  describes: DescribeBlock[],
+): string[][] {
+  const configureRegex =
+    /(?:test\.)?describe\.configure\s*\(\s*\{[^}]*\bmode\s*:\s*['"`]serial['"`]/g;
+  const serial = new Set(describes.filter((d) => d.serial));
+  let fileSerial = false;
+
+  for (const match of source.matchAll(configureRegex)) {
+    const pos = match.index ?? 0;
+    // The innermost describe block containing the call
+    const scope = describes.filter((d) => pos > d.start && pos < d.end).pop();
+    if (scope) {
+      serial.add(scope);
+    } else {
+      fileSerial = true;
+    }
+  }
+
+  const scopes: string[][] = fileSerial ? [[]] : [];
+  for (const desc of serial) {
+    scopes.push(
+      describes
+        .filter((d) => d.start <= desc.start && d.end >= desc.end)
+        .map((d) => d.title),
+    );
+  }
+  return scopes;
+}
+
+/**
+ * ID of the outermost serial scope enclosing a test's describe path
+ *
+ * @returns The serial group ID, or undefined if the test isn't in one
+ */
+function getSerialGroup(
+  file: string,
+  describePath: string[],
+  serialScopes: string[][],
+): string | undefined {
+  let outermost: string[] | undefined;
+  for (const scope of serialScopes) {
+    const encloses = scope.every((title, i) => describePath[i] === title);
+    if (encloses && (!outermost || scope.length < outermost.length)) {
+      outermost = scope;
+    }
+  }
+  return outermost ? buildTestId(file, outermost) : undefined;
+}
+
 /**
  * Group tests by file
  *
@@ -7,6 +7,8 @@
  * @module @nsxbet/playwright-orchestrator/core/test-id
  */
 
+import * as path from 'node:path';
+
 const TEST_LIST_SEPARATOR = ' › ';
 
 /**
@@ -17,12 +19,15 @@ const TEST_LIST_SEPARATOR = ' › ';
 export interface TestListEntry {
   file: string;
   titlePath: string[];
+  /** Playwright project, emitted as a `[project] › ` prefix when set */
+  project?: string;
 }
 
 /**
  * Convert a test entry to Playwright's --test-list format.
  *
- * Test-list format: `file › describe › test`
+ * Test-list format: `file › describe › test`, or
+ * `[project] › file › describe › test` when the entry names a project.
  *
  * When testDirPrefix is provided (monorepo case where testDir != rootDir),
  * the prefix is prepended to the file path so paths are relative to rootDir.
@@ -43,7 +48,10 @@ export function toTestListFormat(
     ? `${cleanPrefix}/${normalizedFile}`
     : normalizedFile;
 
-  return [fullPath, ...entry.titlePath].join(TEST_LIST_SEPARATOR);
+  const line = [fullPath, ...entry.titlePath].join(TEST_LIST_SEPARATOR);
+  return entry.project
+    ? `[${entry.project}]${TEST_LIST_SEPARATOR}${line}`
+    : line;
 }
 
 /**
@@ -63,3 +71,54 @@ export function toTestListFile(
   if (entries.length === 0) return '';
   return `${entries.map((e) => toTestListFormat(e, testDirPrefix)).join('\n')}\n`;
 }
+
+/**
+ * Normalize a test file path to be relative to testDir.
+ *
+ * DETERMINISTIC APPROACH:
+ * 1. The file path is absolute or relative to rootDir
+ * 2. testDir is either absolute or relative to rootDir
+ * 3. We resolve both to get absolute paths, then compute relative path
+ *
+ * This ensures consistent test IDs regardless of container path differences.
+ *
+ * @param filePath - Test file path (absolute, or relative to rootDir)
+ * @param rootDir - Directory containing the Playwright config
+ * @param testDir - Project testDir (absolute, or relative to rootDir)
+ * @returns File path relative to testDir, with forward slashes
+ */
+export function normalizeTestFilePath(
+  filePath: string,
+  rootDir: string,
+  testDir: string,
+): string {
+  const normalizedFile = filePath.replace(/\\/g, '/');
+  const normalizedTestDir = testDir.replace(/\\/g, '/');
+  const normalizedRootDir = rootDir.replace(/\\/g, '/');
+
+  // Resolve the file to get the "logical" absolute path
+  const absoluteFile = path.isAbsolute(normalizedFile)
+    ? normalizedFile
+    : path.join(normalizedRootDir, normalizedFile).replace(/\\/g, '/');
+
+  // testDir might be relative to rootDir, resolve it
+  const absoluteTestDir = path.isAbsolute(normalizedTestDir)
+    ? normalizedTestDir
+    : path.join(normalizedRootDir, normalizedTestDir).replace(/\\/g, '/');
+
+  // Now compute relative path from testDir to file
+  // Both are now in the same "logical" path space
+  const relativePath = path
+    .relative(absoluteTestDir, absoluteFile)
+    .replace(/\\/g, '/');
+
+  // Sanity check: result should not start with ../
+  // If it does, the file is outside testDir which shouldn't happen
+  if (relativePath.startsWith('../')) {
+    // Use basename as fallback
+    // This handles edge cases where paths are truly mismatched
+    return path.basename(filePath);
+  }
+
+  return relativePath;
+}
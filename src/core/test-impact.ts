@@ -0,0 +1,329 @@
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExp } from './constraints.js';
+
+/**
+ * How changed files map to the specs they affect, beyond TypeScript imports
+ *
+ * Paths and globs are relative to the directory of the config file.
+ */
+export interface ImpactConfig {
+  /** Import aliases like tsconfig `paths`, e.g. `{ "@pages/*": ["pages/*"] }` */
+  paths?: Record<string, string[]>;
+  /**
+   * Dependencies the imports don't show: a change to a file matching a
+   * key affects the files matching its globs, e.g. test data read at runtime
+   */
+  dependencies?: Record<string, string[]>;
+  /** Changes to files matching these globs select every test */
+  runAll?: string[];
+}
+
+/**
+ * Options for resolving imports and matching globs
+ */
+export interface ImpactOptions {
+  /** Directory that config paths and globs are relative to */
+  baseDir: string;
+  config?: ImpactConfig;
+}
+
+/**
+ * Spec files affected by a set of changes
+ */
+export interface ImpactResult {
+  /** Affected spec files (absolute paths), in the order given */
+  files: string[];
+  /** Changed file that selected every spec, if any */
+  runAll?: string;
+}
+
+/**
+ * Map of each file (absolute path) to the local files it imports
+ */
+export type ImportGraph = Map<string, string[]>;
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs'];
+
+/**
+ * Load an impact config from a JSON file
+ *
+ * @param filePath - Path to the config file
+ * @returns Validated config
+ * @throws Error if the file can't be read or is invalid
+ */
+export function loadImpactConfig(filePath: string): ImpactConfig {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    throw new Error(`[Orchestrator] Failed to read impact config: ${filePath}`);
+  }
+  return parseImpactConfig(content);
+}
+
+/**
+ * Parse and validate an impact config
+ *
+ * @param content - Config JSON
+ * @returns Validated config
+ * @throws Error if the JSON or a section is invalid
+ */
+export function parseImpactConfig(content: string): ImpactConfig {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('[Orchestrator] Impact config is not valid JSON');
+  }
+  if (!isRecord(data)) {
+    throw new Error(
+      '[Orchestrator] Impact config must hold an object with paths, dependencies or runAll',
+    );
+  }
+
+  const config: ImpactConfig = {};
+  for (const key of ['paths', 'dependencies'] as const) {
+    const value = data[key];
+    if (value === undefined) continue;
+    if (!isRecord(value) || !Object.values(value).every(isStringList)) {
+      throw new Error(
+        `[Orchestrator] Invalid "${key}" in impact config. Use an object of lists like { "fixtures/data/**": ["checkout/**"] }.`,
+      );
+    }
+    config[key] = value as Record<string, string[]>;
+  }
+  if (data.runAll !== undefined) {
+    if (!isStringList(data.runAll)) {
+      throw new Error(
+        '[Orchestrator] Invalid "runAll" in impact config. Use a list of globs like ["playwright.config.ts"].',
+      );
+    }
+    config.runAll = data.runAll;
+  }
+  return config;
+}
+
+/**
+ * List the files changed since a git base ref
+ *
+ * Compares against the merge base (`base...HEAD`), so only the changes
+ * of the current branch count.
+ *
+ * @param base - Base ref, e.g. `origin/main`
+ * @param cwd - Directory inside the repository
+ * @returns Changed files as absolute paths
+ * @throws Error if git fails
+ */
+export function getChangedFiles(base: string, cwd: string): string[] {
+  const git = (args: string[]) => {
+    const result = spawnSync('git', args, { cwd, encoding: 'utf-8' });
+    if (result.error || result.status !== 0) {
+      const message = result.error?.message ?? result.stderr.trim();
+      throw new Error(
+        `[Orchestrator] git ${args.join(' ')} failed: ${message}`,
+      );
+    }
+    return result.stdout.trim();
+  };
+
+  const root = git(['rev-parse', '--show-toplevel']);
+  return git(['diff', '--name-only', `${base}...HEAD`])
+    .split('\n')
+    .filter((file) => file !== '')
+    .map((file) => path.resolve(root, file));
+}
+
+/**
+ * Extract the module specifiers a source file imports
+ *
+ * Covers static imports and re-exports, side-effect imports, dynamic
+ * `import()` and `require()`. Specifiers in comments are included too,
+ * which at worst selects a test too many.
+ *
+ * @param source - Source code
+ * @returns Specifiers without duplicates
+ */
+export function parseImports(source: string): string[] {
+  const patterns = [
+    /\bfrom\s*['"]([^'"\n]+)['"]/g,
+    /\bimport\s*['"]([^'"\n]+)['"]/g,
+    /\b(?:import|require)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+  ];
+  const specifiers = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of source.matchAll(pattern)) {
+      if (match[1]) specifiers.add(match[1]);
+    }
+  }
+  return [...specifiers];
+}
+
+/**
+ * Resolve an import to a local file
+ *
+ * Relative imports resolve against the importing file and aliases against
+ * the base directory. `.js` specifiers also find `.ts` sources, and
+ * directories resolve to their index file. Packages are not followed.
+ *
+ * @param specifier - Module specifier
+ * @param fromFile - Importing file (absolute path)
+ * @param options - Base directory and aliases
+ * @returns Absolute path of the imported file, or undefined
+ */
+export function resolveImport(
+  specifier: string,
+  fromFile: string,
+  options: ImpactOptions,
+): string | undefined {
+  if (specifier.startsWith('.')) {
+    return resolveFile(path.resolve(path.dirname(fromFile), specifier));
+  }
+
+  for (const [alias, targets] of Object.entries(options.config?.paths ?? {})) {
+    const star = alias.indexOf('*');
+    const prefix = star === -1 ? alias : alias.slice(0, star);
+    const suffix = star === -1 ? '' : alias.slice(star + 1);
+    const matches =
+      star === -1
+        ? specifier === alias
+        : specifier.startsWith(prefix) && specifier.endsWith(suffix);
+    if (!matches) continue;
+
+    const rest = specifier.slice(
+      prefix.length,
+      specifier.length - suffix.length,
+    );
+    for (const target of targets) {
+      const resolved = resolveFile(
+        path.resolve(options.baseDir, target.replace('*', rest)),
+      );
+      if (resolved) return resolved;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the graph of local imports reachable from the given files
+ *
+ * @param entries - Entry files (absolute paths), usually the spec files
+ * @param options - Base directory and aliases
+ * @returns Local imports per reachable file
+ */
+export function buildImportGraph(
+  entries: string[],
+  options: ImpactOptions,
+): ImportGraph {
+  const graph: ImportGraph = new Map();
+  const queue = [...entries];
+  for (let file = queue.pop(); file !== undefined; file = queue.pop()) {
+    if (graph.has(file)) continue;
+
+    let source = '';
+    if (CODE_EXTENSIONS.includes(path.extname(file))) {
+      try {
+        source = fs.readFileSync(file, 'utf-8');
+      } catch {
+        // Deleted or unreadable files have no imports
+      }
+    }
+    const imports = parseImports(source)
+      .map((specifier) => resolveImport(specifier, file, options))
+      .filter((resolved): resolved is string => resolved !== undefined);
+    graph.set(file, [...new Set(imports)]);
+    queue.push(...imports);
+  }
+  return graph;
+}
+
+/**
+ * Find the spec files affected by changed files
+ *
+ * A spec is affected when it or anything it imports, directly or through
+ * fixtures and page objects, changed. Config `dependencies` add edges the
+ * imports don't show, and a change matching `runAll` selects every spec.
+ *
+ * @param specFiles - Spec files (absolute paths)
+ * @param changedFiles - Changed files (absolute paths)
+ * @param options - Base directory and impact config
+ * @returns Affected spec files
+ */
+export function findAffectedFiles(
+  specFiles: string[],
+  changedFiles: string[],
+  options: ImpactOptions,
+): ImpactResult {
+  const relative = (file: string) =>
+    path.relative(options.baseDir, file).replace(/\\/g, '/');
+  const matcher = (globs: string[]) => {
+    const regexps = globs.map(globToRegExp);
+    return (file: string) => regexps.some((r) => r.test(relative(file)));
+  };
+
+  const runAll = changedFiles.find(matcher(options.config?.runAll ?? []));
+  if (runAll) {
+    return { files: specFiles, runAll };
+  }
+
+  const graph = buildImportGraph(specFiles, options);
+  const dependents = new Map<string, string[]>();
+  for (const [file, imports] of graph) {
+    for (const imported of imports) {
+      dependents.set(imported, [...(dependents.get(imported) ?? []), file]);
+    }
+  }
+
+  const changed = new Set(changedFiles);
+  for (const [source, targets] of Object.entries(
+    options.config?.dependencies ?? {},
+  )) {
+    if (!changedFiles.some(matcher([source]))) continue;
+    const isTarget = matcher(targets);
+    for (const file of graph.keys()) {
+      if (isTarget(file)) changed.add(file);
+    }
+  }
+
+  const affected = new Set<string>();
+  const queue = [...changed];
+  for (let file = queue.pop(); file !== undefined; file = queue.pop()) {
+    if (affected.has(file)) continue;
+    affected.add(file);
+    queue.push(...(dependents.get(file) ?? []));
+  }
+
+  return { files: specFiles.filter((file) => affected.has(file)) };
+}
+
+/**
+ * Resolve a path without extension, a `.js` path to its `.ts` source or a
+ * directory to its index file
+ */
+function resolveFile(base: string): string | undefined {
+  const stem = base.replace(/\.(?:js|jsx|mjs|cjs)$/, '');
+  const candidates = [
+    base,
+    ...CODE_EXTENSIONS.map((ext) => `${stem}${ext}`),
+    ...CODE_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+  return candidates.find((candidate) => {
+    try {
+      return fs.statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  });
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === 'string' && item !== '')
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,93 @@
+import type {
+  TestShardAssignment,
+  TestTimingData,
+  TestWithDuration,
+  TimingData,
+} from './types.js';
+import { parseProjectTestId } from './types.js';
+
+/**
+ * Order of the tests within each shard
+ * - `assigned`: the order the algorithm placed them in
+ * - `failures-first`: recently failed, then flaky tests, longest first
+ */
+export type TestOrder = 'assigned' | 'failures-first';
+
+/** Supported test orders */
+export const TEST_ORDERS: TestOrder[] = ['assigned', 'failures-first'];
+
+/** Number of most recent runs that count for failure-first ordering */
+export const RECENT_FAILURE_RUNS = 5;
+
+/**
+ * How early a test should run, from its recent outcome history
+ *
+ * @param timing - Timing data of a single test
+ * @param runs - Number of most recent runs to look at
+ * @returns 2 if it failed or timed out, 1 if it was flaky, 0 otherwise
+ */
+export function getFailurePriority(
+  timing: Pick<TestTimingData, 'history'> | undefined,
+  runs = RECENT_FAILURE_RUNS,
+): number {
+  const recent = (timing?.history ?? []).slice(-runs);
+  if (recent.some((o) => o === 'failed' || o === 'timedOut')) {
+    return 2;
+  }
+  return recent.includes('flaky') ? 1 : 0;
+}
+
+/**
+ * Resolve the failure priority of each scheduling item
+ *
+ * A serial or together group runs as a whole, so it takes the highest
+ * priority of its tests. Project-qualified keys share the history of
+ * their test.
+ *
+ * @param tests - Scheduling inputs, before grouping
+ * @param timingData - Timing data with outcome histories
+ * @returns Failure priority per item ID, for items above 0
+ */
+export function getFailurePriorities(
+  tests: TestWithDuration[],
+  timingData: TimingData | null,
+): Record<string, number> {
+  const priorities: Record<string, number> = {};
+  for (const test of tests) {
+    const { testId } = parseProjectTestId(test.testId);
+    const priority = getFailurePriority(timingData?.tests[testId]);
+    const item = test.serialGroup ?? test.testId;
+    if (priority > (priorities[item] ?? 0)) {
+      priorities[item] = priority;
+    }
+  }
+  return priorities;
+}
+
+/**
+ * Put recently failed and flaky items at the top of each shard, so red
+ * builds fail fast
+ *
+ * Items are sorted by failure priority, then by duration (longest first).
+ * Only the order within a shard changes, never the shard of an item.
+ *
+ * @param assignments - Shard assignments of scheduling items
+ * @param items - Scheduling items with their durations
+ * @param priorities - Failure priority per item ID (0 when absent)
+ * @returns Assignments with each shard's items reordered
+ */
+export function orderFailuresFirst(
+  assignments: TestShardAssignment[],
+  items: TestWithDuration[],
+  priorities: Record<string, number>,
+): TestShardAssignment[] {
+  const durations = new Map(items.map((t) => [t.testId, t.duration]));
+  return assignments.map((assignment) => ({
+    ...assignment,
+    tests: [...assignment.tests].sort(
+      (a, b) =>
+        (priorities[b] ?? 0) - (priorities[a] ?? 0) ||
+        (durations.get(b) ?? 0) - (durations.get(a) ?? 0),
+    ),
+  }));
+}
@@ -0,0 +1,184 @@
+import type {
+  PlaywrightTest,
+  PlaywrightTestResult,
+  PlaywrightTestStep,
+  TestAttemptTiming,
+  TestOutcome,
+} from './types.js';
+
+/**
+ * Outcomes from least to most severe, used to combine several runs of a test
+ */
+const OUTCOME_SEVERITY: TestOutcome[] = [
+  'skipped',
+  'passed',
+  'flaky',
+  'timedOut',
+  'failed',
+];
+
+/**
+ * Hook steps whose time is paid once by every worker that runs a file
+ */
+const SETUP_HOOK_TITLES = new Set(['beforeAll hook', 'afterAll hook']);
+
+/**
+ * Time one attempt spent in beforeAll/afterAll hooks
+ */
+export interface SetupMeasurement {
+  /** Test file of the attempt */
+  file: string;
+  /** Worker that ran the attempt */
+  workerIndex?: number;
+  /** Time in ms spent in beforeAll/afterAll hooks */
+  setup: number;
+}
+
+/**
+ * Summarize the attempts of a test into first-attempt, retry and total timing.
+ *
+ * Playwright reports one result per attempt, in retry order. When a spec ran
+ * more than once (e.g. `--repeat-each`), each run contributes its own first
+ * attempt and retries.
+ *
+ * @param runs - Results of each run of the test
+ * @returns Attempt breakdown in milliseconds
+ */
+export function summarizeAttempts(
+  runs: Array<Pick<PlaywrightTestResult, 'duration'>[]>,
+): TestAttemptTiming {
+  const timing: TestAttemptTiming = { firstAttempt: 0, retries: 0, total: 0 };
+
+  for (const results of runs) {
+    results.forEach((result, attempt) => {
+      if (attempt === 0) {
+        timing.firstAttempt += result.duration;
+      } else {
+        timing.retries++;
+      }
+      timing.total += result.duration;
+    });
+  }
+
+  return timing;
+}
+
+/**
+ * Determine the outcome of a test from its runs.
+ *
+ * Uses Playwright's overall test status when present (so `test.fail()`
+ * tests that fail as expected count as passed), otherwise derives it from
+ * the attempt results. When a spec ran more than once, the most severe
+ * outcome wins.
+ *
+ * @param runs - Each run of the test with its attempt results
+ * @returns Final outcome of the test
+ */
+export function determineOutcome(
+  runs: Array<Pick<PlaywrightTest, 'status' | 'results'>>,
+): TestOutcome {
+  return combineOutcomes(runs.map(determineRunOutcome));
+}
+
+/**
+ * Combine the outcomes of several runs of a test; the most severe wins
+ *
+ * @param outcomes - Outcome of each run
+ * @returns Combined outcome (skipped without runs)
+ */
+export function combineOutcomes(outcomes: TestOutcome[]): TestOutcome {
+  let outcome: TestOutcome = 'skipped';
+
+  for (const runOutcome of outcomes) {
+    if (
+      OUTCOME_SEVERITY.indexOf(runOutcome) > OUTCOME_SEVERITY.indexOf(outcome)
+    ) {
+      outcome = runOutcome;
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Determine the outcome of a single run of a test
+ */
+function determineRunOutcome(
+  run: Pick<PlaywrightTest, 'status' | 'results'>,
+): TestOutcome {
+  const last = run.results[run.results.length - 1];
+
+  switch (run.status) {
+    case 'skipped':
+      return 'skipped';
+    case 'flaky':
+      return 'flaky';
+    case 'expected':
+      return 'passed';
+    case 'unexpected':
+      return last?.status === 'timedOut' ? 'timedOut' : 'failed';
+  }
+
+  if (!last || run.results.every((r) => r.status === 'skipped')) {
+    return 'skipped';
+  }
+  if (last.status === 'passed') {
+    return run.results.some((r) => r.status !== 'passed') ? 'flaky' : 'passed';
+  }
+  return last.status === 'timedOut' ? 'timedOut' : 'failed';
+}
+
+/**
+ * Measure the time an attempt spent in beforeAll/afterAll hooks.
+ *
+ * Playwright nests hooks under "Before Hooks" and "After Hooks" steps.
+ * Fixtures a hook sets up are nested in the hook and count towards it.
+ *
+ * @param steps - Steps of the attempt
+ * @returns Hook time in milliseconds
+ */
+export function measureSetupTime(steps: PlaywrightTestStep[] = []): number {
+  let total = 0;
+  for (const step of steps) {
+    total += SETUP_HOOK_TITLES.has(step.title)
+      ? step.duration
+      : measureSetupTime(step.steps);
+  }
+  return total;
+}
+
+/**
+ * Summarize hook measurements into the setup time of each file.
+ *
+ * A file's beforeAll/afterAll hooks run once in every worker that runs
+ * its tests, so the total is averaged over those workers. That is what
+ * splitting the file onto one more shard costs.
+ *
+ * @param measurements - Hook time of each attempt
+ * @returns Setup time in ms per file, for files whose hooks took any time
+ */
+export function summarizeFileSetup(
+  measurements: SetupMeasurement[],
+): Record<string, number> {
+  const files = new Map<string, { total: number; workers: Set<number> }>();
+
+  for (const { file, workerIndex, setup } of measurements) {
+    let entry = files.get(file);
+    if (!entry) {
+      entry = { total: 0, workers: new Set() };
+      files.set(file, entry);
+    }
+    entry.total += setup;
+    if (setup > 0) {
+      entry.workers.add(workerIndex ?? -1);
+    }
+  }
+
+  const setup: Record<string, number> = {};
+  for (const [file, { total, workers }] of files) {
+    if (total > 0) {
+      setup[file] = Math.round(total / workers.size);
+    }
+  }
+  return setup;
+}
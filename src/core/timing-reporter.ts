@@ -0,0 +1,224 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { slugify } from './slugify.js';
+import { normalizeTestFilePath } from './test-id.js';
+import {
+  combineOutcomes,
+  determineOutcome,
+  measureSetupTime,
+  type SetupMeasurement,
+  summarizeFileSetup,
+} from './test-results.js';
+import type {
+  ShardTimingArtifact,
+  TestAttemptTiming,
+  TestOutcome,
+} from './types.js';
+import { buildTestId } from './types.js';
+
+/**
+ * Playwright reporter API shapes used by {@link TimingReporter}
+ *
+ * Declared structurally so the package doesn't depend on `@playwright/test`.
+ */
+export interface ReporterProject {
+  name: string;
+  testDir: string;
+}
+
+export interface ReporterConfig {
+  rootDir: string;
+  shard: { current: number; total: number } | null;
+}
+
+export interface ReporterSuite {
+  title: string;
+  type: 'root' | 'project' | 'file' | 'describe';
+  parent?: ReporterSuite;
+  project(): ReporterProject | undefined;
+}
+
+export interface ReporterTestStep {
+  title: string;
+  duration: number;
+  steps: ReporterTestStep[];
+}
+
+export interface ReporterTestResult {
+  /** Attempt index, 0 for the first attempt */
+  retry: number;
+  duration: number;
+  status: string;
+  workerIndex?: number;
+  steps?: ReporterTestStep[];
+}
+
+export interface ReporterTestCase {
+  title: string;
+  parent: ReporterSuite;
+  location: { file: string };
+  /** Repetition index with `--repeat-each`, 0 otherwise */
+  repeatEachIndex: number;
+  outcome(): 'skipped' | 'expected' | 'unexpected' | 'flaky';
+}
+
+/**
+ * What {@link TimingReporter} keeps of a test while the run goes on
+ */
+interface TestSummary {
+  timing: TestAttemptTiming;
+  /** Latest outcome of each repetition */
+  outcomes: Map<number, TestOutcome>;
+}
+
+/**
+ * Options for {@link TimingReporter}
+ */
+export interface TimingReporterOptions {
+  /** Directory for the timing artifacts (default: current directory) */
+  outputDir?: string;
+  /** Shard index (default: Playwright's `--shard` index, or 1) */
+  shard?: number;
+}
+
+/**
+ * Playwright reporter that writes {@link ShardTimingArtifact}s directly
+ *
+ * Replaces `--reporter=json` plus `extract-timing`: each attempt is added
+ * to its test's summary as it finishes, and one artifact per project is
+ * written at the end, as `timing-shard-<shard>-<project>.json`.
+ * Repetitions from `--repeat-each` are merged like runs in a JSON report.
+ * Test IDs are identical to the ones `extract-timing` produces.
+ *
+ * @example
+ * // playwright.config.ts
+ * reporter: [
+ *   ['list'],
+ *   ['@nsxbet/playwright-orchestrator/reporter', { outputDir: 'timing', shard: Number(process.env.SHARD) }],
+ * ]
+ */
+export class TimingReporter {
+  private readonly options: TimingReporterOptions;
+  private rootDir = '';
+  private shard = 1;
+  // Summary of each test per project
+  private readonly tests = new Map<string, Map<string, TestSummary>>();
+  // Hook time of the first attempts per project
+  private readonly setup = new Map<string, SetupMeasurement[]>();
+
+  constructor(options: TimingReporterOptions = {}) {
+    this.options = options;
+  }
+
+  onBegin(config: ReporterConfig): void {
+    this.rootDir = config.rootDir;
+    this.shard = this.options.shard || config.shard?.current || 1;
+  }
+
+  onTestEnd(test: ReporterTestCase, result: ReporterTestResult): void {
+    const project = test.parent.project();
+    if (!project) {
+      return;
+    }
+
+    const file = normalizeTestFilePath(
+      test.location.file,
+      this.rootDir,
+      project.testDir,
+    );
+    const testId = buildTestId(file, [...describeTitles(test), test.title]);
+
+    let projectTests = this.tests.get(project.name);
+    if (!projectTests) {
+      projectTests = new Map();
+      this.tests.set(project.name, projectTests);
+    }
+    let summary = projectTests.get(testId);
+    if (!summary) {
+      summary = {
+        timing: { firstAttempt: 0, retries: 0, total: 0 },
+        outcomes: new Map(),
+      };
+      projectTests.set(testId, summary);
+    }
+
+    // Every repetition has its own first attempt and retries
+    if (result.retry === 0) {
+      summary.timing.firstAttempt += result.duration;
+      let setup = this.setup.get(project.name);
+      if (!setup) {
+        setup = [];
+        this.setup.set(project.name, setup);
+      }
+      setup.push({
+        file,
+        workerIndex: result.workerIndex,
+        setup: measureSetupTime(result.steps),
+      });
+    } else {
+      summary.timing.retries++;
+    }
+    summary.timing.total += result.duration;
+    // The latest attempt of a repetition decides its outcome
+    summary.outcomes.set(
+      test.repeatEachIndex,
+      determineOutcome([{ status: test.outcome(), results: [result] }]),
+    );
+  }
+
+  async onEnd(): Promise<void> {
+    const outputDir = path.resolve(this.options.outputDir ?? '.');
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    for (const [project, projectTests] of this.tests) {
+      const tests: Record<string, number> = {};
+      const attempts: Record<string, TestAttemptTiming> = {};
+      const outcomes: Record<string, TestOutcome> = {};
+
+      for (const [testId, summary] of projectTests) {
+        attempts[testId] = summary.timing;
+        tests[testId] = summary.timing.total;
+        outcomes[testId] = combineOutcomes([...summary.outcomes.values()]);
+      }
+
+      const artifact: ShardTimingArtifact = {
+        shard: this.shard,
+        project,
+        tests,
+        attempts,
+        outcomes,
+      };
+      const fileSetup = summarizeFileSetup(this.setup.get(project) ?? []);
+      if (Object.keys(fileSetup).length > 0) {
+        artifact.setup = fileSetup;
+      }
+      fs.writeFileSync(
+        path.join(
+          outputDir,
+          `timing-shard-${this.shard}-${slugify(project)}.json`,
+        ),
+        JSON.stringify(artifact, null, 2),
+        'utf-8',
+      );
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Titles of the describe blocks enclosing a test, outermost first
+ */
+function describeTitles(test: ReporterTestCase): string[] {
+  const titles: string[] = [];
+  let suite: ReporterSuite | undefined = test.parent;
+  while (suite) {
+    if (suite.type === 'describe' && suite.title) {
+      titles.unshift(suite.title);
+    }
+    suite = suite.parent;
+  }
+  return titles;
+}
@@ -1,6 +1,11 @@
 import * as fs from 'node:fs';
 import type {
+  DurationSource,
+  FileTimingData,
+  ProjectFileTimingData,
+  ProjectTimingData,
   ShardTimingArtifact,
+  TestOutcome,
   TestTimingData,
   TimingData,
 } from './types.js';
@@ -17,36 +22,153 @@ export const DEFAULT_EMA_ALPHA = 0.3;
  */
 export const DEFAULT_PRUNE_DAYS = 30;
 
+/**
+ * Default number of recent outcomes kept per test
+ */
+export const DEFAULT_HISTORY_SIZE = 10;
+
+/**
+ * Pass/flaky/fail counts over a test's recent outcome history
+ */
+export interface OutcomeSummary {
+  /** Number of runs in the history */
+  runs: number;
+  passed: number;
+  flaky: number;
+  /** Failed or timed out */
+  failed: number;
+  /** Share of runs that were flaky (0-1) */
+  flakyRate: number;
+  /** Share of runs that failed or timed out (0-1) */
+  failureRate: number;
+}
+
+/**
+ * Default measurement that feeds the EMA. First attempts keep one slow
+ * retry from inflating a test's timing for weeks.
+ */
+export const DEFAULT_DURATION_SOURCE: DurationSource = 'first-attempt';
+
 /**
  * Load timing data from a JSON file
  *
+ * Older supported versions are migrated to the current schema.
+ *
  * @param filePath - Path to the timing data JSON file
  * @returns Timing data, or empty data if file doesn't exist or is invalid
  */
 export function loadTimingData(filePath: string): TimingData {
   try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const data = JSON.parse(content) as {
-      version: number;
-      [key: string]: unknown;
-    };
-
-    // Only accept current version
-    if (data.version === TIMING_DATA_VERSION) {
-      return data as unknown as TimingData;
-    }
-
-    // Unknown or old version - return empty data
-    console.warn(
-      `Timing data version mismatch: expected ${TIMING_DATA_VERSION}, got ${data.version}. Using empty data.`,
-    );
-    return createEmptyTimingData();
+    return parseTimingData(fs.readFileSync(filePath, 'utf-8'));
   } catch {
     // File doesn't exist or is invalid - return empty data
     return createEmptyTimingData();
   }
 }
 
+/**
+ * Parse serialized timing data, migrating older supported versions
+ *
+ * @param content - Timing data JSON
+ * @returns Timing data, or empty data if the version is unsupported
+ * @throws If the content is not valid JSON
+ */
+export function parseTimingData(content: string): TimingData {
+  const data = JSON.parse(content) as {
+    version: number;
+    [key: string]: unknown;
+  };
+
+  const migrated = migrateTimingData(data);
+  if (migrated) {
+    return migrated;
+  }
+
+  // Unknown or unsupported version - return empty data
+  console.warn(
+    `Timing data version mismatch: expected ${TIMING_DATA_VERSION}, got ${data.version}. Using empty data.`,
+  );
+  return createEmptyTimingData();
+}
+
+/**
+ * Parse timing data read from a store
+ *
+ * Unlike {@link loadTimingData}, stored data that can't be read isn't
+ * treated as empty: the next merge would replace every run's history
+ * with its own.
+ *
+ * @param content - Timing data JSON
+ * @param location - Where the data lives, for error messages
+ * @throws Error if the content is not timing data of a supported version
+ */
+export function parseStoredTimingData(
+  content: string,
+  location: string,
+): TimingData {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    data = null;
+  }
+  return migrateStoredTimingData(data, location);
+}
+
+/**
+ * Migrate timing data read from a store to the current schema version
+ *
+ * @param data - Parsed timing data of any version
+ * @param location - Where the data lives, for error messages
+ * @throws Error if the data is not timing data of a supported version
+ */
+export function migrateStoredTimingData(
+  data: unknown,
+  location: string,
+): TimingData {
+  if (typeof data !== 'object' || data === null) {
+    throw new Error(
+      `[Orchestrator] Timing data at ${location} is unreadable; fix or delete it before merging`,
+    );
+  }
+  const versioned = data as { version: number; [key: string]: unknown };
+  const migrated = migrateTimingData(versioned);
+  if (!migrated) {
+    throw new Error(
+      `[Orchestrator] Timing data at ${location} has version ${versioned.version}, expected ${TIMING_DATA_VERSION}; fix or delete it before merging`,
+    );
+  }
+  return migrated;
+}
+
+/**
+ * Migrate parsed timing data to the current schema version
+ *
+ * - v3: returned as-is
+ * - v2: same test entries without per-project data. Their durations stay
+ *   as the cross-project fallback until each project is measured again.
+ *
+ * @param data - Parsed timing data of any version
+ * @returns Timing data in the current schema, or null if the version is unsupported
+ */
+export function migrateTimingData(data: {
+  version: number;
+  [key: string]: unknown;
+}): TimingData | null {
+  if (data.version === TIMING_DATA_VERSION) {
+    return data as unknown as TimingData;
+  }
+
+  if (data.version === 2) {
+    return {
+      ...(data as unknown as Omit<TimingData, 'version'>),
+      version: TIMING_DATA_VERSION,
+    };
+  }
+
+  return null;
+}
+
 /**
  * Save timing data to a JSON file
  */
@@ -72,31 +194,97 @@ export function calculateEMA(
   return Math.round(alpha * newDuration + (1 - alpha) * oldDuration);
 }
 
+/**
+ * Calculate the exponentially weighted moving variance for duration
+ *
+ * Uses the incremental form that pairs with calculateEMA:
+ * diff = measured - mean, variance = (1 - α) * (variance + α * diff²)
+ *
+ * @param oldDuration - Previous EMA duration (the mean)
+ * @param oldVariance - Previous variance in ms²
+ * @param newDuration - New measured duration
+ * @param alpha - Smoothing factor (0-1), higher = more weight on new value
+ */
+export function calculateEMVariance(
+  oldDuration: number,
+  oldVariance: number,
+  newDuration: number,
+  alpha: number = DEFAULT_EMA_ALPHA,
+): number {
+  const diff = newDuration - oldDuration;
+  return Math.round((1 - alpha) * (oldVariance + alpha * diff * diff));
+}
+
 /**
  * Merge new timing measurements into existing timing data using EMA
  *
+ * Both the duration (mean) and its variance are smoothed, so that
+ * unstable tests can be scheduled on a high percentile. Retries are
+ * accumulated separately for retry-budget reporting.
+ *
+ * Skipped tests are left untouched: their near-zero durations would
+ * otherwise pull the EMA down. Other outcomes are appended to the test's
+ * rolling history. Measured file setup times are smoothed the same way.
+ * Each merge advances the data's `generation`.
+ *
  * @param existing - Existing timing data (or null for fresh start)
  * @param newMeasurements - New measurements from shard artifacts
  * @param alpha - EMA smoothing factor
+ * @param durationSource - Which measurement feeds the EMA (artifacts without
+ *   an attempt breakdown always use their total duration)
  * @returns Updated timing data
  */
 export function mergeTimingData(
   existing: TimingData | null,
   newMeasurements: ShardTimingArtifact[],
   alpha: number = DEFAULT_EMA_ALPHA,
+  durationSource: DurationSource = DEFAULT_DURATION_SOURCE,
 ): TimingData {
   const now = new Date().toISOString();
 
   const merged: TimingData = {
     version: TIMING_DATA_VERSION,
     updatedAt: now,
+    generation: (existing?.generation ?? 0) + 1,
     tests: existing ? { ...existing.tests } : {},
   };
+  if (existing?.files) {
+    merged.files = { ...existing.files };
+  }
 
   for (const artifact of newMeasurements) {
-    for (const [testId, duration] of Object.entries(artifact.tests)) {
+    for (const [file, setup] of Object.entries(artifact.setup ?? {})) {
+      merged.files ??= {};
+      const existingFile = merged.files[file];
+      merged.files[file] = {
+        ...mergeSetup(existingFile, setup, now, alpha),
+        projects: mergeProjectSetup(
+          existingFile?.projects,
+          artifact.project,
+          setup,
+          now,
+          alpha,
+        ),
+      };
+    }
+
+    for (const [testId, totalDuration] of Object.entries(artifact.tests)) {
       const existingData = merged.tests[testId];
       const file = extractFileFromTestId(testId);
+      const outcome = artifact.outcomes?.[testId];
+      if (outcome === 'skipped') {
+        continue;
+      }
+
+      const attempts = artifact.attempts?.[testId];
+      const duration =
+        durationSource === 'first-attempt' && attempts
+          ? attempts.firstAttempt
+          : totalDuration;
+      const retries = attempts?.retries ?? 0;
+      const retryDuration = attempts
+        ? attempts.total - attempts.firstAttempt
+        : 0;
 
       if (existingData) {
         // Apply EMA to existing data
@@ -105,6 +293,22 @@ export function mergeTimingData(
           duration: calculateEMA(existingData.duration, duration, alpha),
           runs: existingData.runs + 1,
           lastRun: now,
+          variance: calculateEMVariance(
+            existingData.duration,
+            existingData.variance ?? 0,
+            duration,
+            alpha,
+          ),
+          retries: (existingData.retries ?? 0) + retries,
+          retryDuration: (existingData.retryDuration ?? 0) + retryDuration,
+          history: appendOutcome(existingData.history, outcome),
+          projects: mergeProjectTiming(
+            existingData.projects,
+            artifact.project,
+            duration,
+            now,
+            alpha,
+          ),
         };
       } else {
         // First measurement for this test
@@ -113,6 +317,17 @@ export function mergeTimingData(
           duration,
           runs: 1,
           lastRun: now,
+          variance: 0,
+          retries,
+          retryDuration,
+          history: appendOutcome(undefined, outcome),
+          projects: mergeProjectTiming(
+            undefined,
+            artifact.project,
+            duration,
+            now,
+            alpha,
+          ),
         };
       }
     }
@@ -121,6 +336,116 @@ export function mergeTimingData(
   return merged;
 }
 
+/**
+ * Append an outcome to a test's rolling history, keeping the most recent
+ * DEFAULT_HISTORY_SIZE entries. Artifacts without outcomes leave it as is.
+ */
+function appendOutcome(
+  history: TestOutcome[] | undefined,
+  outcome: TestOutcome | undefined,
+): TestOutcome[] | undefined {
+  if (!outcome) {
+    return history;
+  }
+  return [...(history ?? []), outcome].slice(-DEFAULT_HISTORY_SIZE);
+}
+
+/**
+ * Summarize a test's outcome history into pass/flaky/fail counts and rates
+ *
+ * @param timing - Timing data of a single test
+ * @returns Outcome counts and rates (zero rates when there is no history)
+ */
+export function summarizeOutcomeHistory(
+  timing: Pick<TestTimingData, 'history'>,
+): OutcomeSummary {
+  const history = timing.history ?? [];
+  const passed = history.filter((o) => o === 'passed').length;
+  const flaky = history.filter((o) => o === 'flaky').length;
+  const failed = history.filter(
+    (o) => o === 'failed' || o === 'timedOut',
+  ).length;
+  const runs = history.length;
+
+  return {
+    runs,
+    passed,
+    flaky,
+    failed,
+    flakyRate: runs > 0 ? flaky / runs : 0,
+    failureRate: runs > 0 ? failed / runs : 0,
+  };
+}
+
+/**
+ * Apply a measurement to the per-project timing of a test, so that
+ * durations from different projects never overwrite each other.
+ */
+function mergeProjectTiming(
+  existing: Record<string, ProjectTimingData> | undefined,
+  project: string | undefined,
+  duration: number,
+  now: string,
+  alpha: number,
+): Record<string, ProjectTimingData> {
+  const projects = { ...existing };
+  if (!project) {
+    return projects;
+  }
+
+  const projectData = projects[project];
+  projects[project] = projectData
+    ? {
+        duration: calculateEMA(projectData.duration, duration, alpha),
+        runs: projectData.runs + 1,
+        lastRun: now,
+        variance: calculateEMVariance(
+          projectData.duration,
+          projectData.variance ?? 0,
+          duration,
+          alpha,
+        ),
+      }
+    : { duration, runs: 1, lastRun: now, variance: 0 };
+
+  return projects;
+}
+
+/**
+ * Smooth a file's setup time with a new measurement
+ */
+function mergeSetup(
+  existing: ProjectFileTimingData | undefined,
+  setup: number,
+  now: string,
+  alpha: number,
+): ProjectFileTimingData {
+  return existing
+    ? {
+        setup: calculateEMA(existing.setup, setup, alpha),
+        runs: existing.runs + 1,
+        lastRun: now,
+      }
+    : { setup, runs: 1, lastRun: now };
+}
+
+/**
+ * Merge a setup measurement into a file's per-project setup
+ */
+function mergeProjectSetup(
+  existing: Record<string, ProjectFileTimingData> | undefined,
+  project: string | undefined,
+  setup: number,
+  now: string,
+  alpha: number,
+): Record<string, ProjectFileTimingData> {
+  const projects = { ...existing };
+  if (project) {
+    projects[project] = mergeSetup(projects[project], setup, now, alpha);
+  }
+  return projects;
+}
+
 /**
  * Extract file name from test ID
  */
@@ -136,6 +461,9 @@ function extractFileFromTestId(testId: string): string {
  * 1. Haven't been run in more than `days` days
  * 2. No longer exist in the current tests (if provided)
  *
+ * File setup times are removed when too old or when none of the
+ * remaining tests is in the file.
+ *
  * @param data - Timing data to prune
  * @param days - Number of days after which to remove entries
  * @param currentTestIds - Optional list of current test IDs (to remove deleted tests)
@@ -168,11 +496,48 @@ export function pruneTimingData(
     prunedTests[testId] = timing;
   }
 
-  return {
+  const pruned: TimingData = {
     ...data,
     updatedAt: new Date().toISOString(),
     tests: prunedTests,
   };
+
+  if (data.files) {
+    const testFiles = new Set(Object.values(prunedTests).map((t) => t.file));
+    const prunedFiles: Record<string, FileTimingData> = {};
+    for (const [file, timing] of Object.entries(data.files)) {
+      if (new Date(timing.lastRun) >= cutoffDate && testFiles.has(file)) {
+        prunedFiles[file] = timing;
+      }
+    }
+    pruned.files = prunedFiles;
+  }
+
+  return pruned;
+}
+
+/**
+ * Get timing statistics for a test from timing data
+ *
+ * When a project is given, its own timing is preferred; the cross-project
+ * timing is used when the test has not been measured in that project yet.
+ *
+ * @param data - Timing data
+ * @param testId - Test ID
+ * @param project - Optional Playwright project name
+ * @returns Timing statistics, or undefined if not found
+ */
+export function getTestTiming(
+  data: TimingData,
+  testId: string,
+  project?: string,
+): ProjectTimingData | undefined {
+  const timing = data.tests[testId];
+  if (!timing) {
+    return undefined;
+  }
+
+  return (project ? timing.projects?.[project] : undefined) ?? timing;
 }
 
 /**
@@ -180,13 +545,37 @@ export function pruneTimingData(
  *
  * @param data - Timing data
  * @param testId - Test ID
+ * @param project - Optional Playwright project name (see getTestTiming)
  * @returns Duration in ms, or undefined if not found
  */
 export function getTestDuration(
   data: TimingData,
   testId: string,
+  project?: string,
 ): number | undefined {
-  return data.tests[testId]?.duration;
+  return getTestTiming(data, testId, project)?.duration;
+}
+
+/**
+ * Get the measured setup time of each file
+ *
+ * When a project is given, its own setup is preferred; the cross-project
+ * setup is used when the file has not been measured in that project yet.
+ *
+ * @param data - Timing data
+ * @param project - Optional Playwright project name
+ * @returns Setup time in ms per file (empty without measurements)
+ */
+export function getFileSetupTimes(
+  data: TimingData | null,
+  project?: string,
+): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(data?.files ?? {}).map(([file, t]) => [
+      file,
+      ((project ? t.projects?.[project] : undefined) ?? t).setup,
+    ]),
+  );
 }
 
 /**
@@ -1,15 +1,65 @@
+/**
+ * Timing data for a single test in a single Playwright project
+ */
+export interface ProjectTimingData {
+  /** Duration in milliseconds */
+  duration: number;
+  /** Number of times this test has been measured in the project */
+  runs: number;
+  /** ISO timestamp of last measurement */
+  lastRun: string;
+  /** Exponentially weighted variance of the duration in ms² */
+  variance?: number;
+}
+
 /**
  * Timing data for a single test
  */
 export interface TestTimingData {
   /** Source file containing this test */
   file: string;
-  /** Duration in milliseconds */
+  /** Duration in milliseconds, across all projects */
   duration: number;
   /** Number of times this test has been measured */
   runs: number;
   /** ISO timestamp of last measurement */
   lastRun: string;
+  /** Exponentially weighted variance of the duration in ms² */
+  variance?: number;
+  /** Total number of retries observed across all measured runs */
+  retries?: number;
+  /** Total time in ms spent in retries across all measured runs */
+  retryDuration?: number;
+  /** Outcomes of the most recent runs, oldest first (skipped runs excluded) */
+  history?: TestOutcome[];
+  /** Per-project timing, keyed by Playwright project name */
+  projects?: Record<string, ProjectTimingData>;
+}
+
+/**
+ * Measured setup time of a test file in a single Playwright project
+ */
+export interface ProjectFileTimingData {
+  /** Time in ms each worker spends in the file's beforeAll/afterAll hooks */
+  setup: number;
+  /** Number of times the setup has been measured in the project */
+  runs: number;
+  /** ISO timestamp of last measurement */
+  lastRun: string;
+}
+
+/**
+ * Measured setup time of a test file
+ */
+export interface FileTimingData {
+  /** Time in ms each worker spends in the file's beforeAll/afterAll hooks, across all projects */
+  setup: number;
+  /** Number of times the setup has been measured */
+  runs: number;
+  /** ISO timestamp of last measurement */
+  lastRun: string;
+  /** Per-project setup, keyed by Playwright project name */
+  projects?: Record<string, ProjectFileTimingData>;
 }
 
 /**
@@ -17,11 +67,18 @@ export interface TestTimingData {
  */
 export interface TimingData {
   /** Schema version */
-  version: 2;
+  version: 3;
   /** ISO timestamp of last update */
   updatedAt: string;
+  /**
+   * Number of merges this data has been through (absent = 0). Stores
+   * compare it before saving to detect concurrent merges.
+   */
+  generation?: number;
   /** Map of test IDs to their timing data */
   tests: Record<string, TestTimingData>;
+  /** Map of files to their measured setup time */
+  files?: Record<string, FileTimingData>;
 }
 
 /**
@@ -48,6 +105,18 @@ export interface TestWithDuration {
   duration: number;
   /** Whether the duration was estimated (no historical data) */
   estimated: boolean;
+  /** Serial group the test must run in, together with the other members */
+  serialGroup?: string;
+}
+
+/**
+ * Placement rules for the shard assignment algorithm, keyed by test ID
+ */
+export interface AssignmentConstraints {
+  /** Shard index (1-based) each pinned test must run on */
+  pins?: Record<string, number>;
+  /** Groups of tests that must each run on a different shard */
+  apart?: string[][];
 }
 
 /**
@@ -104,6 +173,66 @@ export interface TestAssignResult {
   isOptimal: boolean;
   /** Map of shard index to Playwright --test-list file content (rootDir-relative paths) */
   testListFiles: Record<number, string>;
+  /**
+   * Map of shard index to test IDs grouped by Playwright project.
+   * Only present when the assignment spans multiple projects, in which case
+   * `shards` holds project-qualified IDs (see buildProjectTestId).
+   */
+  projects?: Record<number, Record<string, string[]>>;
+  /** Predicted duration in ms per test ID (as used in `shards`) */
+  testDurations?: Record<string, number>;
+  /** Tags per test ID (as used in `shards`), for tests that have any */
+  tags?: Record<string, string[]>;
+  /** Estimated runner time and cost, when a cost model is given */
+  estimatedCost?: AssignmentCost;
+  /** Strategy that split the tests, when it isn't the default CKK */
+  strategy?: AssignStrategy;
+}
+
+/**
+ * How `assign` splits tests across shards
+ * - `ckk`: balanced on timing data (default)
+ * - `native`: Playwright's own `--shard` split, for comparisons and fallback runs
+ */
+export type AssignStrategy = 'ckk' | 'native';
+
+/**
+ * Estimated runner usage of an assignment
+ */
+export interface AssignmentCost {
+  /** Shards that received tests; the others can be skipped */
+  usedShards: number;
+  /** Fixed setup time per shard in milliseconds (checkout, install, ...) */
+  shardOverhead: number;
+  /** Expected wall-clock time including the shard overhead */
+  makespan: number;
+  /** Billed runner minutes, each shard rounded up to a whole minute */
+  billedMinutes: number;
+  /** billedMinutes × cost per minute, when a price is given */
+  cost?: number;
+}
+
+/**
+ * Final outcome of a test in a run
+ * - `flaky`: failed at least once, then passed on retry
+ */
+export type TestOutcome =
+  | 'passed'
+  | 'failed'
+  | 'flaky'
+  | 'skipped'
+  | 'timedOut';
+
+/**
+ * Attempt breakdown for a single test in a shard run
+ */
+export interface TestAttemptTiming {
+  /** Duration of the first attempt in ms */
+  firstAttempt: number;
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Duration of all attempts (first attempt + retries) in ms */
+  total: number;
 }
 
 /**
@@ -114,10 +243,23 @@ export interface ShardTimingArtifact {
   shard: number;
   /** Browser project name */
   project: string;
-  /** Map of test IDs to duration in ms */
+  /** Map of test IDs to duration in ms (all attempts, including retries) */
   tests: Record<string, number>;
+  /** Map of test IDs to their attempt breakdown */
+  attempts?: Record<string, TestAttemptTiming>;
+  /** Map of test IDs to their outcome in this run */
+  outcomes?: Record<string, TestOutcome>;
+  /** Map of files to the time each worker spent in their beforeAll/afterAll hooks */
+  setup?: Record<string, number>;
 }
 
+/**
+ * Which measurement of a test run feeds the EMA when merging timing data
+ * - `first-attempt`: duration of the first attempt only (retries ignored)
+ * - `total`: duration of all attempts
+ */
+export type DurationSource = 'first-attempt' | 'total';
+
 /**
  * Information about a discovered test
  */
@@ -134,6 +276,25 @@ export interface DiscoveredTest {
   line: number;
   /** Column number in source file */
   column: number;
+  /** Playwright project the test was discovered for */
+  project?: string;
+  /**
+   * ID of the serial describe block (or file) the test belongs to. Tests of
+   * a serial group run in order in one worker, so they can't be split.
+   */
+  serialGroup?: string;
+  /** Tags from the `tag` option and `@tokens` in titles, e.g. `@slow` */
+  tags?: string[];
+  /** Annotations such as `test.slow()` or `{ type: 'issue' }` */
+  annotations?: TestAnnotation[];
+}
+
+/**
+ * Playwright test annotation
+ */
+export interface TestAnnotation {
+  type: string;
+  description?: string;
 }
 
 /**
@@ -163,12 +324,25 @@ export interface PlaywrightSpec {
 }
 
 export interface PlaywrightTest {
+  /** Project the test ran in; a spec has one test per project */
+  projectName?: string;
+  /** Overall status against the expected status (e.g. `test.fail()`) */
+  status?: 'expected' | 'unexpected' | 'flaky' | 'skipped';
   results: PlaywrightTestResult[];
 }
 
 export interface PlaywrightTestResult {
   duration: number;
   status: string;
+  /** Worker that ran the attempt */
+  workerIndex?: number;
+  steps?: PlaywrightTestStep[];
+}
+
+export interface PlaywrightTestStep {
+  title: string;
+  duration: number;
+  steps?: PlaywrightTestStep[];
 }
 
 /**
@@ -197,10 +371,17 @@ export interface PlaywrightListSpec {
   file: string;
   line: number;
   column: number;
+  /** Tags of the spec, including those of its describe blocks, without the `@` */
+  tags?: string[];
+  /** One entry per project the spec runs in */
+  tests?: Array<{
+    projectName?: string;
+    annotations?: TestAnnotation[];
+  }>;
 }
 
 /** Current schema version for timing data */
-export const TIMING_DATA_VERSION = 2;
+export const TIMING_DATA_VERSION = 3;
 
 /**
  * Create an empty timing data structure
@@ -221,6 +402,30 @@ export function buildTestId(file: string, titlePath: string[]): string {
   return [file, ...titlePath].join('::');
 }
 
+/**
+ * Build a project-qualified test ID, used when a single assignment spans
+ * multiple Playwright projects and the same test runs once per project.
+ * Format: [project] › file::describe::testTitle
+ */
+export function buildProjectTestId(project: string, testId: string): string {
+  return `[${project}] › ${testId}`;
+}
+
+/**
+ * Parse a project-qualified test ID back to project and test ID.
+ * Plain test IDs are returned without a project.
+ */
+export function parseProjectTestId(id: string): {
+  project?: string;
+  testId: string;
+} {
+  const match = id.match(/^\[([^\]]*)\] › (.*)$/s);
+  if (!match) {
+    return { testId: id };
+  }
+  return { project: match[1], testId: match[2] ?? '' };
+}
+
 /**
  * Parse a test ID back to file and title path
  */
@@ -0,0 +1,220 @@
+/**
+ * Default target duration of a work batch in milliseconds
+ */
+export const DEFAULT_BATCH_DURATION = 60_000;
+
+/**
+ * Default time in milliseconds before an unfinished batch is handed to
+ * another worker
+ */
+export const DEFAULT_LEASE_TIMEOUT = 30 * 60_000;
+
+/**
+ * A test waiting to be run by a worker
+ */
+export interface WorkItem {
+  /** Scheduling key (project-qualified in multi-project mode) */
+  testId: string;
+  /** Source file, used to keep same-file tests adjacent */
+  file: string;
+  /** Expected duration in milliseconds */
+  duration: number;
+  /** Playwright --test-list line (one line per test for a serial group) */
+  line: string;
+  /** Test IDs of a serial group handed out as one item, in order */
+  tests?: string[];
+}
+
+/**
+ * Tests leased to a worker in one request
+ */
+export interface WorkBatch {
+  id: number;
+  /** Worker the batch is leased to */
+  worker: string;
+  /** Test IDs in the batch */
+  tests: string[];
+  /** Playwright --test-list lines, one per test */
+  lines: string[];
+  /** Expected duration of the batch in milliseconds */
+  duration: number;
+}
+
+/**
+ * Options for {@link WorkQueue}
+ */
+export interface WorkQueueOptions {
+  /** Target duration of a batch (default: 60s). A batch always holds at least one test. */
+  batchDuration?: number;
+  /** Time before an unfinished batch is re-queued (default: 30min) */
+  leaseTimeout?: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+/**
+ * Progress of a work queue
+ */
+export interface WorkQueueStatus {
+  /** Tests waiting for a worker */
+  pending: number;
+  /** Tests in batches that are leased but not completed */
+  leased: number;
+  /** Tests in completed batches */
+  completed: number;
+  /** Completed batches whose run failed */
+  failedBatches: number;
+  /** Batches re-queued after their lease expired */
+  expiredBatches: number;
+  /** Tests completed per worker */
+  workers: Record<string, number>;
+}
+
+interface Lease {
+  batch: WorkBatch;
+  items: WorkItem[];
+  expiresAt: number;
+}
+
+/**
+ * Queue of tests shared by dynamically scheduled shards
+ *
+ * Tests are ordered longest first, like CKK and LPT, so the long tests
+ * start early and the short ones fill the gaps at the end. Workers pull
+ * batches until the queue is empty; a batch that isn't completed within
+ * the lease timeout goes back to the queue for another worker.
+ */
+export class WorkQueue {
+  private readonly pending: WorkItem[];
+  private readonly leases = new Map<number, Lease>();
+  private readonly batchDuration: number;
+  private readonly leaseTimeout: number;
+  private readonly now: () => number;
+  private nextBatchId = 1;
+  private completed = 0;
+  private failedBatches = 0;
+  private expiredBatches = 0;
+  private readonly workers: Record<string, number> = {};
+
+  constructor(items: WorkItem[], options: WorkQueueOptions = {}) {
+    this.pending = [...items].sort(compareWorkItems);
+    this.batchDuration = options.batchDuration ?? DEFAULT_BATCH_DURATION;
+    this.leaseTimeout = options.leaseTimeout ?? DEFAULT_LEASE_TIMEOUT;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Lease the next batch to a worker
+   *
+   * @param worker - Worker name
+   * @returns The batch, or null when no tests are pending
+   */
+  next(worker: string): WorkBatch | null {
+    this.requeueExpired();
+
+    const first = this.pending.shift();
+    if (!first) {
+      return null;
+    }
+
+    const items = [first];
+    let duration = first.duration;
+    while (
+      this.pending[0] &&
+      duration + this.pending[0].duration <= this.batchDuration
+    ) {
+      const item = this.pending.shift() as WorkItem;
+      items.push(item);
+      duration += item.duration;
+    }
+
+    const batch: WorkBatch = {
+      id: this.nextBatchId++,
+      worker,
+      tests: items.flatMap((i) => i.tests ?? [i.testId]),
+      lines: items.map((i) => i.line),
+      duration,
+    };
+    this.leases.set(batch.id, {
+      batch,
+      items,
+      expiresAt: this.now() + this.leaseTimeout,
+    });
+    return batch;
+  }
+
+  /**
+   * Mark a leased batch as run
+   *
+   * @param batchId - Batch ID from {@link next}
+   * @param failed - Whether the run failed (its tests are not re-queued)
+   * @returns The completed batch, or null if it is unknown or its lease expired
+   */
+  complete(batchId: number, failed = false): WorkBatch | null {
+    const lease = this.leases.get(batchId);
+    if (!lease) {
+      return null;
+    }
+
+    this.leases.delete(batchId);
+    const tests = lease.batch.tests.length;
+    this.completed += tests;
+    if (failed) {
+      this.failedBatches++;
+    }
+    const { worker } = lease.batch;
+    this.workers[worker] = (this.workers[worker] ?? 0) + tests;
+    return lease.batch;
+  }
+
+  /**
+   * Whether every test has been run
+   */
+  get done(): boolean {
+    this.requeueExpired();
+    return this.pending.length === 0 && this.leases.size === 0;
+  }
+
+  status(): WorkQueueStatus {
+    this.requeueExpired();
+    let leased = 0;
+    for (const lease of this.leases.values()) {
+      leased += lease.batch.tests.length;
+    }
+    return {
+      pending: this.pending.reduce((n, i) => n + (i.tests?.length ?? 1), 0),
+      leased,
+      completed: this.completed,
+      failedBatches: this.failedBatches,
+      expiredBatches: this.expiredBatches,
+      workers: { ...this.workers },
+    };
+  }
+
+  /**
+   * Return the tests of expired leases to the queue
+   */
+  private requeueExpired(): void {
+    const now = this.now();
+    let requeued = false;
+    for (const [id, lease] of this.leases) {
+      if (lease.expiresAt <= now) {
+        this.leases.delete(id);
+        this.pending.push(...lease.items);
+        this.expiredBatches++;
+        requeued = true;
+      }
+    }
+    if (requeued) {
+      this.pending.sort(compareWorkItems);
+    }
+  }
+}
+
+/**
+ * Sort by duration descending, then by file for same-file adjacency
+ * (the order CKK explores tests in)
+ */
+function compareWorkItems(a: WorkItem, b: WorkItem): number {
+  return b.duration - a.duration || a.file.localeCompare(b.file);
+}
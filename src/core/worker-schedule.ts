@@ -0,0 +1,188 @@
+import type { TestShardAssignment, TestWithDuration } from './types.js';
+
+/**
+ * Options for scheduling the tests of each shard on its workers
+ */
+export interface WorkerScheduleOptions {
+  /** Speed factor per shard (default: all 1), as in assignWithCKK */
+  shardWeights?: number[];
+  /** Measured setup cost in ms per file, paid by every worker running it */
+  fileSetupCosts?: Record<string, number>;
+  /** Keep the given order and only simulate it (e.g. failures first) */
+  keepOrder?: boolean;
+  /**
+   * Whether the Playwright config sets `fullyParallel`. Without it a
+   * worker runs every test of a file, so files are dispatched whole.
+   */
+  fullyParallel?: boolean;
+}
+
+/**
+ * Simulate a shard running its items in order on parallel workers
+ *
+ * Like Playwright's dispatcher, each item goes to the first worker to
+ * become free. An item is what Playwright dispatches as one unit: a whole
+ * file, or with `fullyParallel` a single test or serial group. A worker pays a file's setup cost the first time it runs
+ * a test of that file, since it runs the file's beforeAll hooks itself.
+ *
+ * @param items - Items in the order they are dispatched
+ * @param workers - Number of workers
+ * @param fileSetupCosts - Measured setup cost in ms per file
+ * @returns Time in ms until the last worker finishes
+ */
+export function simulateWorkers(
+  items: TestWithDuration[],
+  workers: number,
+  fileSetupCosts: Record<string, number> = {},
+): number {
+  const loads = new Array<number>(Math.max(1, workers)).fill(0);
+  const files = loads.map(() => new Set<string>());
+
+  for (const item of items) {
+    let worker = 0;
+    for (let i = 1; i < loads.length; i++) {
+      if ((loads[i] ?? 0) < (loads[worker] ?? 0)) {
+        worker = i;
+      }
+    }
+    const seen = files[worker] as Set<string>;
+    const setup = seen.has(item.file) ? 0 : (fileSetupCosts[item.file] ?? 0);
+    seen.add(item.file);
+    loads[worker] = (loads[worker] ?? 0) + setup + item.duration;
+  }
+
+  return Math.max(...loads);
+}
+
+/**
+ * Order the items of each shard for its workers and predict its duration
+ *
+ * Tries the assigned order, longest item first, and an order in which
+ * each free worker prefers files it has already set up, and keeps the
+ * order with the lowest simulated makespan. Without `fullyParallel` the
+ * tests of a file are dispatched as one item and stay together in the
+ * order they were assigned. Items never change shard.
+ *
+ * @param assignments - Shard assignments of scheduling items
+ * @param items - Scheduling items with their durations
+ * @param workers - Number of workers per shard
+ * @param options - Shard speeds, file setup costs and whether to keep the order
+ * @returns Reordered assignments whose expectedDuration is the simulated makespan
+ */
+export function scheduleShardWorkers(
+  assignments: TestShardAssignment[],
+  items: TestWithDuration[],
+  workers: number,
+  options: WorkerScheduleOptions = {},
+): TestShardAssignment[] {
+  const byId = new Map(items.map((item) => [item.testId, item]));
+  const setup = options.fileSetupCosts ?? {};
+
+  return assignments.map((assignment) => {
+    const shardItems = assignment.tests
+      .map((id) => byId.get(id))
+      .filter((item): item is TestWithDuration => item !== undefined);
+    const { units, members } = options.fullyParallel
+      ? {
+          units: shardItems,
+          members: new Map(shardItems.map((item) => [item.testId, [item]])),
+        }
+      : groupByFile(shardItems);
+    const candidates = options.keepOrder
+      ? [units]
+      : [units, longestFirst(units), setupAwareOrder(units, workers, setup)];
+
+    let best = units;
+    let bestMakespan = Infinity;
+    for (const candidate of candidates) {
+      const makespan = simulateWorkers(candidate, workers, setup);
+      if (makespan < bestMakespan) {
+        best = candidate;
+        bestMakespan = makespan;
+      }
+    }
+
+    const speed = options.shardWeights?.[assignment.shardIndex - 1] ?? 1;
+    return {
+      ...assignment,
+      tests: (options.keepOrder
+        ? shardItems
+        : best.flatMap((unit) => members.get(unit.testId) ?? [])
+      ).map((item) => item.testId),
+      expectedDuration: Math.round(bestMakespan / speed),
+    };
+  });
+}
+
+/**
+ * Join the items of each file into one dispatch unit, in the order the
+ * files first appear
+ */
+function groupByFile(items: TestWithDuration[]): {
+  units: TestWithDuration[];
+  members: Map<string, TestWithDuration[]>;
+} {
+  const units = new Map<string, TestWithDuration>();
+  const members = new Map<string, TestWithDuration[]>();
+  for (const item of items) {
+    const unit = units.get(item.file);
+    if (unit) {
+      unit.duration += item.duration;
+      unit.estimated ||= item.estimated;
+      members.get(item.file)?.push(item);
+      continue;
+    }
+    units.set(item.file, {
+      testId: item.file,
+      file: item.file,
+      duration: item.duration,
+      estimated: item.estimated,
+    });
+    members.set(item.file, [item]);
+  }
+  return { units: [...units.values()], members };
+}
+
+function longestFirst(items: TestWithDuration[]): TestWithDuration[] {
+  return [...items].sort((a, b) => b.duration - a.duration);
+}
+
+/**
+ * Dispatch order in which the next free worker takes the longest item of
+ * a file it has already set up, else of a file no worker has set up, or
+ * else the longest item left
+ *
+ * Workers are picked like in simulateWorkers, so simulating the order
+ * reproduces the schedule it was built from.
+ */
+function setupAwareOrder(
+  items: TestWithDuration[],
+  workers: number,
+  fileSetupCosts: Record<string, number>,
+): TestWithDuration[] {
+  const remaining = longestFirst(items);
+  const loads = new Array<number>(Math.max(1, workers)).fill(0);
+  const files = loads.map(() => new Set<string>());
+  const order: TestWithDuration[] = [];
+
+  while (remaining.length > 0) {
+    let worker = 0;
+    for (let i = 1; i < loads.length; i++) {
+      if ((loads[i] ?? 0) < (loads[worker] ?? 0)) {
+        worker = i;
+      }
+    }
+    const seen = files[worker] as Set<string>;
+    const ownFile = remaining.findIndex((item) => seen.has(item.file));
+    const newFile = remaining.findIndex((item) =>
+      files.every((set) => !set.has(item.file)),
+    );
+    const index = ownFile !== -1 ? ownFile : Math.max(0, newFile);
+    const [item] = remaining.splice(index, 1) as [TestWithDuration];
+    const setup = seen.has(item.file) ? 0 : (fileSetupCosts[item.file] ?? 0);
+    seen.add(item.file);
+    loads[worker] = (loads[worker] ?? 0) + setup + item.duration;
+    order.push(item);
+  }
+  return order;
+}
@@ -0,0 +1,9 @@
+/**
+ * Playwright reporter entry point
+ *
+ * Playwright loads reporters from a module's default export:
+ * `reporter: [['@nsxbet/playwright-orchestrator/reporter', { outputDir: 'timing' }]]`
+ */
+
+export type { TimingReporterOptions } from './core/timing-reporter.js';
+export { TimingReporter as default } from './core/timing-reporter.js';